@@ -0,0 +1,230 @@
+/*
+ * Wasender TypeScript SDK - Message Builder
+ * Fluent builder producing `WasenderMessagePayload` objects ready for `send()`.
+ * Each step only exposes the options valid for the chosen message type, and validates its input.
+ */
+
+import {
+  WasenderMessagePayload,
+  TextOnlyMessage,
+  ImageUrlMessage,
+  VideoUrlMessage,
+  DocumentUrlMessage,
+  AudioUrlMessage,
+  StickerUrlMessage,
+  ContactCardMessage,
+  LocationPinMessage
+} from "./messages.ts";
+import { WasenderValidationError } from "./errors.ts";
+import type { UserJid } from "./jid.ts";
+import type { MessageKey } from "./webhook.ts";
+
+// ---------- Validation Helpers ----------
+
+function invalid(field: string, message: string): WasenderValidationError {
+  return new WasenderValidationError(message, { [field]: [message] }, 400);
+}
+
+function requireText(field: string, value: unknown): string {
+  if (typeof value !== "string" || value.trim() === "") {
+    throw invalid(field, `${field} must be a non-empty string.`);
+  }
+  return value;
+}
+
+function requireUrl(field: string, value: unknown): string {
+  const url = requireText(field, value);
+  let protocol: string;
+  try {
+    protocol = new URL(url).protocol;
+  } catch {
+    throw invalid(field, `${field} must be an absolute URL.`);
+  }
+  if (protocol !== "http:" && protocol !== "https:") {
+    throw invalid(field, `${field} must be an http(s) URL.`);
+  }
+  return url;
+}
+
+function requireCoordinate(field: "latitude" | "longitude", value: number | string): number {
+  const coordinate = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  const max = field === "latitude" ? 90 : 180;
+  if (typeof coordinate !== "number" || !Number.isFinite(coordinate) || Math.abs(coordinate) > max) {
+    throw invalid(field, `${field} must be a number between -${max} and ${max}.`);
+  }
+  return coordinate;
+}
+
+// ---------- Builders ----------
+
+/** Base class of all builders. `build()` returns a copy of the payload, so a builder can be reused. */
+export abstract class MessagePayloadBuilder<T extends WasenderMessagePayload> {
+  protected constructor(protected readonly payload: T) {
+    requireText("to", payload.to);
+  }
+
+  /** Sends the message as a reply quoting `key`, e.g. `event.data.key` of an incoming message. */
+  quote(key: MessageKey): this {
+    if (!key?.id || !key.remoteId) {
+      throw invalid("quoted", "quoted must be a message key with an id and remoteId.");
+    }
+    this.payload.quoted = { ...key };
+    return this;
+  }
+
+  /** Adds users @mentioned in the text, as JIDs or phone numbers. */
+  mention(...users: Array<UserJid | string>): this {
+    this.payload.mentions = [...(this.payload.mentions ?? []), ...users.map(user => requireText("mentions", user))];
+    return this;
+  }
+
+  /** Returns the finished payload, ready for `Wasender.send()`. */
+  build(): T {
+    return clonePayload(this.payload);
+  }
+}
+
+/** Builder for message types that accept a caption. */
+export abstract class CaptionedMessageBuilder<
+  T extends ImageUrlMessage | VideoUrlMessage | DocumentUrlMessage | AudioUrlMessage | ContactCardMessage | LocationPinMessage
+> extends MessagePayloadBuilder<T> {
+  /** Sets the caption sent with the message. */
+  caption(text: string): this {
+    this.payload.text = requireText("text", text);
+    return this;
+  }
+}
+
+export class TextMessageBuilder extends MessagePayloadBuilder<TextOnlyMessage> {
+  constructor(to: string, text: string) {
+    super({ messageType: "text", to, text: requireText("text", text) });
+  }
+}
+
+export class ImageMessageBuilder extends CaptionedMessageBuilder<ImageUrlMessage> {
+  constructor(to: string, imageUrl: string) {
+    super({ messageType: "image", to, imageUrl: requireUrl("imageUrl", imageUrl) });
+  }
+}
+
+export class VideoMessageBuilder extends CaptionedMessageBuilder<VideoUrlMessage> {
+  constructor(to: string, videoUrl: string) {
+    super({ messageType: "video", to, videoUrl: requireUrl("videoUrl", videoUrl) });
+  }
+}
+
+export class DocumentMessageBuilder extends CaptionedMessageBuilder<DocumentUrlMessage> {
+  constructor(to: string, documentUrl: string) {
+    super({ messageType: "document", to, documentUrl: requireUrl("documentUrl", documentUrl) });
+  }
+
+  /** Sets the file name shown to the recipient. */
+  fileName(name: string): this {
+    this.payload.fileName = requireText("fileName", name);
+    return this;
+  }
+}
+
+export class AudioMessageBuilder extends CaptionedMessageBuilder<AudioUrlMessage> {
+  constructor(to: string, audioUrl: string) {
+    super({ messageType: "audio", to, audioUrl: requireUrl("audioUrl", audioUrl) });
+  }
+}
+
+/** Stickers cannot carry text, so this builder has no `caption()`. */
+export class StickerMessageBuilder extends MessagePayloadBuilder<StickerUrlMessage> {
+  constructor(to: string, stickerUrl: string) {
+    super({ messageType: "sticker", to, stickerUrl: requireUrl("stickerUrl", stickerUrl) });
+  }
+}
+
+export class ContactMessageBuilder extends CaptionedMessageBuilder<ContactCardMessage> {
+  constructor(to: string, name: string, phone: string) {
+    super({
+      messageType: "contact",
+      to,
+      contact: { name: requireText("contact.name", name), phone: requireText("contact.phone", phone) },
+    });
+  }
+}
+
+export class LocationMessageBuilder extends CaptionedMessageBuilder<LocationPinMessage> {
+  /** Coordinates given as strings are converted to numbers. */
+  constructor(to: string, latitude: number | string, longitude: number | string) {
+    super({
+      messageType: "location",
+      to,
+      location: { latitude: requireCoordinate("latitude", latitude), longitude: requireCoordinate("longitude", longitude) },
+    });
+  }
+
+  /** Sets the name of the place. */
+  name(name: string): this {
+    this.payload.location.name = requireText("location.name", name);
+    return this;
+  }
+
+  /** Sets the address of the place. */
+  address(address: string): this {
+    this.payload.location.address = requireText("location.address", address);
+    return this;
+  }
+}
+
+/** Second step of `Message.to()`: chooses the message type. */
+export class MessageRecipient {
+  constructor(private readonly recipient: string) {
+    requireText("to", recipient);
+  }
+
+  text(text: string): TextMessageBuilder {
+    return new TextMessageBuilder(this.recipient, text);
+  }
+
+  image(imageUrl: string): ImageMessageBuilder {
+    return new ImageMessageBuilder(this.recipient, imageUrl);
+  }
+
+  video(videoUrl: string): VideoMessageBuilder {
+    return new VideoMessageBuilder(this.recipient, videoUrl);
+  }
+
+  document(documentUrl: string): DocumentMessageBuilder {
+    return new DocumentMessageBuilder(this.recipient, documentUrl);
+  }
+
+  audio(audioUrl: string): AudioMessageBuilder {
+    return new AudioMessageBuilder(this.recipient, audioUrl);
+  }
+
+  sticker(stickerUrl: string): StickerMessageBuilder {
+    return new StickerMessageBuilder(this.recipient, stickerUrl);
+  }
+
+  contact(name: string, phone: string): ContactMessageBuilder {
+    return new ContactMessageBuilder(this.recipient, name, phone);
+  }
+
+  location(latitude: number | string, longitude: number | string): LocationMessageBuilder {
+    return new LocationMessageBuilder(this.recipient, latitude, longitude);
+  }
+}
+
+/**
+ * Entry point of the fluent builder.
+ * @example Message.to("+1234567890").image("https://example.com/a.png").caption("Hi").build()
+ */
+export const Message = {
+  /**
+   * Starts a message to a phone number in E.164 format, a group JID or a channel JID.
+   * @throws WasenderValidationError if `recipient` is empty.
+   */
+  to(recipient: string): MessageRecipient {
+    return new MessageRecipient(recipient);
+  },
+};
+
+/** Deep copy of a plain JSON payload. */
+function clonePayload<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
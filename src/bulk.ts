@@ -0,0 +1,377 @@
+/*
+ * Wasender TypeScript SDK - Bulk Sending
+ * Sends one message per recipient with bounded concurrency and pacing, honours the server's
+ * rate limit budget, supports pause/resume/cancel, and reports the outcome of every recipient.
+ */
+
+import type { WasenderMessagePayload, WasenderSendResult, RateLimitInfo } from "./messages.ts";
+import type { WasenderErrorCode, WasenderErrorDetail } from "./errors.ts";
+import { WasenderAPIError, WasenderRateLimitError } from "./errors.ts";
+import { Logger, noopLogger } from "./logger.ts";
+
+// ---------- Types ----------
+
+/** Builds the message for one recipient. Throwing (or rejecting) marks the recipient as failed. */
+export type BulkPayloadFactory<R> = (recipient: R, index: number) => WasenderMessagePayload | Promise<WasenderMessagePayload>;
+
+/** Sends one payload. `Wasender.sendBulk()` passes `Wasender.send()`. */
+export type BulkSendFunction = (payload: WasenderMessagePayload, options: { signal?: AbortSignal }) => Promise<WasenderSendResult>;
+
+/** `running` → `paused` ⇄ `running` → `completed` | `cancelled`. */
+export type BulkSendState = "running" | "paused" | "cancelled" | "completed";
+
+export interface BulkSendOptions<R> {
+  /** Messages in flight at the same time. Defaults to 5. */
+  concurrency?: number;
+  /** Upper bound on messages started per minute, spread evenly. Unlimited by default. */
+  messagesPerMinute?: number;
+  /**
+   * Attempts per recipient when the API answers 429. Other failures are not retried here,
+   * since the client's own retry policy already applies to each send. Defaults to 3.
+   */
+  maxAttempts?: number;
+  /** Cancels the job when aborted, like `cancel()`, and also aborts the messages in flight. */
+  signal?: AbortSignal;
+  /** Called after every recipient finishes and on every state change. */
+  onProgress?: (progress: BulkSendProgress) => void;
+  /** Called with the result of each recipient as soon as it is known. */
+  onResult?: (result: BulkRecipientResult<R>) => void;
+  /**
+   * Receives errors thrown by `onProgress` and `onResult`, which never stop the job.
+   * `Wasender.sendBulk()` defaults it to the client's logger.
+   */
+  logger?: Logger;
+}
+
+/** Counters of a running or finished job. */
+export interface BulkSendProgress {
+  state: BulkSendState;
+  total: number;
+  /** Recipients with a final result (sent, failed or skipped). */
+  completed: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+  inFlight: number;
+  /** Rate limit information from the most recent response, if any. */
+  rateLimit: RateLimitInfo | null;
+}
+
+/** Error details recorded for a failed recipient. */
+export interface BulkRecipientError {
+  name: string;
+  message: string;
+  code?: WasenderErrorCode;
+  statusCode?: number;
+  isRetryable?: boolean;
+  errorDetails?: WasenderErrorDetail;
+}
+
+/**
+ * Outcome for one recipient. `skipped` recipients were never sent because the job was cancelled,
+ * either before they started or while they waited to retry after a 429.
+ */
+export interface BulkRecipientResult<R> {
+  index: number;
+  recipient: R;
+  /** The `to` of the payload, when the factory produced one. */
+  to?: string;
+  status: "sent" | "failed" | "skipped";
+  /** Number of times the message was handed to the client. */
+  attempts: number;
+  idempotencyKey?: string;
+  error?: BulkRecipientError;
+  /** Time the recipient was finished, in milliseconds since the epoch. */
+  finishedAt: number;
+}
+
+// ---------- Report ----------
+
+const CSV_COLUMNS = ["index", "to", "status", "attempts", "statusCode", "errorCode", "errorMessage", "idempotencyKey"] as const;
+
+function csvCell(value: unknown): string {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Per-recipient results of a bulk send, in recipient order. */
+export class BulkSendReport<R = unknown> {
+  constructor(
+    public readonly results: ReadonlyArray<BulkRecipientResult<R>>,
+    /** `completed` if every recipient was attempted, `cancelled` otherwise. */
+    public readonly state: "completed" | "cancelled"
+  ) {}
+
+  get sent(): BulkRecipientResult<R>[] {
+    return this.results.filter(result => result.status === "sent");
+  }
+
+  get failed(): BulkRecipientResult<R>[] {
+    return this.results.filter(result => result.status === "failed");
+  }
+
+  get skipped(): BulkRecipientResult<R>[] {
+    return this.results.filter(result => result.status === "skipped");
+  }
+
+  /** Plain object for `JSON.stringify()`, with totals and all results. */
+  toJSON(): { state: "completed" | "cancelled"; total: number; sent: number; failed: number; skipped: number; results: ReadonlyArray<BulkRecipientResult<R>> } {
+    return {
+      state: this.state,
+      total: this.results.length,
+      sent: this.sent.length,
+      failed: this.failed.length,
+      skipped: this.skipped.length,
+      results: this.results,
+    };
+  }
+
+  /** CSV with a header row and one row per recipient (RFC 4180 quoting). */
+  toCSV(): string {
+    const rows = this.results.map(result => [
+      result.index,
+      result.to,
+      result.status,
+      result.attempts,
+      result.error?.statusCode,
+      result.error?.code,
+      result.error?.message,
+      result.idempotencyKey,
+    ].map(csvCell).join(","));
+    return [CSV_COLUMNS.join(","), ...rows].join("\r\n");
+  }
+}
+
+// ---------- Job ----------
+
+function describeError(error: unknown): BulkRecipientError {
+  if (error instanceof WasenderAPIError) {
+    return {
+      name: error.name,
+      message: error.apiMessage,
+      code: error.code,
+      statusCode: error.statusCode,
+      isRetryable: error.isRetryable,
+      errorDetails: error.errorDetails,
+    };
+  }
+  return error instanceof Error ? { name: error.name, message: error.message } : { name: "Error", message: String(error) };
+}
+
+/**
+ * A running bulk send. Await it (or its `done` promise) for the report.
+ * Cancelling stops new sends; messages already in flight are allowed to finish.
+ */
+export class BulkSendJob<R> implements PromiseLike<BulkSendReport<R>> {
+  /** Resolves with the report once every worker has stopped. */
+  public readonly done: Promise<BulkSendReport<R>>;
+
+  private state: BulkSendState = "running";
+  private readonly recipients: R[];
+  private readonly results: Array<BulkRecipientResult<R> | undefined>;
+  private next = 0;
+  private inFlight = 0;
+  private lastRateLimit: RateLimitInfo | null = null;
+  /** Earliest time the next message may start, for `messagesPerMinute` pacing. */
+  private nextSlotAt = 0;
+  /** Sends are held back until this time after the budget ran out or a 429. */
+  private blockedUntil = 0;
+  private readonly wakers = new Set<() => void>();
+  private readonly onAbort = () => this.cancel();
+
+  constructor(
+    private readonly sendFn: BulkSendFunction,
+    recipients: Iterable<R>,
+    private readonly factory: BulkPayloadFactory<R>,
+    private readonly options: BulkSendOptions<R> = {}
+  ) {
+    this.recipients = Array.from(recipients);
+    this.results = new Array(this.recipients.length);
+    const concurrency = Math.max(1, Math.floor(options.concurrency ?? 5));
+    if (options.signal?.aborted) this.state = "cancelled";
+    options.signal?.addEventListener("abort", this.onAbort, { once: true });
+
+    const workers = Array.from({ length: Math.min(concurrency, this.recipients.length) }, () => this.work());
+    this.done = Promise.all(workers).then(() => this.finish());
+  }
+
+  then<T1 = BulkSendReport<R>, T2 = never>(
+    onfulfilled?: ((value: BulkSendReport<R>) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return this.done.then(onfulfilled, onrejected);
+  }
+
+  /** Stops starting new messages until `resume()`. */
+  pause(): void {
+    if (this.state !== "running") return;
+    this.state = "paused";
+    this.emitProgress();
+  }
+
+  resume(): void {
+    if (this.state !== "paused") return;
+    this.state = "running";
+    this.wakeAll();
+    this.emitProgress();
+  }
+
+  /** Stops the job. Recipients not yet started or waiting to retry after a 429 are reported as `skipped`. */
+  cancel(): void {
+    if (this.state === "cancelled" || this.state === "completed") return;
+    this.state = "cancelled";
+    this.wakeAll();
+    this.emitProgress();
+  }
+
+  getState(): BulkSendState {
+    return this.state;
+  }
+
+  getProgress(): BulkSendProgress {
+    const finished = this.results.filter((result): result is BulkRecipientResult<R> => result !== undefined);
+    return {
+      state: this.state,
+      total: this.recipients.length,
+      completed: finished.length,
+      sent: finished.filter(result => result.status === "sent").length,
+      failed: finished.filter(result => result.status === "failed").length,
+      skipped: finished.filter(result => result.status === "skipped").length,
+      inFlight: this.inFlight,
+      rateLimit: this.lastRateLimit,
+    };
+  }
+
+  private async work(): Promise<void> {
+    while (this.next < this.recipients.length) {
+      await this.waitUntilRunnable();
+      if (this.state === "cancelled") return;
+      const index = this.next++;
+      if (index >= this.recipients.length) return;
+      this.inFlight++;
+      const result = await this.sendOne(index);
+      this.inFlight--;
+      this.record(result);
+    }
+  }
+
+  private async sendOne(index: number): Promise<BulkRecipientResult<R>> {
+    const recipient = this.recipients[index];
+    const maxAttempts = Math.max(1, this.options.maxAttempts ?? 3);
+    let payload: WasenderMessagePayload;
+    try {
+      payload = await this.factory(recipient, index);
+    } catch (error) {
+      return { index, recipient, status: "failed", attempts: 0, error: describeError(error), finishedAt: Date.now() };
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await this.sendFn(payload, { signal: this.options.signal });
+        this.observeRateLimit(result.rateLimit);
+        return {
+          index, recipient, to: payload.to, status: "sent", attempts: attempt,
+          idempotencyKey: result.idempotencyKey, finishedAt: Date.now(),
+        };
+      } catch (error) {
+        if (error instanceof WasenderAPIError) this.observeRateLimit(error.rateLimit);
+        if (error instanceof WasenderRateLimitError && attempt < maxAttempts) {
+          if (this.state !== "cancelled") {
+            this.blockFor((error.retryAfter ?? 1) * 1000);
+            await this.waitUntilRunnable();
+          }
+          if (this.getState() !== "cancelled") continue;
+          return { index, recipient, to: payload.to, status: "skipped", attempts: attempt, error: describeError(error), finishedAt: Date.now() };
+        }
+        return { index, recipient, to: payload.to, status: "failed", attempts: attempt, error: describeError(error), finishedAt: Date.now() };
+      }
+    }
+  }
+
+  /** Waits while paused, rate limited or paced; takes a pacing slot before returning. */
+  private async waitUntilRunnable(): Promise<void> {
+    for (;;) {
+      if (this.state === "cancelled") return;
+      if (this.state === "paused") {
+        await this.sleep(Infinity);
+        continue;
+      }
+      const now = Date.now();
+      const readyAt = Math.max(this.blockedUntil, this.nextSlotAt);
+      if (readyAt > now) {
+        await this.sleep(readyAt - now);
+        continue;
+      }
+      const perMinute = this.options.messagesPerMinute;
+      if (perMinute && perMinute > 0) this.nextSlotAt = now + 60_000 / perMinute;
+      return;
+    }
+  }
+
+  private observeRateLimit(info: RateLimitInfo | undefined): void {
+    if (!info) return;
+    this.lastRateLimit = info;
+    if (info.remaining === 0 && info.resetTimestamp !== null) {
+      this.blockFor(info.resetTimestamp * 1000 - Date.now());
+    }
+  }
+
+  private blockFor(ms: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + Math.max(0, ms));
+  }
+
+  /** Sleeps for `ms` (forever if Infinity), waking early on resume or cancel. */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      let handle: ReturnType<typeof setTimeout> | undefined;
+      const wake = () => {
+        if (handle !== undefined) clearTimeout(handle);
+        this.wakers.delete(wake);
+        resolve();
+      };
+      this.wakers.add(wake);
+      if (Number.isFinite(ms)) handle = setTimeout(wake, ms);
+    });
+  }
+
+  private wakeAll(): void {
+    for (const wake of [...this.wakers]) wake();
+  }
+
+  private record(result: BulkRecipientResult<R>): void {
+    this.results[result.index] = result;
+    this.invoke("onResult", () => this.options.onResult?.(result));
+    this.emitProgress();
+  }
+
+  private finish(): BulkSendReport<R> {
+    this.options.signal?.removeEventListener("abort", this.onAbort);
+    const finishedAt = Date.now();
+    for (let index = 0; index < this.recipients.length; index++) {
+      if (!this.results[index]) {
+        this.record({ index, recipient: this.recipients[index], status: "skipped", attempts: 0, finishedAt });
+      }
+    }
+    if (this.state !== "cancelled") {
+      this.state = "completed";
+      this.emitProgress();
+    }
+    return new BulkSendReport(this.results as BulkRecipientResult<R>[], this.state === "cancelled" ? "cancelled" : "completed");
+  }
+
+  private emitProgress(): void {
+    this.invoke("onProgress", () => this.options.onProgress?.(this.getProgress()));
+  }
+
+  /** Runs a user callback, logging its errors so that they cannot reject the job while sends continue. */
+  private invoke(name: "onProgress" | "onResult", callback: () => void): void {
+    try {
+      callback();
+    } catch (error) {
+      (this.options.logger ?? noopLogger).error(`Wasender SDK: Bulk send ${name} callback threw; the job continues.`, {
+        callback: name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,257 @@
+/*
+ * Wasender TypeScript SDK - Circuit Breaker
+ * Stops sending requests to a failing backend: opens after repeated failures, fails fast
+ * while open, and lets probe requests through once the open period has elapsed.
+ */
+
+import { WasenderCircuitOpenError } from "./errors.ts";
+
+/** `closed`: requests flow. `open`: requests fail fast. `half_open`: a limited number of probes are allowed. */
+export type CircuitState = "closed" | "open" | "half_open";
+
+/** Emitted whenever a circuit changes state. */
+export interface CircuitStateChangeEvent {
+  /** Name of the circuit (base URL and credential fingerprint when created by the client). */
+  name: string;
+  from: CircuitState;
+  to: CircuitState;
+  /** Consecutive failures recorded when the change happened. */
+  consecutiveFailures: number;
+  /** Failure rate (0-1) over the sliding window when the change happened. */
+  failureRate: number;
+  /** Time of the change, in milliseconds since the epoch. */
+  timestamp: number;
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit. Defaults to 5. */
+  failureThreshold?: number;
+  /** Failure rate (0-1) over the sliding window that opens the circuit. Disabled by default. */
+  failureRateThreshold?: number;
+  /** Number of recent outcomes the failure rate is computed over. Defaults to 20. */
+  windowSize?: number;
+  /** Outcomes required in the window before the failure rate is considered. Defaults to 10. */
+  minimumRequests?: number;
+  /** How long the circuit stays open before allowing probes, in milliseconds. Defaults to 30000. */
+  openDurationMs?: number;
+  /** Probe requests allowed while half-open; this many must succeed to close the circuit. Defaults to 1. */
+  halfOpenProbes?: number;
+  /** Called on every state change, e.g. to raise an alert. */
+  onStateChange?: (event: CircuitStateChangeEvent) => void;
+  /** Clock in milliseconds. Injectable for testing. */
+  now?: () => number;
+}
+
+/** Snapshot of a circuit's state and counters. */
+export interface CircuitBreakerStats {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureRate: number;
+  /** When an open circuit starts allowing probes, in milliseconds since the epoch. Null unless open. */
+  nextAttemptAt: number | null;
+}
+
+/** Admission returned by `CircuitBreaker.acquire()`, to be passed back with the request's outcome. */
+export interface CircuitPermit {
+  /** Half-open period the request was admitted in as a probe, or null if it was not a probe. */
+  readonly probe: number | null;
+}
+
+/**
+ * Circuit breaker for a single backend. Call `acquire()` before each request and report its outcome
+ * with `recordSuccess()`, `recordFailure()`, or `release()` when the outcome says nothing about the backend,
+ * passing back the permit `acquire()` returned. While half-open, only outcomes of the current probes
+ * move the circuit; requests admitted before it opened are ignored.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private readonly outcomes: boolean[] = [];
+  private openedAt = 0;
+  private probesInFlight = 0;
+  private probeSuccesses = 0;
+  private halfOpenPeriod = 0;
+  private readonly options: Required<Omit<CircuitBreakerOptions, "failureRateThreshold" | "onStateChange">> &
+    Pick<CircuitBreakerOptions, "failureRateThreshold" | "onStateChange">;
+
+  constructor(public readonly name: string = "default", options: CircuitBreakerOptions = {}) {
+    this.options = {
+      failureThreshold: options.failureThreshold ?? 5,
+      failureRateThreshold: options.failureRateThreshold,
+      windowSize: options.windowSize ?? 20,
+      minimumRequests: options.minimumRequests ?? 10,
+      openDurationMs: options.openDurationMs ?? 30_000,
+      halfOpenProbes: options.halfOpenProbes ?? 1,
+      onStateChange: options.onStateChange,
+      now: options.now ?? Date.now,
+    };
+  }
+
+  /** Returns the current state, moving an expired open circuit to half-open. */
+  getState(): CircuitState {
+    if (this.state === "open" && this.options.now() >= this.openedAt + this.options.openDurationMs) {
+      this.transition("half_open");
+    }
+    return this.state;
+  }
+
+  /** Returns the current state and counters. */
+  getStats(): CircuitBreakerStats {
+    const state = this.getState();
+    return {
+      name: this.name,
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureRate: this.failureRate(),
+      nextAttemptAt: state === "open" ? this.openedAt + this.options.openDurationMs : null,
+    };
+  }
+
+  /**
+   * Reserves permission to send a request.
+   * @throws WasenderCircuitOpenError while the circuit is open, or half-open with all probes in flight.
+   */
+  acquire(): CircuitPermit {
+    const state = this.getState();
+    if (state === "closed") return { probe: null };
+    if (state === "half_open" && this.probesInFlight < this.options.halfOpenProbes) {
+      this.probesInFlight++;
+      return { probe: this.halfOpenPeriod };
+    }
+    const retryAt = state === "open" ? this.openedAt + this.options.openDurationMs : this.options.now();
+    throw new WasenderCircuitOpenError(this.name, retryAt);
+  }
+
+  /** Records a request that reached a healthy backend. */
+  recordSuccess(permit?: CircuitPermit): void {
+    if (this.state === "half_open" && !this.isProbe(permit)) return;
+    this.consecutiveFailures = 0;
+    this.pushOutcome(true);
+    if (this.state === "half_open") {
+      this.releaseProbe();
+      if (++this.probeSuccesses >= this.options.halfOpenProbes) {
+        this.transition("closed");
+      }
+    }
+  }
+
+  /** Records a request that failed because of the backend (network error, timeout, 5xx). */
+  recordFailure(permit?: CircuitPermit): void {
+    if (this.state === "half_open" && !this.isProbe(permit)) return;
+    this.consecutiveFailures++;
+    this.pushOutcome(false);
+    if (this.state === "half_open") {
+      this.releaseProbe();
+      this.open();
+      return;
+    }
+    if (this.state === "closed" && this.shouldOpen()) {
+      this.open();
+    }
+  }
+
+  /** Frees a reservation without recording an outcome, e.g. when the caller aborted the request. */
+  release(permit?: CircuitPermit): void {
+    if (this.state === "half_open" && this.isProbe(permit)) this.releaseProbe();
+  }
+
+  /** Closes the circuit and clears all counters. */
+  reset(): void {
+    this.consecutiveFailures = 0;
+    this.outcomes.length = 0;
+    this.probesInFlight = 0;
+    if (this.state !== "closed") this.transition("closed");
+  }
+
+  private shouldOpen(): boolean {
+    if (this.consecutiveFailures >= this.options.failureThreshold) return true;
+    const threshold = this.options.failureRateThreshold;
+    return threshold !== undefined
+      && this.outcomes.length >= this.options.minimumRequests
+      && this.failureRate() >= threshold;
+  }
+
+  private failureRate(): number {
+    if (this.outcomes.length === 0) return 0;
+    return this.outcomes.filter(success => !success).length / this.outcomes.length;
+  }
+
+  private pushOutcome(success: boolean): void {
+    this.outcomes.push(success);
+    if (this.outcomes.length > this.options.windowSize) this.outcomes.shift();
+  }
+
+  private isProbe(permit: CircuitPermit | undefined): boolean {
+    return permit?.probe === this.halfOpenPeriod;
+  }
+
+  private releaseProbe(): void {
+    this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+  }
+
+  private open(): void {
+    this.openedAt = this.options.now();
+    this.transition("open");
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    if (from === to) return;
+    this.state = to;
+    this.probesInFlight = 0;
+    this.probeSuccesses = 0;
+    if (to === "half_open") this.halfOpenPeriod++;
+    if (to === "closed") {
+      this.consecutiveFailures = 0;
+      this.outcomes.length = 0;
+    }
+    this.options.onStateChange?.({
+      name: this.name,
+      from,
+      to,
+      consecutiveFailures: this.consecutiveFailures,
+      failureRate: this.failureRate(),
+      timestamp: this.options.now(),
+    });
+  }
+}
+
+/**
+ * Hands out one `CircuitBreaker` per base URL and credential, all sharing the same options.
+ * Share a registry between clients so that they trip together.
+ */
+export class CircuitBreakerRegistry {
+  private readonly breakers = new Map<string, CircuitBreaker>();
+
+  constructor(private readonly options: CircuitBreakerOptions = {}) {}
+
+  /**
+   * Returns the breaker for a base URL and credential, creating it on first use.
+   * The credential is only stored as a short fingerprint.
+   */
+  get(baseUrl: string, credential: string): CircuitBreaker {
+    const name = `${baseUrl}#${fingerprintCredential(credential)}`;
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(name, this.options);
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  /** Returns the stats of every breaker created so far. */
+  getStats(): CircuitBreakerStats[] {
+    return [...this.breakers.values()].map(breaker => breaker.getStats());
+  }
+}
+
+/** FNV-1a hash of a credential, so circuit names can be logged without leaking the credential. */
+function fingerprintCredential(credential: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < credential.length; i++) {
+    hash ^= credential.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
@@ -29,9 +29,34 @@ interface WasenderSuccessResponse {
 export type WasenderAPIRawResponse = WasenderSuccessResponse | WasenderErrorResponse;
 
 
-// ---------- Custom Error Class ----------
+// ---------- Custom Error Classes ----------
+
+/** Machine-readable identifier carried by every SDK error in its `code` property. */
+export type WasenderErrorCode =
+  | "api_error"
+  | "auth_error"
+  | "validation_error"
+  | "rate_limited"
+  | "network_error"
+  | "timeout"
+  | "aborted"
+  | "webhook_signature_invalid"
+  | "response_parse_error"
+  | "config_error"
+  | "duplicate_message"
+  | "circuit_open";
+
+/** Extra settings accepted by the `WasenderAPIError` constructor, used by its subclasses. */
+export interface WasenderErrorOptions {
+  /** Machine-readable error code. Defaults to "api_error". */
+  code?: WasenderErrorCode;
+  /** Whether repeating the request may succeed. Defaults to true for 429 and 5xx statuses. */
+  isRetryable?: boolean;
+}
+
 /**
  * Custom error class for errors originating from the Wasender API or the SDK itself (e.g., network issues).
+ * Specific failures are reported through the subclasses below; all of them are `instanceof WasenderAPIError`.
  */
 export class WasenderAPIError extends Error {
   /** HTTP status code from the API response, if available. Undefined for network errors or other non-HTTP issues. */
@@ -45,13 +70,18 @@ export class WasenderAPIError extends Error {
   public readonly apiMessage: string;
   /** Rate limit information parsed from response headers, if available at the time of error. */
   public readonly rateLimit?: RateLimitInfo;
+  /** Machine-readable error code, stable across SDK versions. */
+  public readonly code: WasenderErrorCode;
+  /** Whether repeating the same request may succeed. */
+  public readonly isRetryable: boolean;
 
   constructor(
     apiMessage: string, 
     statusCode?: number,
     errorDetails?: WasenderErrorDetail,
     retryAfter?: number, 
-    rateLimit?: RateLimitInfo
+    rateLimit?: RateLimitInfo,
+    options: WasenderErrorOptions = {}
   ) {
     super(`Wasender API Error (Status ${statusCode || 'N/A'}): ${apiMessage}`);
     this.name = "WasenderAPIError";
@@ -60,6 +90,189 @@ export class WasenderAPIError extends Error {
     this.errorDetails = errorDetails;
     this.retryAfter = retryAfter;
     this.rateLimit = rateLimit;
+    this.code = options.code ?? "api_error";
+    this.isRetryable = options.isRetryable ?? (statusCode !== undefined && (statusCode === 429 || statusCode >= 500));
     Object.setPrototypeOf(this, WasenderAPIError.prototype);
   }
 }
+
+/**
+ * Thrown when the API rejects the credentials (401/403), or when the token an operation needs
+ * was rejected by the server.
+ */
+export class WasenderAuthError extends WasenderAPIError {
+  constructor(message: string, statusCode = 401, rateLimit?: RateLimitInfo) {
+    super(message, statusCode, undefined, undefined, rateLimit, { code: "auth_error", isRetryable: false });
+    this.name = "WasenderAuthError";
+    Object.setPrototypeOf(this, WasenderAuthError.prototype);
+  }
+}
+
+/**
+ * Thrown when a request is invalid: rejected by the API (400/422) or refused by the SDK before sending.
+ */
+export class WasenderValidationError extends WasenderAPIError {
+  /** Field-specific messages keyed by field name. Empty when the error is not tied to fields. */
+  public declare readonly errorDetails: WasenderErrorDetail;
+
+  constructor(message: string, errorDetails: WasenderErrorDetail = {}, statusCode = 422, rateLimit?: RateLimitInfo) {
+    super(message, statusCode, errorDetails, undefined, rateLimit, { code: "validation_error", isRetryable: false });
+    this.name = "WasenderValidationError";
+    Object.setPrototypeOf(this, WasenderValidationError.prototype);
+  }
+
+  /** Returns the messages reported for `field`, or an empty array. */
+  fieldErrors(field: string): string[] {
+    return this.errorDetails[field] ?? [];
+  }
+}
+
+/**
+ * Thrown when a request is rate limited, either by the API (429) or by the client-side rate limiter.
+ */
+export class WasenderRateLimitError extends WasenderAPIError {
+  constructor(message: string, retryAfter?: number, rateLimit?: RateLimitInfo) {
+    super(message, 429, undefined, retryAfter, rateLimit, { code: "rate_limited", isRetryable: true });
+    this.name = "WasenderRateLimitError";
+    Object.setPrototypeOf(this, WasenderRateLimitError.prototype);
+  }
+}
+
+/**
+ * Thrown when no HTTP response was received (DNS failure, connection reset, ...).
+ */
+export class WasenderNetworkError extends WasenderAPIError {
+  /** The underlying error raised by the fetch implementation, if any. */
+  public readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown, options: WasenderErrorOptions = {}) {
+    super(message, undefined, undefined, undefined, undefined, { code: "network_error", isRetryable: true, ...options });
+    this.name = "WasenderNetworkError";
+    this.cause = cause;
+    Object.setPrototypeOf(this, WasenderNetworkError.prototype);
+  }
+}
+
+/**
+ * Thrown when a request attempt does not receive a response within the configured timeout.
+ * Timeouts are treated like network errors by the retry logic.
+ */
+export class WasenderTimeoutError extends WasenderNetworkError {
+  /** The timeout, in milliseconds, that was exceeded. */
+  public readonly timeoutMs: number;
+
+  constructor(timeoutMs: number, method?: string, path?: string) {
+    super(`Request${method && path ? ` ${method} ${path}` : ""} timed out after ${timeoutMs}ms.`, undefined, { code: "timeout" });
+    this.name = "WasenderTimeoutError";
+    this.timeoutMs = timeoutMs;
+    Object.setPrototypeOf(this, WasenderTimeoutError.prototype);
+  }
+}
+
+/**
+ * Thrown when a request is cancelled through its `AbortSignal`.
+ */
+export class WasenderAbortError extends WasenderAPIError {
+  constructor(message = "Request was aborted by the caller.") {
+    super(message, undefined, undefined, undefined, undefined, { code: "aborted", isRetryable: false });
+    this.name = "WasenderAbortError";
+    Object.setPrototypeOf(this, WasenderAbortError.prototype);
+  }
+}
+
+/**
+ * Thrown when an incoming webhook request fails signature verification.
+ */
+export class WasenderWebhookSignatureError extends WasenderAPIError {
+  constructor(message = "Invalid webhook signature.") {
+    super(message, 401, undefined, undefined, undefined, { code: "webhook_signature_invalid", isRetryable: false });
+    this.name = "WasenderWebhookSignatureError";
+    Object.setPrototypeOf(this, WasenderWebhookSignatureError.prototype);
+  }
+}
+
+/**
+ * Thrown when an API response cannot be read as JSON or does not have the expected shape.
+ */
+export class WasenderResponseParseError extends WasenderAPIError {
+  /** The raw response text, when it could be read. */
+  public readonly responseText?: string;
+
+  constructor(message: string, statusCode?: number, rateLimit?: RateLimitInfo, responseText?: string) {
+    super(message, statusCode, undefined, undefined, rateLimit, { code: "response_parse_error" });
+    this.name = "WasenderResponseParseError";
+    this.responseText = responseText;
+    Object.setPrototypeOf(this, WasenderResponseParseError.prototype);
+  }
+}
+
+/**
+ * Thrown when the SDK is misconfigured, e.g. a credential or webhook secret required by an operation is missing.
+ */
+export class WasenderConfigError extends WasenderAPIError {
+  constructor(message: string, statusCode?: number) {
+    super(message, statusCode, undefined, undefined, undefined, { code: "config_error", isRetryable: false });
+    this.name = "WasenderConfigError";
+    Object.setPrototypeOf(this, WasenderConfigError.prototype);
+  }
+}
+
+/**
+ * Thrown by `send()` when an identical payload was sent to the same recipient within
+ * the client's dedupe window. Pass `force: true` to send anyway.
+ */
+export class WasenderDuplicateMessageError extends WasenderAPIError {
+  /** Recipient of the refused message. */
+  public readonly to: string;
+
+  constructor(to: string) {
+    super(
+      `An identical message to ${to} was already sent within the dedupe window. Pass { force: true } to send it again.`,
+      409, undefined, undefined, undefined, { code: "duplicate_message", isRetryable: false }
+    );
+    this.name = "WasenderDuplicateMessageError";
+    this.to = to;
+    Object.setPrototypeOf(this, WasenderDuplicateMessageError.prototype);
+  }
+}
+
+/**
+ * Thrown without contacting the API while the circuit breaker for the backend is open.
+ */
+export class WasenderCircuitOpenError extends WasenderAPIError {
+  /** Name of the open circuit. */
+  public readonly circuit: string;
+  /** When the circuit starts allowing probe requests again, in milliseconds since the epoch. */
+  public readonly retryAt: number;
+
+  constructor(circuit: string, retryAt: number) {
+    super(`Circuit ${circuit} is open; request not sent.`, undefined, undefined, undefined, undefined, { code: "circuit_open", isRetryable: true });
+    this.name = "WasenderCircuitOpenError";
+    this.circuit = circuit;
+    this.retryAt = retryAt;
+    Object.setPrototypeOf(this, WasenderCircuitOpenError.prototype);
+  }
+}
+
+/**
+ * Builds the error for an unsuccessful API response, choosing the subclass from the HTTP status.
+ */
+export function createErrorFromResponse(
+  statusCode: number,
+  body: Partial<WasenderErrorResponse> | undefined,
+  rateLimit?: RateLimitInfo
+): WasenderAPIError {
+  const message = body?.message || "API request failed with an unspecified error.";
+  switch (statusCode) {
+    case 401:
+    case 403:
+      return new WasenderAuthError(message, statusCode, rateLimit);
+    case 400:
+    case 422:
+      return new WasenderValidationError(message, body?.errors, statusCode, rateLimit);
+    case 429:
+      return new WasenderRateLimitError(message, body?.retry_after, rateLimit);
+    default:
+      return new WasenderAPIError(message, statusCode, body?.errors, body?.retry_after, rateLimit);
+  }
+}
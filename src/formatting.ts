@@ -0,0 +1,306 @@
+/*
+ * Wasender TypeScript SDK - Text Formatting
+ * Composes WhatsApp-formatted text (bold, italic, strikethrough, monospace, lists, quotes and @mentions)
+ * from user content, converts simple Markdown and HTML, and strips formatting for plain-text output.
+ */
+
+import { WasenderValidationError } from "./errors.ts";
+import { Jid, UserJid } from "./jid.ts";
+
+// ---------- Formatted Text ----------
+
+/**
+ * Text that is already formatted for WhatsApp, with the JIDs of the users it @mentions.
+ * Strings combined with formatted text are escaped; formatted text is inserted as is.
+ */
+export class FormattedText {
+  /** The formatted text, ready for a message's `text`. */
+  public readonly text: string;
+  /** JIDs of the users mentioned in the text, in order of first mention. */
+  public readonly mentions: readonly UserJid[];
+
+  constructor(text: string, mentions: readonly UserJid[] = []) {
+    this.text = text;
+    this.mentions = [...new Set(mentions)];
+  }
+
+  toString(): string {
+    return this.text;
+  }
+}
+
+/** Content accepted by the formatting helpers. Strings and numbers are escaped; `FormattedText` is kept. */
+export type TextPart = FormattedText | string | number;
+
+/** Inserted after formatting characters in user content so WhatsApp does not treat them as markers. */
+const ESCAPE = "\u200B";
+const MARKERS = /[*_~`]/g;
+
+/**
+ * Escapes user content so that WhatsApp displays it literally: formatting characters are followed by
+ * an invisible zero-width space, and a '>' that would start a quote is preceded by one.
+ */
+export function escapeFormatting(text: string): string {
+  return String(text).replace(MARKERS, `$&${ESCAPE}`).replace(/^>/gm, `${ESCAPE}>`);
+}
+
+function toFormatted(part: TextPart): FormattedText {
+  return part instanceof FormattedText ? part : new FormattedText(escapeFormatting(String(part)));
+}
+
+function concat(parts: TextPart[], separator = ""): FormattedText {
+  const formatted = parts.map(toFormatted);
+  return new FormattedText(formatted.map(part => part.text).join(separator), formatted.flatMap(part => part.mentions));
+}
+
+/**
+ * Tagged template that escapes interpolated strings and keeps interpolated `FormattedText`.
+ * @example wa`Hi ${bold(name)}, your order ${monospace(orderId)} has shipped.`
+ */
+export function wa(strings: TemplateStringsArray, ...values: TextPart[]): FormattedText {
+  const parts: TextPart[] = [];
+  strings.forEach((literal, index) => {
+    parts.push(new FormattedText(literal));
+    if (index < values.length) parts.push(values[index]);
+  });
+  return concat(parts);
+}
+
+/** Joins parts, escaping strings, e.g. `joinText([bold("Total:"), " ", amount])`. */
+export function joinText(parts: TextPart[], separator = ""): FormattedText {
+  return concat(parts, separator);
+}
+
+// ---------- Styles ----------
+
+/**
+ * Wraps every non-blank line in `marker`, keeping surrounding whitespace outside the markers,
+ * since WhatsApp ignores markers next to whitespace or across line breaks.
+ */
+function wrap(marker: string, parts: TextPart[]): FormattedText {
+  const content = concat(parts);
+  const text = content.text
+    .split("\n")
+    .map(line => line.replace(/^(\s*)(.*?)(\s*)$/s, (match, lead: string, body: string, trail: string) =>
+      body ? `${lead}${marker}${body}${marker}${trail}` : match
+    ))
+    .join("\n");
+  return new FormattedText(text, content.mentions);
+}
+
+/** *bold* */
+export function bold(...parts: TextPart[]): FormattedText {
+  return wrap("*", parts);
+}
+
+/** _italic_ */
+export function italic(...parts: TextPart[]): FormattedText {
+  return wrap("_", parts);
+}
+
+/** ~strikethrough~ */
+export function strikethrough(...parts: TextPart[]): FormattedText {
+  return wrap("~", parts);
+}
+
+/** `inline code` */
+export function inlineCode(code: string | number): FormattedText {
+  return new FormattedText(`\`${String(code).replace(/`/g, `'`)}\``);
+}
+
+/**
+ * ```monospace```. The content is shown literally, so it is not escaped; only a nested
+ * '```' is broken up so it cannot end the block early.
+ */
+export function monospace(code: string | number): FormattedText {
+  const text = String(code);
+  return new FormattedText(fence(text, text.includes("\n")));
+}
+
+function fence(code: string, block: boolean): string {
+  const text = code.replace(/```/g, `\`\`${ESCAPE}\``);
+  return block ? `\`\`\`\n${text}\n\`\`\`` : `\`\`\`${text}\`\`\``;
+}
+
+/** Alias of `monospace()` for multi-line code. */
+export const codeBlock = monospace;
+
+/** Prefixes every line with '> '. */
+export function quote(...parts: TextPart[]): FormattedText {
+  const content = concat(parts);
+  return new FormattedText(quoteLines(content.text), content.mentions);
+}
+
+/** One item per line, each starting with '- '. */
+export function bulletList(items: TextPart[]): FormattedText {
+  return list(items, () => "- ");
+}
+
+/** One item per line, numbered from `start`. */
+export function numberedList(items: TextPart[], start = 1): FormattedText {
+  return list(items, index => `${start + index}. `);
+}
+
+function list(items: TextPart[], prefix: (index: number) => string): FormattedText {
+  const formatted = items.map(toFormatted);
+  return new FormattedText(
+    // Continuation lines are indented to line up with the item text.
+    formatted.map((item, index) => {
+      const marker = prefix(index);
+      return marker + item.text.split("\n").join(`\n${" ".repeat(marker.length)}`);
+    }).join("\n"),
+    formatted.flatMap(item => item.mentions)
+  );
+}
+
+/**
+ * An @mention of a user. WhatsApp only highlights the mention when the message also lists the
+ * user's JID in its mentions, which `FormattedText.mentions` collects.
+ * @param user A user JID or phone number.
+ * @throws WasenderValidationError if `user` is not a user JID or valid phone number.
+ */
+export function mention(user: UserJid | string): FormattedText {
+  const parsed = Jid.parse(user);
+  if (parsed.type !== "user") {
+    const message = `Only users can be mentioned, got a ${parsed.type} JID "${user}".`;
+    throw new WasenderValidationError(message, { mentions: [message] }, 400);
+  }
+  return new FormattedText(`@${parsed.user}`, [parsed.jid as UserJid]);
+}
+
+// ---------- Conversion ----------
+
+/** Private-use characters standing in for converted markers until escaping is done. */
+const BOLD = "\uE000";
+const ITALIC = "\uE001";
+const STRIKE = "\uE002";
+const CODE = "\uE003";
+const QUOTE = "\uE004";
+const KEPT = new RegExp(`${CODE}(\\d+)${CODE}`, "g");
+
+function restoreMarkers(text: string, code: string[]): string {
+  return text
+    .replace(KEPT, (_, index: string) => code[Number(index)])
+    .replace(/\uE000/g, "*")
+    .replace(/\uE001/g, "_")
+    .replace(/\uE002/g, "~");
+}
+
+/**
+ * Converts simple Markdown to WhatsApp formatting: `**bold**`, `*italic*`/`_italic_`, `~~strike~~`,
+ * inline and fenced code, headings (as bold lines), links (as 'text (url)'), lists and quotes.
+ * Other Markdown is kept as text, with stray formatting characters escaped.
+ */
+export function markdownToWhatsApp(markdown: string): string {
+  const code: string[] = [];
+  const keep = (text: string) => `${CODE}${code.push(text) - 1}${CODE}`;
+
+  let text = String(markdown)
+    .replace(/\r\n?/g, "\n")
+    .replace(/^```[^\n]*\n([\s\S]*?)\n?```$/gm, (_, body: string) => keep(fence(body, true)))
+    .replace(/`([^`\n]+)`/g, (_, body: string) => keep(inlineCode(body).text))
+    .replace(/\\([\\`*_~[\]()#>+\-.!])/g, (_, char: string) => keep(escapeFormatting(char)));
+
+  text = text
+    .replace(/^ {0,3}#{1,6}[ \t]+(.+?)[ \t]*#*[ \t]*$/gm, `${BOLD}$1${BOLD}`)
+    .replace(/!?\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, (_, label: string, url: string) => (label === url ? url : `${label} (${url})`))
+    .replace(/^(\s*)[*+]\s+/gm, "$1- ")
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, `${BOLD}$2${BOLD}`)
+    .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, `${STRIKE}$1${STRIKE}`)
+    .replace(/(^|[^\w*])\*(?=\S)([^*\n]+?)(?<=\S)\*(?![\w*])/g, `$1${ITALIC}$2${ITALIC}`)
+    .replace(/(^|[^\w_])_(?=\S)([^_\n]+?)(?<=\S)_(?![\w_])/g, `$1${ITALIC}$2${ITALIC}`);
+
+  return restoreMarkers(escapeStrayMarkers(text), code);
+}
+
+/** Escapes formatting characters left over after conversion. URLs are kept intact so they still open. */
+function escapeStrayMarkers(text: string): string {
+  return text.replace(/(https?:\/\/[^\s<>()]+)|[*_~`]/g, (match, url?: string) => url ?? `${match}${ESCAPE}`);
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const codePoint = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : Number(entity.slice(1));
+      return Number.isFinite(codePoint) && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function quoteLines(text: string): string {
+  return text.split("\n").map(line => `> ${line}`).join("\n");
+}
+
+/**
+ * Converts simple HTML to WhatsApp formatting: `<b>`/`<strong>`, `<i>`/`<em>`, `<s>`/`<del>`,
+ * `<code>`, `<pre>`, headings, links, lists, quotes, paragraphs and line breaks.
+ * Other tags are dropped, and text is unescaped and then escaped for WhatsApp.
+ */
+export function htmlToWhatsApp(html: string): string {
+  const code: string[] = [];
+  const keep = (text: string) => `${CODE}${code.push(text) - 1}${CODE}`;
+  const textOf = (fragment: string) => decodeEntities(fragment.replace(/<[^>]*>/g, ""));
+
+  let text = String(html)
+    .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_, body: string) => `\n${keep(fence(textOf(body).replace(/^\n|\n$/g, ""), true))}\n`)
+    .replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, (_, body: string) => keep(inlineCode(textOf(body)).text))
+    .replace(/\s*\n\s*/g, " ");
+
+  let counter = 0;
+  text = text
+    .replace(/<a\b[^>]*href=(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a>/gi, (_, __, url: string, label: string) => {
+      const content = textOf(label).trim();
+      return !content || content === url ? url : `${label} (${url})`;
+    })
+    .replace(/<h[1-6]\b[^>]*>([\s\S]*?)<\/h[1-6]>/gi, `\n\n${BOLD}$1${BOLD}\n\n`)
+    .replace(/<(b|strong)\b[^>]*>([\s\S]*?)<\/\1>/gi, `${BOLD}$2${BOLD}`)
+    .replace(/<(i|em)\b[^>]*>([\s\S]*?)<\/\1>/gi, `${ITALIC}$2${ITALIC}`)
+    .replace(/<(s|strike|del)\b[^>]*>([\s\S]*?)<\/\1>/gi, `${STRIKE}$2${STRIKE}`)
+    .replace(/<ol\b[^>]*>([\s\S]*?)<\/ol>/gi, (_, items: string) => {
+      counter = 0;
+      return `\n${items.replace(/<li\b[^>]*>/gi, () => `\n${++counter}. `)}\n`;
+    })
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<blockquote\b[^>]*>([\s\S]*?)<\/blockquote>/gi, `\n\n${QUOTE}$1${QUOTE}\n\n`)
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|ul|ol)>/gi, "\n\n");
+
+  text = decodeEntities(text.replace(/<[^>]*>/g, ""));
+  text = text
+    .split("\n")
+    .map(line => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(/^>/gm, `${ESCAPE}>`)
+    .replace(new RegExp(`${QUOTE}\\s*([\\s\\S]*?)\\s*${QUOTE}`, "g"), (_, body: string) => quoteLines(body))
+    .trim();
+
+  // Markers were converted to placeholders, so anything left is literal text.
+  return restoreMarkers(escapeStrayMarkers(text), code);
+}
+
+/**
+ * Removes WhatsApp formatting, leaving plain text for logs and previews: markers around bold,
+ * italic, strikethrough and code are dropped, quotes lose their '> ' and escapes are removed.
+ * List markers and @mentions are kept.
+ */
+export function stripFormatting(text: TextPart): string {
+  let plain = text instanceof FormattedText ? text.text : String(text);
+  const code: string[] = [];
+  plain = plain
+    .replace(/```\n?([\s\S]*?)\n?```/g, (_, body: string) => `${CODE}${code.push(body) - 1}${CODE}`)
+    .replace(/`([^`\n]+)`/g, (_, body: string) => `${CODE}${code.push(body) - 1}${CODE}`)
+    .replace(/^> ?/gm, "");
+
+  const pair = /(^|[\s\p{P}\p{S}])([*_~])(?![\s\u200B])([^\n]*?[^\s\u200B])\2(?=$|[\s\p{P}\p{S}])/gmu;
+  for (let previous = ""; previous !== plain; ) {
+    previous = plain;
+    plain = plain.replace(pair, "$1$3");
+  }
+
+  return plain.replace(KEPT, (_, index: string) => code[Number(index)]).replace(/\u200B/g, "");
+}
@@ -0,0 +1,86 @@
+/*
+ * Wasender TypeScript SDK - Idempotency Utilities
+ * Generates idempotency keys for message sends and tracks recently sent payloads
+ * for the optional client-side dedupe window.
+ */
+
+/** HTTP header carrying the idempotency key of a send request. */
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+/**
+ * Generates a random idempotency key (a UUID v4 when `crypto.randomUUID` is available).
+ */
+export function generateIdempotencyKey(): string {
+  const cryptoImpl = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto;
+  if (cryptoImpl?.randomUUID) {
+    return cryptoImpl.randomUUID();
+  }
+  // Fallback for runtimes without Web Crypto: 128 random bits, hex encoded.
+  let key = "";
+  for (let i = 0; i < 32; i++) {
+    key += Math.floor(Math.random() * 16).toString(16);
+  }
+  return key;
+}
+
+/**
+ * Produces a stable string for a payload: object keys are sorted so that
+ * `{ to, text }` and `{ text, to }` fingerprint identically.
+ */
+export function fingerprintPayload(payload: unknown): string {
+  return JSON.stringify(payload, (_key, value) => {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      return Object.keys(value)
+        .sort()
+        .reduce<Record<string, unknown>>((sorted, k) => {
+          sorted[k] = (value as Record<string, unknown>)[k];
+          return sorted;
+        }, {});
+    }
+    return value;
+  });
+}
+
+/**
+ * Remembers payloads sent within a sliding time window so identical sends can be refused.
+ * Entries are keyed by recipient and payload fingerprint.
+ */
+export class SendDeduplicator {
+  private readonly entries = new Map<string, number>();
+
+  /**
+   * @param windowMs How long, in milliseconds, a sent payload blocks an identical one.
+   * @param now Clock used for expiry. Injectable for testing.
+   */
+  constructor(
+    private readonly windowMs: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /** Returns true if an identical payload to `to` was recorded within the window. */
+  isDuplicate(to: string, payload: unknown): boolean {
+    this.prune();
+    return this.entries.has(this.key(to, payload));
+  }
+
+  /** Records a payload as sent, starting its dedupe window. */
+  record(to: string, payload: unknown): void {
+    this.entries.set(this.key(to, payload), this.now() + this.windowMs);
+  }
+
+  /** Forgets a payload, e.g. because the server definitively rejected it. */
+  forget(to: string, payload: unknown): void {
+    this.entries.delete(this.key(to, payload));
+  }
+
+  private key(to: string, payload: unknown): string {
+    return `${to}\u0000${fingerprintPayload(payload)}`;
+  }
+
+  private prune(): void {
+    const now = this.now();
+    for (const [key, expiresAt] of this.entries) {
+      if (expiresAt <= now) this.entries.delete(key);
+    }
+  }
+}
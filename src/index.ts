@@ -1,4 +1,23 @@
 export * from "./main.ts";
 export * from "./messages.ts";
 export * from "./errors.ts";
-export * from "./webhook.ts";
\ No newline at end of file
+export * from "./webhook.ts";
+export * from "./idempotency.ts";
+export * from "./ratelimit.ts";
+export * from "./logger.ts";
+export * from "./middleware.ts";
+export * from "./circuitbreaker.ts";
+export * from "./pool.ts";
+export * from "./media.ts";
+export * from "./builder.ts";
+export * from "./templates.ts";
+export * from "./bulk.ts";
+export * from "./store.ts";
+export * from "./scheduler.ts";
+export * from "./outbox.ts";
+export * from "./phone.ts";
+export * from "./jid.ts";
+export * from "./formatting.ts";
+export * from "./polls.ts";
+export * from "./vcard.ts";
+export * from "./longtext.ts";
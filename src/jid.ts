@@ -0,0 +1,176 @@
+/*
+ * Wasender TypeScript SDK - JIDs
+ * Parses, validates and constructs the WhatsApp addresses (JIDs) of users, groups and channels.
+ */
+
+import { WasenderValidationError } from "./errors.ts";
+import { PhoneNumberOptions, parsePhoneNumber } from "./phone.ts";
+
+// ---------- Types ----------
+
+declare const jidBrand: unique symbol;
+
+/** A user JID, e.g. '447700900123@s.whatsapp.net'. */
+export type UserJid = string & { readonly [jidBrand]: "user" };
+/** A group JID, e.g. '123456789-987654321@g.us'. */
+export type GroupJid = string & { readonly [jidBrand]: "group" };
+/** A WhatsApp Channel JID, e.g. '1234567890@newsletter'. */
+export type NewsletterJid = string & { readonly [jidBrand]: "newsletter" };
+/** Any JID produced by the helpers in `Jid`. Plain strings are accepted wherever a JID is expected. */
+export type Jid = UserJid | GroupJid | NewsletterJid;
+
+export type JidType = "user" | "group" | "newsletter";
+
+/** Server part of each JID type. */
+export const JID_SERVERS = {
+  user: "s.whatsapp.net",
+  group: "g.us",
+  newsletter: "newsletter",
+} as const satisfies Record<JidType, string>;
+
+/** A JID split into its parts. */
+export interface ParsedJid {
+  type: JidType;
+  /** Part before '@': the phone number digits of a user, or the ID of a group or channel. */
+  user: string;
+  server: (typeof JID_SERVERS)[JidType];
+  /** Device number of a user JID with a device suffix, e.g. 12 in '447700900123:12@s.whatsapp.net'. */
+  device?: number;
+  /** The normalized JID, without device suffix. */
+  jid: Jid;
+}
+
+// ---------- Parsing ----------
+
+/** 'c.us' is the legacy server of user JIDs and still appears in some payloads. */
+const SERVER_TYPES: Record<string, JidType> = {
+  "s.whatsapp.net": "user",
+  "c.us": "user",
+  "g.us": "group",
+  newsletter: "newsletter",
+};
+
+const USER_PATTERNS: Record<JidType, RegExp> = {
+  user: /^(\d+)(?::(\d+))?$/,
+  group: /^(\d+(?:-\d+)?)$/,
+  newsletter: /^(\d+)$/,
+};
+
+function invalid(input: string, reason: string): WasenderValidationError {
+  const message = `Invalid JID "${input}": ${reason}`;
+  return new WasenderValidationError(message, { jid: [message] }, 400);
+}
+
+function typeOf(value: string): JidType | undefined {
+  const at = value.lastIndexOf("@");
+  if (at <= 0) return undefined;
+  const type = SERVER_TYPES[value.slice(at + 1).toLowerCase()];
+  return type && USER_PATTERNS[type].test(value.slice(0, at)) ? type : undefined;
+}
+
+/**
+ * Parses a JID. A value without '@' is read as a phone number and becomes a user JID.
+ * @throws WasenderValidationError if the value is neither a user, group or channel JID nor a valid phone number.
+ */
+function parse(value: string, options?: PhoneNumberOptions): ParsedJid {
+  const input = String(value ?? "").trim();
+  if (!input.includes("@")) {
+    const user = parsePhoneNumber(input, options, "jid").e164.slice(1);
+    return { type: "user", user, server: JID_SERVERS.user, jid: `${user}@${JID_SERVERS.user}` as UserJid };
+  }
+
+  const at = input.lastIndexOf("@");
+  const type = SERVER_TYPES[input.slice(at + 1).toLowerCase()];
+  if (!type) {
+    throw invalid(input, `unsupported server "${input.slice(at + 1)}".`);
+  }
+  const match = USER_PATTERNS[type].exec(input.slice(0, at));
+  if (!match) {
+    throw invalid(input, `malformed ${type} ID.`);
+  }
+
+  const server = JID_SERVERS[type];
+  const parsed: ParsedJid = { type, user: match[1], server, jid: `${match[1]}@${server}` as Jid };
+  if (match[2] !== undefined) parsed.device = Number(match[2]);
+  return parsed;
+}
+
+/** Returns whether `value` is a user JID. Phone numbers are not JIDs and return false. */
+function isUser(value: string): value is UserJid {
+  return typeOf(value) === "user";
+}
+
+/** Returns whether `value` is a group JID. */
+function isGroup(value: string): value is GroupJid {
+  return typeOf(value) === "group";
+}
+
+/** Returns whether `value` is a WhatsApp Channel JID. */
+function isNewsletter(value: string): value is NewsletterJid {
+  return typeOf(value) === "newsletter";
+}
+
+// ---------- Construction ----------
+
+/**
+ * Builds the user JID of a phone number, e.g. '+44 7700 900123' → '447700900123@s.whatsapp.net'.
+ * @throws WasenderValidationError if the phone number is invalid. See `parsePhoneNumber()`.
+ */
+function fromPhone(phoneNumber: string, options?: PhoneNumberOptions): UserJid {
+  return `${parsePhoneNumber(phoneNumber, options, "jid").e164.slice(1)}@${JID_SERVERS.user}` as UserJid;
+}
+
+/**
+ * Returns the phone number of a user JID in E.164, e.g. '447700900123:3@s.whatsapp.net' → '+447700900123'.
+ * @throws WasenderValidationError if `jid` is not a user JID.
+ */
+function toPhone(jid: string): string {
+  const parsed = parse(jid);
+  if (parsed.type !== "user") {
+    throw invalid(jid, `a ${parsed.type} JID has no phone number.`);
+  }
+  return `+${parsed.user}`;
+}
+
+/** Builds a group JID from its ID, e.g. '123456789-987654321' → '123456789-987654321@g.us'. JIDs are normalized. */
+function group(id: string): GroupJid {
+  return requireType(id.includes("@") ? id : `${id}@${JID_SERVERS.group}`, "group") as GroupJid;
+}
+
+/** Builds a WhatsApp Channel JID from its ID, e.g. '1234567890' → '1234567890@newsletter'. JIDs are normalized. */
+function newsletter(id: string): NewsletterJid {
+  return requireType(id.includes("@") ? id : `${id}@${JID_SERVERS.newsletter}`, "newsletter") as NewsletterJid;
+}
+
+function requireType(value: string, type: JidType): Jid {
+  const parsed = parse(value);
+  if (parsed.type !== type) {
+    throw invalid(value, `expected a ${type} JID.`);
+  }
+  return parsed.jid;
+}
+
+/**
+ * Normalizes a JID or phone number to its canonical JID: phone numbers become user JIDs,
+ * device suffixes are dropped, the server is lowercased and 'c.us' becomes 's.whatsapp.net'.
+ * @throws WasenderValidationError if the value is invalid. See `Jid.parse()`.
+ */
+function normalize(value: string, options?: PhoneNumberOptions): Jid {
+  return parse(value, options).jid;
+}
+
+/**
+ * Helpers for JIDs, the addresses WhatsApp uses for users ('…@s.whatsapp.net'), groups ('…@g.us')
+ * and channels ('…@newsletter').
+ */
+export const Jid = {
+  parse,
+  isUser,
+  isGroup,
+  isNewsletter,
+  fromPhone,
+  toPhone,
+  group,
+  newsletter,
+  normalize,
+};
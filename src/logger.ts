@@ -0,0 +1,110 @@
+/*
+ * Wasender TypeScript SDK - Logging
+ * Defines the structured logger contract used by the SDK, a no-op default,
+ * a console adapter and automatic redaction of credentials.
+ */
+
+/** Rate limit values attached to log entries. */
+export interface LogRateLimitFields {
+  limit: number | null;
+  remaining: number | null;
+  resetTimestamp: number | null;
+}
+
+/** Structured fields attached to SDK log entries. Additional keys may be present. */
+export interface LogFields {
+  /** HTTP method of the request. */
+  method?: string;
+  /** Request path relative to the base URL. */
+  path?: string;
+  /** 1-based attempt number. */
+  attempt?: number;
+  /** HTTP status code, when a response was received. */
+  status?: number;
+  /** Duration of the attempt in milliseconds. */
+  durationMs?: number;
+  /** Delay before the next retry in milliseconds. */
+  delayMs?: number;
+  /** Rate limit state reported by the server. */
+  rateLimit?: LogRateLimitFields;
+  [key: string]: unknown;
+}
+
+/**
+ * Structured logger accepted by the SDK. Each method receives a human readable
+ * message and an optional object of structured fields.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/** Logger that discards everything. Used when no logger is configured. */
+export const noopLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/**
+ * Adapts a console-like object to the `Logger` interface.
+ * @param target Defaults to the global `console`.
+ */
+export function createConsoleLogger(target: Pick<Console, "debug" | "info" | "warn" | "error"> = console): Logger {
+  const write = (level: keyof Logger) => (message: string, fields?: LogFields) =>
+    fields ? target[level](message, fields) : target[level](message);
+  return { debug: write("debug"), info: write("info"), warn: write("warn"), error: write("error") };
+}
+
+export const REDACTED = "[REDACTED]";
+
+const SENSITIVE_KEY = /^(authorization|api[_-]?key|personal[_-]?access[_-]?token|access[_-]?token|token|secret|webhook[_-]?secret|password|x-webhook-signature)$/i;
+const BEARER_TOKEN = /(Bearer\s+)[^\s"',]+/gi;
+
+/**
+ * Returns a copy of `value` with credentials removed: every occurrence of the given secrets,
+ * bearer tokens, and values stored under sensitive keys (e.g. `Authorization`, `apiKey`).
+ */
+export function redactSecrets<T>(value: T, secrets: ReadonlyArray<string | undefined> = []): T {
+  const known = secrets.filter((secret): secret is string => !!secret && secret.length > 0);
+  const seen = new WeakSet<object>();
+
+  const redactString = (input: string): string => {
+    let output = input.replace(BEARER_TOKEN, `$1${REDACTED}`);
+    for (const secret of known) {
+      output = output.split(secret).join(REDACTED);
+    }
+    return output;
+  };
+
+  const visit = (input: unknown): unknown => {
+    if (typeof input === "string") return redactString(input);
+    if (!input || typeof input !== "object") return input;
+    if (seen.has(input)) return "[Circular]";
+    seen.add(input);
+    if (Array.isArray(input)) return input.map(visit);
+    if (input instanceof Error) {
+      return { name: input.name, message: redactString(input.message) };
+    }
+    const output: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(input)) {
+      output[key] = SENSITIVE_KEY.test(key) && entry !== undefined && entry !== null ? REDACTED : visit(entry);
+    }
+    return output;
+  };
+
+  return visit(value) as T;
+}
+
+/**
+ * Wraps a logger so that messages and fields are passed through `redactSecrets` before being written.
+ * @param secrets Credential values to mask wherever they appear.
+ */
+export function createRedactingLogger(logger: Logger, secrets: ReadonlyArray<string | undefined>): Logger {
+  const wrap = (level: keyof Logger) => (message: string, fields?: LogFields) =>
+    logger[level](redactSecrets(message, secrets), fields === undefined ? undefined : redactSecrets(fields, secrets));
+  return { debug: wrap("debug"), info: wrap("info"), warn: wrap("warn"), error: wrap("error") };
+}
@@ -0,0 +1,177 @@
+/*
+ * Wasender TypeScript SDK - Long Text
+ * Splits text longer than WhatsApp's limit into parts that keep their formatting intact.
+ */
+
+import { WasenderValidationError } from "./errors.ts";
+import { WasenderSendResult } from "./messages.ts";
+
+// ---------- Types ----------
+
+/** WhatsApp accepts at most 4096 characters per text message. */
+export const MAX_TEXT_LENGTH = 4096;
+
+/** Shortest part `splitText()` can produce, after reserving room for counters. */
+const MIN_PART_LENGTH = 16;
+
+/**
+ * Builds the counter appended to a part, e.g. ' (1/3)'. `index` starts at 1.
+ * The returned string is appended as is, so include any separator.
+ */
+export type PartCounter = (index: number, total: number) => string;
+
+export interface SplitTextOptions {
+  /** Maximum length of each part, counters included. Defaults to `MAX_TEXT_LENGTH`. */
+  maxLength?: number;
+  /**
+   * Appends a counter to each part: true for ' (1/3)', or a function building it.
+   * Text that fits in a single part gets no counter. Defaults to false.
+   */
+  counter?: boolean | PartCounter;
+}
+
+/** Options of `Wasender.sendLongText()`. */
+export interface SendLongTextOptions extends SplitTextOptions {
+  /** Pause between parts in milliseconds, so they arrive in order. Defaults to 1000. */
+  delayMs?: number;
+  /** Called after each part is sent. `index` starts at 1. */
+  onPartSent?: (result: WasenderSendResult, index: number, total: number) => void;
+}
+
+const defaultCounter: PartCounter = (index, total) => ` (${index}/${total})`;
+
+// ---------- Formatted spans ----------
+
+/** A stretch of formatted text, including its markers, that should not be split. */
+interface Span {
+  start: number;
+  end: number;
+  marker: string;
+  block: boolean;
+}
+
+const CODE_SPAN = /```[\s\S]*?```|`[^`\n]+`/g;
+const STYLE_SPAN = /(^|[\s\p{P}\p{S}])([*_~])(?![\s\u200B])([^\n]*?[^\s\u200B])\2(?=$|[\s\p{P}\p{S}])/gmu;
+
+function findSpans(text: string): Span[] {
+  const code: Span[] = [];
+  for (const match of text.matchAll(CODE_SPAN)) {
+    const block = match[0].startsWith("```");
+    code.push({ start: match.index!, end: match.index! + match[0].length, marker: block ? "```" : "`", block });
+  }
+  const spans = [...code];
+  for (const match of text.matchAll(STYLE_SPAN)) {
+    const start = match.index! + match[1].length;
+    const end = match.index! + match[0].length;
+    // Markers inside code are literal.
+    if (!code.some(span => start < span.end && end > span.start)) {
+      spans.push({ start, end, marker: match[2], block: false });
+    }
+  }
+  return spans;
+}
+
+function spanAt(spans: Span[], position: number): Span | undefined {
+  return spans.find(span => span.start < position && position < span.end);
+}
+
+// ---------- Splitting ----------
+
+/** Cut positions by preference. Paragraph, line and sentence breaks only count in the second half of a part. */
+const BOUNDARIES: Array<{ pattern: RegExp; after: boolean; anywhere: boolean }> = [
+  { pattern: /\n[ \t]*\n/g, after: false, anywhere: false },
+  { pattern: /\n/g, after: false, anywhere: false },
+  { pattern: /[.!?…]["'”’)\]]*(?=\s)/g, after: true, anywhere: false },
+  { pattern: /\s/g, after: false, anywhere: true },
+];
+
+/**
+ * Returns where to end a part of at most `limit` characters taken from the start of `text`.
+ * Boundaries inside formatted spans are skipped; without a boundary the text is cut hard,
+ * before a span that would be broken if one starts after position 0.
+ */
+function findCut(text: string, limit: number, spans: Span[], minimum = 1): number {
+  const window = text.slice(0, limit + 1);
+  for (const { pattern, after, anywhere } of BOUNDARIES) {
+    let best = -1;
+    for (const match of window.matchAll(pattern)) {
+      const cut = after ? match.index! + match[0].length : match.index!;
+      if (cut >= minimum && cut <= limit && !spanAt(spans, cut)) best = cut;
+    }
+    if (best >= (anywhere ? minimum : Math.max(minimum, limit / 2))) return best;
+  }
+
+  let cut = limit;
+  // Never separate the halves of a surrogate pair.
+  if (/[\uD800-\uDBFF]/.test(text.charAt(cut - 1))) cut--;
+  const span = spanAt(spans, cut);
+  return span && span.start >= minimum ? span.start : cut;
+}
+
+/** Splits `text` into parts of at most `limit` characters. */
+function chunk(text: string, limit: number): string[] {
+  const parts: string[] = [];
+  let rest = text.trim();
+  while (rest.length > limit) {
+    const spans = findSpans(rest);
+    let cut = findCut(rest, limit, spans);
+    const span = spanAt(spans, cut);
+    if (!span) {
+      parts.push(rest.slice(0, cut).trimEnd());
+      rest = rest.slice(cut).trimStart();
+      continue;
+    }
+
+    // The part starts with a span longer than the limit: close its markers and reopen them in the next part.
+    const close = span.block ? `\n${span.marker}` : span.marker;
+    const open = span.block ? `${span.marker}\n` : span.marker;
+    const inner = spans.filter(other => other !== span);
+    cut = findCut(rest, limit - close.length, inner, open.length + 1);
+    if (span.block) {
+      parts.push(rest.slice(0, cut).replace(/\n$/, "") + close);
+      rest = open + rest.slice(cut).replace(/^\n/, "");
+    } else {
+      parts.push(rest.slice(0, cut).trimEnd() + close);
+      rest = open + rest.slice(cut).trimStart();
+    }
+  }
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+/**
+ * Splits text into parts that fit in a WhatsApp message, preferring to cut between paragraphs,
+ * then lines, sentences and words. Bold, italic, strikethrough and code spans are kept whole where
+ * possible; a span longer than a part is closed at the end of one part and reopened in the next.
+ * Whitespace around cuts is dropped.
+ * @returns The parts in order; an empty array for empty text.
+ * @throws WasenderValidationError if `maxLength` leaves no room for text.
+ */
+export function splitText(text: string, options: SplitTextOptions = {}): string[] {
+  const maxLength = options.maxLength ?? MAX_TEXT_LENGTH;
+  const counter = options.counter === true ? defaultCounter : options.counter || undefined;
+  if (!Number.isInteger(maxLength) || maxLength < MIN_PART_LENGTH) {
+    throw invalid("maxLength", `maxLength must be an integer of at least ${MIN_PART_LENGTH}.`);
+  }
+
+  let parts = chunk(String(text ?? ""), maxLength);
+  if (!counter || parts.length < 2) return parts;
+
+  // Counters take room from the text, which may add parts and lengthen the counters in turn.
+  for (let total = parts.length; ; total = parts.length) {
+    let reserved = 0;
+    for (let index = 1; index <= total; index++) {
+      reserved = Math.max(reserved, counter(index, total).length);
+    }
+    if (maxLength - reserved < MIN_PART_LENGTH) {
+      throw invalid("maxLength", `maxLength leaves less than ${MIN_PART_LENGTH} characters of text per part.`);
+    }
+    parts = chunk(String(text ?? ""), maxLength - reserved);
+    if (parts.length <= total) break;
+  }
+  return parts.map((part, index) => part + counter(index + 1, parts.length));
+}
+
+function invalid(field: string, message: string): WasenderValidationError {
+  return new WasenderValidationError(message, { [field]: [message] }, 400);
+}
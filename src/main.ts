@@ -6,22 +6,87 @@
 
 import {
   WasenderMessagePayload, // Discriminated union
-  TextOnlyMessage, ImageUrlMessage, VideoUrlMessage, DocumentUrlMessage, AudioUrlMessage, StickerUrlMessage, ContactCardMessage, LocationPinMessage, // Specific payload types for existing methods
+  TextOnlyMessage, ImageUrlMessage, VideoUrlMessage, DocumentUrlMessage, AudioUrlMessage, StickerUrlMessage, ContactCardMessage, LocationPinMessage, PollMessage, // Specific payload types for existing methods
   WasenderSuccessResponse,
   RateLimitInfo,
-  WasenderSendResult
+  ReplyPayload,
+  WasenderSendResult,
+  ReactionPayload,
+  EditMessagePayload,
+  DeleteMessageOptions,
+  DeleteMessagePayload,
+  MessageActionResponse,
+  MessageActionResult
 } from "./messages.ts";
 
 import {
   WasenderAPIError,
+  WasenderAbortError,
+  WasenderConfigError,
+  WasenderNetworkError,
+  WasenderResponseParseError,
+  WasenderTimeoutError,
+  WasenderValidationError,
+  WasenderWebhookSignatureError,
+  WasenderDuplicateMessageError,
+  createErrorFromResponse,
   WasenderErrorResponse,
   WasenderAPIRawResponse
 } from "./errors.ts";
 
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  generateIdempotencyKey,
+  SendDeduplicator
+} from "./idempotency.ts";
+
+import { RateLimiter, RateLimiterState } from "./ratelimit.ts";
+import {
+  MediaKind,
+  MediaSource,
+  WithMediaSource,
+  UploadMediaResponse,
+  UploadMediaResult,
+  loadMediaSource,
+  toDataUri,
+  mediaUrlField,
+  validateLoadedMedia,
+  validateMediaUrl
+} from "./media.ts";
+import { Jid, GroupJid, UserJid } from "./jid.ts";
+import { PhoneNumberOptions, PhoneNumberFormat, formatPhoneNumber, parsePhoneNumber } from "./phone.ts";
+import { validatePoll } from "./polls.ts";
+import { SendLongTextOptions, splitText } from "./longtext.ts";
+import { toContactCardPayload } from "./vcard.ts";
+import { BulkPayloadFactory, BulkSendJob, BulkSendOptions } from "./bulk.ts";
+import { CircuitBreaker, CircuitBreakerOptions, CircuitBreakerRegistry, CircuitBreakerStats, CircuitPermit } from "./circuitbreaker.ts";
+import { Logger, LogRateLimitFields, noopLogger, createRedactingLogger } from "./logger.ts";
+import {
+  Middleware,
+  MiddlewareContext,
+  composeMiddleware,
+  createHeadersMiddleware,
+  createLoggingMiddleware,
+  createTimingMiddleware
+} from "./middleware.ts";
+
+import {
+  RetryConfig,
+  ResolvedRetryConfig,
+  HttpMethod,
+  resolveRetryConfig,
+  isIdempotentMethod,
+  computeBackoffDelay,
+  parseRetryAfterHeader
+} from "./retry.ts";
+
 import {
     WEBHOOK_SIGNATURE_HEADER,
     verifyWasenderWebhookSignature,
-    WasenderWebhookEvent
+    WasenderWebhookEvent,
+    MessageKey,
+    MessagesUpsertEvent,
+    MessagesUpsertData
 } from "./webhook.ts";
 
 import {
@@ -77,19 +142,138 @@ import {
 
 const SDK_VERSION = "0.1.0";
 
+export type { RetryConfig, JitterStrategy, HttpMethod } from "./retry.ts";
+
 // Type for the fetch function to allow injection
 export type FetchImplementation = (
   input: RequestInfo | URL,
   init?: RequestInit
 ) => Promise<globalThis.Response>;
 
-export interface RetryConfig {
-  /** Maximum number of retries for rate limit errors (HTTP 429). Defaults to 0 (no retries). */
-  maxRetries?: number;
-  /** Whether to enable retries on HTTP 429. Defaults to false. */
-  enabled?: boolean;
+/** Details of an outgoing HTTP attempt, passed to `WasenderHooks.beforeRequest`. */
+export interface WasenderRequestInfo {
+  method: HttpMethod;
+  /** Fully qualified request URL. */
+  url: string;
+  /** Path relative to the base URL (e.g., '/send-message'). */
+  path: string;
+  /** Headers that will be sent. Mutations are applied to the outgoing request. */
+  headers: Record<string, string>;
+  /** Serialized request body, if any. */
+  body?: string;
+  /** 1-based attempt number (greater than 1 on retries). */
+  attempt: number;
+}
+
+/** Details of a received HTTP response, passed to `WasenderHooks.afterResponse`. */
+export interface WasenderResponseInfo {
+  method: HttpMethod;
+  url: string;
+  path: string;
+  /** HTTP status code of the response. */
+  status: number;
+  /** Rate limit information parsed from the response headers. */
+  rateLimit: RateLimitInfo;
+  /** Time spent waiting for the response, in milliseconds. */
+  durationMs: number;
+  attempt: number;
+}
+
+/** Optional callbacks invoked around every HTTP exchange made by the SDK. */
+export interface WasenderHooks {
+  /** Called before each attempt is dispatched. */
+  beforeRequest?: (request: WasenderRequestInfo) => void | Promise<void>;
+  /** Called after each attempt receives an HTTP response (successful or not). */
+  afterResponse?: (response: WasenderResponseInfo) => void | Promise<void>;
+  /** Called once when a request fails for good, just before the error is thrown to the caller. */
+  onError?: (error: WasenderAPIError, request: { method: string; path: string }) => void | Promise<void>;
+}
+
+/**
+ * Options object accepted by the `Wasender` constructor and `createWasender`.
+ * At least one of `apiKey` or `personalAccessToken` must be provided.
+ */
+export interface WasenderOptions {
+  /** Session-specific API key, used for operations within a session (messages, contacts, groups). */
+  apiKey?: string;
+  /** Account-level Personal Access Token, used for session management. */
+  personalAccessToken?: string;
+  /** Base URL of the Wasender API. Defaults to "https://www.wasenderapi.com/api". */
+  baseUrl?: string;
+  /** Custom fetch implementation. Defaults to `globalThis.fetch`. */
+  fetchImplementation?: FetchImplementation;
+  /** Retry behaviour for failed requests. */
+  retryOptions?: RetryConfig;
+  /** Webhook secret used by `handleWebhookEvent()` to verify incoming requests. */
+  webhookSecret?: string;
+  /** Extra headers sent with every request. They cannot override `Authorization`. */
+  defaultHeaders?: Record<string, string>;
+  /** Default per-attempt request timeout in milliseconds. Defaults to no timeout. Can be overridden per call. */
+  timeoutMs?: number;
+  /**
+   * Structured logger for SDK diagnostics. Defaults to a no-op logger; use `createConsoleLogger()` for console output.
+   * Credentials configured on the client are redacted before anything reaches the logger.
+   */
+  logger?: Logger;
+  /** Appended to the SDK `User-Agent` header (e.g., 'my-app/1.2.0'). */
+  userAgentSuffix?: string;
+  /** Callbacks invoked around every HTTP exchange. */
+  hooks?: WasenderHooks;
+  /** Whether `send()` and the `send*` helpers attach an auto-generated idempotency key. Defaults to true. */
+  idempotencyKeys?: boolean;
+  /**
+   * When set, `send()` refuses an identical payload to the same recipient within this many milliseconds
+   * and throws `WasenderDuplicateMessageError`, unless the call passes `force: true`. Defaults to disabled.
+   */
+  dedupeWindowMs?: number;
+  /**
+   * Client-side rate limiter that learns from the X-RateLimit-* headers and queues requests
+   * once the budget is exhausted. Pass `true` for a limiter owned by this client, or a shared
+   * `RateLimiter` instance. Defaults to disabled.
+   */
+  rateLimiter?: boolean | RateLimiter;
+  /**
+   * Circuit breaker per base URL and credential. While a circuit is open, requests fail fast with
+   * `WasenderCircuitOpenError` instead of reaching the API. Pass `true` for defaults, options for a
+   * registry owned by this client, or a shared `CircuitBreakerRegistry`. Defaults to disabled.
+   */
+  circuitBreaker?: boolean | CircuitBreakerOptions | CircuitBreakerRegistry;
+  /**
+   * Validates media before sending: in-memory media by its leading bytes, URL media with HEAD or ranged GET
+   * requests through `fetchImplementation`. Wrong types and oversize files throw `WasenderValidationError`
+   * instead of reaching `/send-message`. Defaults to false.
+   */
+  validateMedia?: boolean;
+  /** Middleware wrapping every HTTP exchange, outermost first. More can be added with `use()`. */
+  middleware?: Middleware[];
+  /**
+   * Normalizes phone numbers before they reach the API: the `to` of `send()` and the `send*` helpers,
+   * contact phone numbers, group participants and session phone numbers. JIDs (containing '@') are left as is.
+   * Pass `{ defaultCountry }` to also accept numbers in that country's national format. Invalid numbers
+   * throw `WasenderValidationError` without a request being made. Defaults to disabled.
+   */
+  normalizePhoneNumbers?: boolean | PhoneNumberOptions;
+}
+
+/** Per-call settings accepted as the last argument of every public API method. */
+export interface WasenderRequestOptions {
+  /** Aborts the request (including pending retries) when signalled. */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in milliseconds. Overrides the client-level `timeoutMs`. */
+  timeoutMs?: number;
+  /**
+   * Idempotency key sent as the `Idempotency-Key` header and reused across retry attempts.
+   * `send()` and the `send*` helpers generate one automatically when omitted.
+   */
+  idempotencyKey?: string;
+  /** Bypasses the client-side dedupe window for this send. */
+  force?: boolean;
 }
 
+const DEFAULT_BASE_URL = "https://www.wasenderapi.com/api";
+
+const MEDIA_KINDS: ReadonlyArray<MediaKind> = ["image", "video", "document", "audio", "sticker"];
+
 /**
  * Interface for abstracting the necessary parts of an incoming HTTP request
  * for webhook processing. Adapt your framework's request object to this.
@@ -101,6 +285,95 @@ export interface WebhookRequestAdapter {
   getRawBody: () => Promise<string> | string;
 }
 
+// ---------- Internal Helpers ----------
+
+/** Strips a `RateLimitInfo` down to plain values suitable for structured logs. */
+function toLogRateLimit(info?: RateLimitInfo): LogRateLimitFields | undefined {
+  return info ? { limit: info.limit, remaining: info.remaining, resetTimestamp: info.resetTimestamp } : undefined;
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new WasenderAbortError();
+  }
+}
+
+/**
+ * Rejects as soon as `signal` aborts, even if the underlying promise does not.
+ * Guards against custom fetch implementations that ignore `RequestInit.signal`.
+ */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new Error("The operation was aborted."));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      value => { signal.removeEventListener("abort", onAbort); resolve(value); },
+      error => { signal.removeEventListener("abort", onAbort); reject(error); }
+    );
+  });
+}
+
+/** Whether `text` contains the @number of a mentioned user, e.g. '@447700900123' for '447700900123:3@s.whatsapp.net'. */
+function mentionedIn(text: string, mention: string): boolean {
+  const number = String(mention).split(/[:@]/)[0].replace(/\D/g, "");
+  return number !== "" && new RegExp(`@${number}(?!\\d)`).test(text);
+}
+
+/** Waits for `ms` milliseconds, rejecting early if `signal` is aborted. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new WasenderAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(handle);
+      reject(new WasenderAbortError());
+    };
+    const handle = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Adapts `WasenderHooks` to the middleware chain: `beforeRequest` runs on the way in,
+ * `afterResponse` once an HTTP response was received.
+ */
+function createHooksMiddleware(hooks: WasenderHooks): Middleware {
+  return async (ctx, next) => {
+    const url = () => `${ctx.baseUrl}${ctx.path}`;
+    if (hooks.beforeRequest) {
+      await hooks.beforeRequest({
+        method: ctx.method, url: url(), path: ctx.path, headers: ctx.headers,
+        body: ctx.method === "POST" || ctx.method === "PUT" ? JSON.stringify(ctx.body ?? {}) : undefined,
+        attempt: ctx.attempt,
+      });
+    }
+    await next();
+    if (hooks.afterResponse && ctx.status !== undefined && ctx.rateLimit) {
+      await hooks.afterResponse({
+        method: ctx.method, url: url(), path: ctx.path,
+        status: ctx.status,
+        rateLimit: ctx.rateLimit,
+        durationMs: ctx.durationMs ?? 0,
+        attempt: ctx.attempt,
+      });
+    }
+  };
+}
+
+function requireMessageKey(key: MessageKey | undefined): void {
+  if (!key?.id || !key.remoteId) {
+    throw new WasenderValidationError("key must be a message key with an id and remoteId.", { key: ["key must be a message key with an id and remoteId."] }, 400);
+  }
+}
+
+/** Emoji, including skin tones, flags, keycaps and ZWJ sequences. */
+const EMOJI_PATTERN = /^(?=.*[\p{Extended_Pictographic}\p{Regional_Indicator}\u20E3])[\p{Extended_Pictographic}\p{Emoji_Component}]+$/u;
+
 // ---------- Core SDK Class ----------
 
 export class Wasender {
@@ -108,33 +381,156 @@ export class Wasender {
   private readonly apiKey: string | undefined;
   private readonly personalAccessToken?: string;
   private readonly fetchImpl: FetchImplementation;
-  private readonly retryConfig: Required<RetryConfig>;
+  private readonly retryConfig: ResolvedRetryConfig;
   private readonly configuredWebhookSecret?: string;
+  private readonly defaultHeaders: Record<string, string>;
+  private readonly timeoutMs?: number;
+  private readonly logger: Logger;
+  private readonly userAgent: string;
+  private readonly hooks: WasenderHooks;
+  private readonly idempotencyKeys: boolean;
+  private readonly deduplicator?: SendDeduplicator;
+  private readonly rateLimiter?: RateLimiter;
+  private readonly circuitBreakers?: CircuitBreakerRegistry;
+  private readonly validateMedia: boolean;
+  private readonly phoneNumberOptions?: PhoneNumberOptions;
+  private readonly middleware: Middleware[];
+  private readonly defaultHeadersMiddleware: Middleware;
+  private readonly builtinMiddleware: Middleware[];
 
+  /**
+   * Creates a new Wasender client from an options object.
+   * @param options Client configuration. See `WasenderOptions`.
+   */
+  constructor(options: WasenderOptions);
+  /**
+   * Creates a new Wasender client from positional arguments.
+   * Kept for backwards compatibility; prefer the `WasenderOptions` form.
+   */
   constructor(
     apiKey: string | undefined,
     personalAccessToken?: string,
-    baseUrl: string = "https://www.wasenderapi.com/api", 
+    baseUrl?: string,
+    fetchImplementation?: FetchImplementation,
+    retryOptions?: RetryConfig,
+    webhookSecret?: string
+  );
+  constructor(
+    apiKeyOrOptions: string | undefined | WasenderOptions,
+    personalAccessToken?: string,
+    baseUrl?: string,
     fetchImplementation?: FetchImplementation,
     retryOptions?: RetryConfig,
     webhookSecret?: string
   ) {
-    if (apiKey === undefined && personalAccessToken === undefined) {
-      throw new Error("Either an API Key (for session operations) or a Personal Access Token (for session management) must be provided to initialize the Wasender SDK.");
-    }
-    this.apiKey = apiKey;
-    this.personalAccessToken = personalAccessToken;
-    this.baseUrl = baseUrl.replace(/\/$/, ""); // Ensure no trailing slash
-    this.fetchImpl = fetchImplementation || globalThis.fetch;
-    this.retryConfig = {
-        enabled: retryOptions?.enabled ?? false,
-        maxRetries: retryOptions?.maxRetries ?? 0,
-    };
-    this.configuredWebhookSecret = webhookSecret;
+    const options: WasenderOptions =
+      typeof apiKeyOrOptions === "object" && apiKeyOrOptions !== null
+        ? apiKeyOrOptions
+        : { apiKey: apiKeyOrOptions, personalAccessToken, baseUrl, fetchImplementation, retryOptions, webhookSecret };
+
+    if (options.apiKey === undefined && options.personalAccessToken === undefined) {
+      throw new WasenderConfigError("Either an API Key (for session operations) or a Personal Access Token (for session management) must be provided to initialize the Wasender SDK.");
+    }
+    this.apiKey = options.apiKey;
+    this.personalAccessToken = options.personalAccessToken;
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, ""); // Ensure no trailing slash
+    this.fetchImpl = options.fetchImplementation || globalThis.fetch;
+    this.retryConfig = resolveRetryConfig(options.retryOptions);
+    this.configuredWebhookSecret = options.webhookSecret;
+    this.defaultHeaders = { ...options.defaultHeaders };
+    this.timeoutMs = options.timeoutMs;
+    this.logger = options.logger
+      ? createRedactingLogger(options.logger, [options.apiKey, options.personalAccessToken, options.webhookSecret])
+      : noopLogger;
+    this.userAgent = `wasender-typescript-sdk/${SDK_VERSION}` + (options.userAgentSuffix ? ` ${options.userAgentSuffix}` : "");
+    this.hooks = options.hooks ?? {};
+    this.idempotencyKeys = options.idempotencyKeys ?? true;
+    this.deduplicator = options.dedupeWindowMs ? new SendDeduplicator(options.dedupeWindowMs) : undefined;
+    this.rateLimiter = options.rateLimiter === true ? new RateLimiter() : options.rateLimiter || undefined;
+    this.circuitBreakers =
+      options.circuitBreaker instanceof CircuitBreakerRegistry ? options.circuitBreaker
+      : options.circuitBreaker === true ? new CircuitBreakerRegistry()
+      : options.circuitBreaker ? new CircuitBreakerRegistry(options.circuitBreaker)
+      : undefined;
+    this.validateMedia = options.validateMedia ?? false;
+    this.phoneNumberOptions = options.normalizePhoneNumbers === true ? {} : options.normalizePhoneNumbers || undefined;
+    this.middleware = [...(options.middleware ?? [])];
+    this.defaultHeadersMiddleware = createHeadersMiddleware(
+      Object.fromEntries(Object.entries(this.defaultHeaders).filter(([name]) => name.toLowerCase() !== "authorization")),
+      { overwrite: true }
+    );
+    this.builtinMiddleware = [
+      createHooksMiddleware(this.hooks),
+      createLoggingMiddleware(this.logger),
+      createTimingMiddleware(),
+    ];
 
     if (!this.fetchImpl) {
-        throw new Error("Fetch implementation is not available. Please provide one (e.g., for Node.js < 18 by polyfilling globalThis.fetch or passing a custom fetch)." );
+        throw new WasenderConfigError("Fetch implementation is not available. Please provide one (e.g., for Node.js < 18 by polyfilling globalThis.fetch or passing a custom fetch)." );
+    }
+    if (this.timeoutMs !== undefined && (!Number.isFinite(this.timeoutMs) || this.timeoutMs <= 0)) {
+        throw new WasenderConfigError("timeoutMs must be a positive number of milliseconds.");
+    }
+  }
+
+  /**
+   * Returns the client-side rate limiter's current budget and queue depth.
+   * @returns The limiter state, or `null` if no rate limiter is configured.
+   */
+  public getRateLimiterState(): RateLimiterState | null {
+    return this.rateLimiter ? this.rateLimiter.getState() : null;
+  }
+
+  /**
+   * Returns the state of every circuit this client's breaker registry has created.
+   * @returns The circuit stats, or `null` if no circuit breaker is configured.
+   */
+  public getCircuitBreakerStats(): CircuitBreakerStats[] | null {
+    return this.circuitBreakers ? this.circuitBreakers.getStats() : null;
+  }
+
+  /**
+   * Adds a middleware to the chain wrapping every HTTP exchange. Middleware added later runs
+   * inside middleware added earlier; all of it runs outside the built-in hooks, logging and timing.
+   * @param middleware Receives the exchange context and a `next` function that continues the chain.
+   * @returns This client, for chaining.
+   */
+  public use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /** Runs one exchange through default headers, user middleware and the built-in middleware. */
+  private pipeline(ctx: MiddlewareContext, terminal: (ctx: MiddlewareContext) => Promise<void>): Promise<void> {
+    return composeMiddleware(
+      [this.defaultHeadersMiddleware, ...this.middleware, ...this.builtinMiddleware],
+      terminal
+    )(ctx);
+  }
+
+  /**
+   * Normalizes a phone number when `normalizePhoneNumbers` is enabled. JIDs and empty values are returned unchanged.
+   * @param format 'e164' for message recipients and sessions, 'digits' for contact paths and group participants.
+   */
+  private normalizePhone(value: string, field: string, format: PhoneNumberFormat): string {
+    if (!this.phoneNumberOptions || !value || value.includes("@")) return value;
+    return formatPhoneNumber(parsePhoneNumber(value, this.phoneNumberOptions, field), format);
+  }
+
+  /** Mentions are sent as user JIDs. Phone numbers are converted, honouring `normalizePhoneNumbers`. */
+  private normalizeMention(mention: string): UserJid {
+    const parsed = Jid.parse(mention, this.phoneNumberOptions);
+    if (parsed.type !== "user") {
+      const message = `Only users can be mentioned, got a ${parsed.type} JID "${mention}".`;
+      throw new WasenderValidationError(message, { mentions: [message] }, 400);
     }
+    return parsed.jid as UserJid;
+  }
+
+  /** Contact endpoints take the phone number part of a user JID. */
+  private contactId(contactPhoneNumber: string): string {
+    if (Jid.isUser(contactPhoneNumber)) return Jid.parse(contactPhoneNumber).user;
+    return this.normalizePhone(contactPhoneNumber, "contactPhoneNumber", "digits");
   }
 
   private parseRateLimitHeaders(headers: Headers): RateLimitInfo {
@@ -152,14 +548,40 @@ export class Wasender {
     };
   }
 
-  // General purpose request helper
+  // General purpose request helper. Invokes the `onError` hook before surfacing failures.
   private async request<TResponse extends WasenderSuccessResponse | GetSessionStatusResponse | RegenerateApiKeyResponse >(
-    method: "GET" | "POST" | "PUT" | "DELETE",
+    method: HttpMethod,
+    path: string,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    body?: Record<string, any> | null,
+    options?: WasenderRequestOptions
+  ): Promise<{ response: TResponse; rateLimit: RateLimitInfo }> {
+    try {
+      return await this.executeRequest<TResponse>(method, path, body, options);
+    } catch (error) {
+      if (error instanceof WasenderAPIError) {
+        this.logger.error(`Wasender SDK: ${method} ${path} failed: ${error.apiMessage}`, {
+          method, path,
+          status: error.statusCode,
+          rateLimit: toLogRateLimit(error.rateLimit),
+        });
+        if (this.hooks.onError) {
+          await this.hooks.onError(error, { method, path });
+        }
+      }
+      throw error;
+    }
+  }
+
+  private async executeRequest<TResponse extends WasenderSuccessResponse | GetSessionStatusResponse | RegenerateApiKeyResponse >(
+    method: HttpMethod,
     path: string,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    body?: Record<string, any> | null
+    body?: Record<string, any> | null,
+    options?: WasenderRequestOptions
   ): Promise<{ response: TResponse; rateLimit: RateLimitInfo }> {
-    const url = `${this.baseUrl}${path}`;
+    const callerSignal = options?.signal;
+    const timeoutMs = this.resolveTimeoutMs(options);
 
     // Determine which token to use
     const isSessionManagementPath = path.startsWith("/whatsapp-sessions") || path === "/status";
@@ -167,7 +589,7 @@ export class Wasender {
 
     if (isSessionManagementPath) {
       if (!this.personalAccessToken) {
-        throw new WasenderAPIError("Personal Access Token is required for this operation but was not provided during SDK initialization.", 401);
+        throw new WasenderConfigError("Personal Access Token is required for this operation but was not provided during SDK initialization.", 401);
       }
       tokenToUse = this.personalAccessToken;
     } else {
@@ -175,16 +597,22 @@ export class Wasender {
         // If apiKey is generally required for non-session-management paths but not provided.
         // This could happen if SDK was initialized only with PAT for session management
         // and then an attempt is made to call, e.g., send-message.
-        throw new WasenderAPIError("Session API Key is required for this operation but was not provided or is not applicable.", 401);
+        throw new WasenderConfigError("Session API Key is required for this operation but was not provided or is not applicable.", 401);
       }
       tokenToUse = this.apiKey;
     }
 
-    const requestHeaders: HeadersInit = {
-      "Authorization": `Bearer ${tokenToUse}`,
+    const requestHeaders: Record<string, string> = {
       "Accept": "application/json",
-      "User-Agent": `wasender-typescript-sdk/${SDK_VERSION}`
+      "User-Agent": this.userAgent,
+      "Authorization": `Bearer ${tokenToUse}`,
     };
+    if (options?.idempotencyKey) {
+      requestHeaders[IDEMPOTENCY_KEY_HEADER] = options.idempotencyKey;
+    }
+    if (method === "POST" || method === "PUT") {
+      requestHeaders["Content-Type"] = "application/json";
+    }
 
     let processedBody = body ? { ...body } : null;
 
@@ -199,81 +627,117 @@ export class Wasender {
       }
     }
 
-    const requestOptions: RequestInit = {
-      method,
-      headers: requestHeaders,
-    };
-
-    if ((method === "POST" || method === "PUT") && processedBody) {
-      requestHeaders["Content-Type"] = "application/json";
-      requestOptions.body = JSON.stringify(processedBody);
-    } else if (method === "POST" || method === "PUT") { // Body is null or not provided but method requires a body
-        requestHeaders["Content-Type"] = "application/json";
-        requestOptions.body = JSON.stringify({}); 
-    } else if (method === "DELETE") {
-      // No specific body handling for DELETE based on current API structure
-    }
-
+    const requestStartedAt = Date.now();
     let attempts = 0;
     // eslint-disable-next-line no-constant-condition
     while (true) {
       attempts++;
-      let httpResponse: globalThis.Response;
-      let rateLimitInfo: RateLimitInfo | undefined;
 
+      await this.rateLimiter?.acquire(callerSignal);
+      throwIfAborted(callerSignal);
+
+      // One controller per attempt, aborted either by the caller's signal or by the timeout.
+      const controller = new AbortController();
+      let timedOut = false;
+      const onCallerAbort = () => controller.abort();
+      callerSignal?.addEventListener("abort", onCallerAbort);
+      const timeoutHandle = timeoutMs !== undefined
+        ? setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs)
+        : undefined;
+
+      const ctx: MiddlewareContext = {
+        method, baseUrl: this.baseUrl, path,
+        headers: { ...requestHeaders },
+        body: processedBody ? { ...processedBody } : null,
+        attempt: attempts,
+        signal: controller.signal,
+        state: {},
+      };
+      // Errors raised by fetch itself (as opposed to by middleware) are network errors and may be retried.
+      let transportError: unknown;
+      let breaker: CircuitBreaker | undefined;
+      let permit: CircuitPermit | undefined;
       try {
-        httpResponse = await this.fetchImpl(url, requestOptions);
-        rateLimitInfo = this.parseRateLimitHeaders(httpResponse.headers);
-      } catch (networkError) {
+        await this.pipeline(ctx, async () => {
+          // Middleware may route the request to another base URL, so the circuit is chosen after it ran.
+          const circuit = this.circuitBreakers?.get(ctx.baseUrl, tokenToUse!);
+          permit = circuit?.acquire();
+          breaker = circuit;
+          try {
+            await this.dispatch(ctx);
+          } catch (error) {
+            transportError = error;
+            throw error;
+          }
+        });
+      } catch (error) {
+        clearTimeout(timeoutHandle);
+        callerSignal?.removeEventListener("abort", onCallerAbort);
+        if (callerSignal?.aborted || transportError === undefined || error !== transportError) {
+          breaker?.release(permit);
+          throwIfAborted(callerSignal);
+          throw error;
+        }
+        breaker?.recordFailure(permit);
         const errorToThrow =
-          networkError instanceof Error
-            ? new WasenderAPIError(
-                `Network error: ${networkError.message}`,
-                undefined, undefined, undefined, rateLimitInfo
-              )
-            : new WasenderAPIError(
-                "An unknown network error occurred during the request.",
-                undefined, undefined, undefined, rateLimitInfo
-              );
-
-        if (attempts > this.retryConfig.maxRetries || !this.retryConfig.enabled) {
+          timedOut
+            ? new WasenderTimeoutError(timeoutMs!, method, path)
+          : error instanceof Error
+            ? new WasenderNetworkError(`Network error: ${error.message}`, error)
+            : new WasenderNetworkError("An unknown network error occurred during the request.", error);
+
+        const delayMs = this.getRetryDelay(ctx, attempts, requestStartedAt);
+        if (delayMs === null) {
           throw errorToThrow;
         }
-        if (attempts > 1 && method === "GET") throw errorToThrow;
-        console.warn(
-          `Wasender SDK: Network error on attempt ${attempts} for ${method} ${path}. Retrying if configured...`
+        this.logger.warn(
+          errorToThrow instanceof WasenderTimeoutError
+            ? `Wasender SDK: Timeout after ${timeoutMs}ms on attempt ${attempts} for ${method} ${path}. Retrying in ${delayMs}ms...`
+            : `Wasender SDK: Network error on attempt ${attempts} for ${method} ${path}. Retrying in ${delayMs}ms...`,
+          { method, path, attempt: attempts, durationMs: ctx.durationMs, delayMs, error: errorToThrow.apiMessage }
         );
-        await new Promise(resolve => setTimeout(resolve, 1000 * attempts));
+        await sleep(delayMs, callerSignal);
         continue;
       }
+      clearTimeout(timeoutHandle);
+      callerSignal?.removeEventListener("abort", onCallerAbort);
 
-      let responseBody: WasenderAPIRawResponse | RegenerateApiKeyResponse | GetSessionStatusResponse;
-      try {
-        if (httpResponse.status === 204) {
-            if (path.includes("/block") || path.includes("/unblock")) {
-                 responseBody = { success: true, data: { message: path.includes("/block") ? "Contact blocked" : "Contact unblocked" } } as unknown as WasenderAPIRawResponse;
-            } else if (method === "DELETE" && path.startsWith("/whatsapp-sessions/")) {
-                 responseBody = { success: true, data: null } as unknown as WasenderAPIRawResponse;
-            } else {
-                 responseBody = { success: true } as WasenderAPIRawResponse; // Default for 204
-            }
-        } else {
-            // For /status, the response is directly {status: "..."}
-            // For /regenerate-key, response is {success: true, api_key: "..."}
-            // For others, it's WasenderAPIRawResponse
-            if (path === "/status") {
-                responseBody = await httpResponse.json() as GetSessionStatusResponse;
-            } else if (path.includes("/regenerate-key")) {
-                responseBody = await httpResponse.json() as RegenerateApiKeyResponse;
-            } else {
-                responseBody = (await httpResponse.json()) as WasenderAPIRawResponse;
-            }
+      if (!ctx.response || (ctx.responseBody === undefined && ctx.responseParseError === undefined)) {
+        breaker?.release(permit);
+        throw new WasenderConfigError(`Middleware did not produce a response for ${method} ${path}.`);
+      }
+      const httpResponse = ctx.response;
+      const rateLimitInfo = ctx.rateLimit ?? this.parseRateLimitHeaders(httpResponse.headers);
+      this.rateLimiter?.update(rateLimitInfo);
+      if (httpResponse.status >= 500) {
+        breaker?.recordFailure(permit);
+      } else {
+        breaker?.recordSuccess(permit);
+      }
+
+      const responseBody = ctx.responseBody as WasenderAPIRawResponse | RegenerateApiKeyResponse | GetSessionStatusResponse;
+      if (ctx.responseParseError !== undefined) {
+        throwIfAborted(callerSignal);
+        if (timedOut) {
+          throw new WasenderTimeoutError(timeoutMs!, method, path);
+        }
+        // Gateways often answer 5xx with an HTML page; retry those before trying to read the body as text.
+        const delayMs = this.getRetryDelay(
+          ctx, attempts, requestStartedAt, httpResponse.status,
+          parseRetryAfterHeader(httpResponse.headers.get("Retry-After"))
+        );
+        if (delayMs !== null) {
+          this.logger.warn(
+            `Wasender SDK: Unparseable HTTP ${httpResponse.status} response on attempt ${attempts} for ${method} ${path}. Retrying in ${delayMs}ms...`,
+            { method, path, attempt: attempts, status: httpResponse.status, delayMs, rateLimit: toLogRateLimit(rateLimitInfo) }
+          );
+          await sleep(delayMs, callerSignal);
+          continue;
         }
-      } catch (parseError) {
-        const errorText = await httpResponse.text().catch(() => "Could not retrieve error text.");
-        throw new WasenderAPIError(
-          `Failed to parse API response (Status ${httpResponse.status}): ${errorText}`,
-          httpResponse.status, undefined, undefined, rateLimitInfo
+        const errorText = await httpResponse.text().catch(() => undefined);
+        throw new WasenderResponseParseError(
+          `Failed to parse API response (Status ${httpResponse.status}): ${errorText ?? "Could not retrieve error text."}`,
+          httpResponse.status, rateLimitInfo, errorText
         );
       }
       
@@ -292,30 +756,24 @@ export class Wasender {
       }
 
       if (!httpResponse.ok || (responseBody && 'success' in responseBody && typeof responseBody.success === 'boolean' && !responseBody.success)) {
-        const apiError = responseBody as WasenderErrorResponse; 
-        const errorToThrow = new WasenderAPIError(
-          apiError.message || "API request failed with an unspecified error.",
-          httpResponse.status,
-          apiError.errors,
-          apiError.retry_after,
-          rateLimitInfo
-        );
-
-        if (
-          this.retryConfig.enabled &&
-          errorToThrow.statusCode === 429 &&
-          errorToThrow.retryAfter &&
-          errorToThrow.retryAfter > 0 &&
-          attempts <= this.retryConfig.maxRetries
-        ) {
-          console.warn(
-            `Wasender SDK: Rate limit (429) on attempt ${attempts} for ${method} ${path}. Retrying after ${errorToThrow.retryAfter}s...`
-          );
-          await new Promise(resolve => setTimeout(resolve, errorToThrow.retryAfter! * 1000));
-          continue; 
-        } else {
-          throw errorToThrow; 
+        const errorToThrow = createErrorFromResponse(httpResponse.status, responseBody as WasenderErrorResponse, rateLimitInfo);
+
+        // Prefer the body's `retry_after` (seconds), then the Retry-After header, then exponential backoff.
+        const retryAfterMs = errorToThrow.retryAfter && errorToThrow.retryAfter > 0
+          ? errorToThrow.retryAfter * 1000
+          : parseRetryAfterHeader(httpResponse.headers.get("Retry-After"));
+        const delayMs = this.getRetryDelay(ctx, attempts, requestStartedAt, httpResponse.status, retryAfterMs);
+        if (delayMs === null) {
+          throw errorToThrow;
         }
+        this.logger.warn(
+          httpResponse.status === 429
+            ? `Wasender SDK: Rate limit (429) on attempt ${attempts} for ${method} ${path}. Retrying after ${delayMs / 1000}s...`
+            : `Wasender SDK: HTTP ${httpResponse.status} on attempt ${attempts} for ${method} ${path}. Retrying after ${delayMs / 1000}s...`,
+          { method, path, attempt: attempts, status: httpResponse.status, delayMs, rateLimit: toLogRateLimit(rateLimitInfo) }
+        );
+        await sleep(delayMs, callerSignal);
+        continue;
       }
       
       // This is the general success case for standard responses
@@ -327,34 +785,109 @@ export class Wasender {
       }
       
       // Fallback for unexpected response structures that didn't throw an error but aren't recognized success
-      throw new WasenderAPIError(
+      throw new WasenderResponseParseError(
         `Unexpected API response structure from ${method} ${path}. Status: ${httpResponse.status}`,
-        httpResponse.status, undefined, undefined, rateLimitInfo
+        httpResponse.status, rateLimitInfo
       );
     } // End of while(true)
   } // End of request method
 
+  /**
+   * Innermost step of the middleware chain: performs the HTTP call described by `ctx`
+   * and stores the response, its rate limit headers and its parsed body on the context.
+   */
+  private async dispatch(ctx: MiddlewareContext): Promise<void> {
+    const init: RequestInit = { method: ctx.method, headers: ctx.headers, signal: ctx.signal };
+    if (ctx.method === "POST" || ctx.method === "PUT") {
+      init.body = JSON.stringify(ctx.body ?? {});
+    }
+    const httpResponse = await raceAbort(this.fetchImpl(`${ctx.baseUrl}${ctx.path}`, init), ctx.signal);
+    ctx.response = httpResponse;
+    ctx.status = httpResponse.status;
+    ctx.rateLimit = this.parseRateLimitHeaders(httpResponse.headers);
+
+    const { method, path } = ctx;
+    try {
+      if (httpResponse.status === 204) {
+          if (path.includes("/block") || path.includes("/unblock")) {
+               ctx.responseBody = { success: true, data: { message: path.includes("/block") ? "Contact blocked" : "Contact unblocked" } };
+          } else if (method === "DELETE" && path.startsWith("/whatsapp-sessions/")) {
+               ctx.responseBody = { success: true, data: null };
+          } else {
+               ctx.responseBody = { success: true }; // Default for 204
+          }
+      } else {
+          // For /status, the response is directly {status: "..."}
+          // For /regenerate-key, response is {success: true, api_key: "..."}
+          // For others, it's WasenderAPIRawResponse
+          // Raced like the fetch, so a body that stalls cannot outlive the timeout.
+          ctx.responseBody = await raceAbort(httpResponse.json(), ctx.signal);
+      }
+    } catch (parseError) {
+      // Aborted while reading the body: a timeout or cancellation, not a malformed response.
+      if (ctx.signal.aborted) throw parseError;
+      ctx.responseParseError = parseError;
+    }
+  }
+
+  /** The per-call `timeoutMs`, falling back to the client's. */
+  private resolveTimeoutMs(options?: WasenderRequestOptions): number | undefined {
+    const timeoutMs = options?.timeoutMs ?? this.timeoutMs;
+    if (timeoutMs !== undefined && (!Number.isFinite(timeoutMs) || timeoutMs <= 0)) {
+      throw new WasenderValidationError("timeoutMs must be a positive number of milliseconds.", undefined, 400);
+    }
+    return timeoutMs;
+  }
+
+  /**
+   * Decides whether a failed attempt is retried under the configured `RetryConfig`.
+   * @param ctx The failed attempt. A POST carrying an `Idempotency-Key` header is as safe to repeat as a GET.
+   * @param status HTTP status of the failed attempt; undefined for network errors and timeouts.
+   * @param retryAfterMs Server-requested delay, if any. Takes precedence over computed backoff.
+   * @returns The delay before the next attempt in milliseconds, or `null` if the error should be thrown.
+   */
+  private getRetryDelay(
+    ctx: MiddlewareContext,
+    attempts: number,
+    requestStartedAt: number,
+    status?: number,
+    retryAfterMs?: number
+  ): number | null {
+    const policy = this.retryConfig;
+    if (!policy.enabled || attempts > policy.maxRetries) return null;
+    if (status !== undefined && !policy.retryableStatusCodes.includes(status)) return null;
+    // A 429 means the request was rejected before processing, so it is safe to repeat for any method.
+    // Network errors, timeouts and 5xx responses may arrive after the server processed the request.
+    const repeatable = isIdempotentMethod(ctx.method) || Boolean(ctx.headers[IDEMPOTENCY_KEY_HEADER]);
+    if (status !== 429 && !repeatable && !policy.retryNonIdempotent) return null;
+    const delayMs = retryAfterMs ?? computeBackoffDelay(policy, attempts);
+    if (policy.maxElapsedMs !== undefined && Date.now() - requestStartedAt + delayMs > policy.maxElapsedMs) return null;
+    return delayMs;
+  }
+
   // General purpose POST (adapted from original post for sending messages)
   private async postInternal<
     TPayload extends Record<string, any> | null, // Generic payload for POST, now allowing null
     TSuccessResponse extends WasenderSuccessResponse // Generic success response
   >(
     path: string,
-    payload: TPayload // Payload can be null for block/unblock
+    payload: TPayload, // Payload can be null for block/unblock
+    options?: WasenderRequestOptions
   ): Promise<{ response: TSuccessResponse; rateLimit: RateLimitInfo }> {
     // Remove messageType if present, as it was specific to send-message
     const apiPayload = payload ? { ...payload } : null;
     if (apiPayload && 'messageType' in apiPayload) {
       delete apiPayload.messageType;
     }
-    return this.request<TSuccessResponse>("POST", path, apiPayload);
+    return this.request<TSuccessResponse>("POST", path, apiPayload, options);
   }
   
   // General purpose GET
   private async getInternal<TSuccessResponse extends WasenderSuccessResponse>(
-    path: string
+    path: string,
+    options?: WasenderRequestOptions
   ): Promise<{ response: TSuccessResponse; rateLimit: RateLimitInfo }> {
-    return this.request<TSuccessResponse>("GET", path);
+    return this.request<TSuccessResponse>("GET", path, null, options);
   }
 
   // General purpose PUT
@@ -363,186 +896,515 @@ export class Wasender {
     TSuccessResponse extends WasenderSuccessResponse
   >(
     path: string,
-    payload: TPayload
+    payload: TPayload,
+    options?: WasenderRequestOptions
   ): Promise<{ response: TSuccessResponse; rateLimit: RateLimitInfo }> {
-    return this.request<TSuccessResponse>("PUT", path, payload);
+    return this.request<TSuccessResponse>("PUT", path, payload, options);
   }
 
   // General purpose DELETE
   private async deleteInternal<TSuccessResponse extends WasenderSuccessResponse>(
-    path: string
+    path: string,
+    options?: WasenderRequestOptions
   ): Promise<{ response: TSuccessResponse; rateLimit: RateLimitInfo }> {
-    return this.request<TSuccessResponse>("DELETE", path);
+    return this.request<TSuccessResponse>("DELETE", path, null, options);
   }
 
   // ---------- Generic Send Method (modified to use postInternal) ----------
   /**
    * Sends any valid Wasender message payload.
    * @param payload A WasenderMessagePayload object (e.g., TextOnlyMessage, ImageUrlMessage).
-   * @returns A promise that resolves to the API response and rate limit information.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
+   * An idempotency key is generated (unless given in `options`) and reused across retries of this call.
+   * @returns A promise that resolves to the API response, rate limit information and the idempotency key used.
+   * @throws WasenderDuplicateMessageError if the payload was already sent within the dedupe window.
    * @throws WasenderAPIError if the request fails.
    */
-  public async send<T extends WasenderMessagePayload>(payload: T): Promise<WasenderSendResult> {
+  public async send<T extends WasenderMessagePayload>(payload: T, options?: WasenderRequestOptions): Promise<WasenderSendResult> {
+    if (payload.messageType === 'poll') {
+      validatePoll(payload.poll);
+    }
+    if (this.validateMedia) {
+      const kind = MEDIA_KINDS.find(k => k === payload.messageType);
+      const url = kind ? (payload as unknown as Record<string, unknown>)[mediaUrlField(kind)] : undefined;
+      if (kind && typeof url === "string") {
+        await this.checkMediaUrl(url, kind, options);
+      }
+    }
+    return this.sendPayload(payload, options);
+  }
+
+  // Sends a payload whose media, if any, has already been validated.
+  private async sendPayload(original: WasenderMessagePayload, options?: WasenderRequestOptions): Promise<WasenderSendResult> {
+    const payload = { ...original, to: this.normalizePhone(original.to, "to", "e164") } as WasenderMessagePayload;
+    if (payload.quoted && (!payload.quoted.id || !payload.quoted.remoteId)) {
+      throw new WasenderValidationError("quoted must be a message key with an id and remoteId.", { quoted: ["quoted must be a message key with an id and remoteId."] }, 400);
+    }
+    if (payload.mentions) {
+      payload.mentions = payload.mentions.map(mention => this.normalizeMention(mention));
+    }
+    if (payload.messageType === 'contact') {
+      // Rich contacts and raw vCards are sent with their vCard; several contacts are sent as an array.
+      const cards = (Array.isArray(payload.contact) ? payload.contact : [payload.contact]).map(toContactCardPayload);
+      if (cards.length === 0) {
+        throw new WasenderValidationError("contact must contain at least one contact.", { contact: ["contact must contain at least one contact."] }, 400);
+      }
+      payload.contact = cards.length === 1 ? cards[0] : cards;
+    }
     // The /send-message path is specific to this method
     const { messageType, ...apiPayload } = payload;
-    return this.postInternal<typeof apiPayload, WasenderSuccessResponse>("/send-message", apiPayload) as Promise<WasenderSendResult>;
+
+    if (this.deduplicator && !options?.force) {
+      if (this.deduplicator.isDuplicate(payload.to, apiPayload)) {
+        throw new WasenderDuplicateMessageError(payload.to);
+      }
+    }
+    this.deduplicator?.record(payload.to, apiPayload);
+
+    const idempotencyKey = options?.idempotencyKey ?? (this.idempotencyKeys ? generateIdempotencyKey() : undefined);
+    try {
+      const result = await this.postInternal<typeof apiPayload, WasenderSuccessResponse>(
+        "/send-message",
+        apiPayload,
+        { ...options, idempotencyKey }
+      );
+      return idempotencyKey ? { ...result, idempotencyKey } : result;
+    } catch (error) {
+      // A 4xx response means the message was definitively not sent, so it may be sent again.
+      if (error instanceof WasenderAPIError && error.statusCode !== undefined && error.statusCode >= 400 && error.statusCode < 500) {
+        this.deduplicator?.forget(payload.to, apiPayload);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replies to an incoming message: sends `payload` to the chat the message belongs to, quoting it.
+   * Replies to group messages go to the group.
+   * @param event A `messages.upsert` event, or its `data`.
+   * @param payload The reply, without `to`.
+   * @returns The result of `send()`.
+   * @throws WasenderValidationError if the event carries no message key.
+   */
+  public async reply(event: MessagesUpsertEvent | MessagesUpsertData, payload: ReplyPayload, options?: WasenderRequestOptions): Promise<WasenderSendResult> {
+    const data = "event" in event ? event.data : event;
+    // Webhook data may be a single message or an array; a reply targets the first.
+    const key = (Array.isArray(data) ? data[0] : data)?.key;
+    if (!key?.id || !key.remoteId) {
+      throw new WasenderValidationError("The event has no message key to reply to.", { quoted: ["The event has no message key to reply to."] }, 400);
+    }
+    return this.send({ ...payload, to: key.remoteId, quoted: key } as WasenderMessagePayload, options);
   }
 
   // ---------- Specific Endpoint Helpers (Wrappers for the generic send) ----------
   // These now add the `messageType` discriminant before calling the generic send.
 
-  sendText(payload: Omit<TextOnlyMessage, 'messageType'>): Promise<WasenderSendResult> {
-    return this.send({ ...payload, messageType: 'text' });
+  sendText(payload: Omit<TextOnlyMessage, 'messageType'>, options?: WasenderRequestOptions): Promise<WasenderSendResult> {
+    return this.send({ ...payload, messageType: 'text' }, options);
+  }
+
+  /**
+   * Sends text of any length, split into as many messages as needed. See `splitText()` for how the text
+   * is cut; pass `counter: true` to number the parts, e.g. ' (1/3)'. Parts are sent one at a time, in order,
+   * `delayMs` apart. A quoted message is quoted by the first part only, and each part mentions the users
+   * whose @number it contains; mentions found in no part go with the first.
+   * If a part fails, the remaining parts are not sent and the error is thrown; parts already sent have
+   * been reported to `onPartSent`. With an `idempotencyKey` in `options`, part n uses `<key>-n`.
+   * @returns The result of each part, in order.
+   * @throws WasenderValidationError if the text is empty or the options are invalid.
+   * @throws WasenderAPIError if sending a part fails.
+   */
+  public async sendLongText(
+    payload: Omit<TextOnlyMessage, 'messageType'>,
+    longTextOptions: SendLongTextOptions = {},
+    options?: WasenderRequestOptions
+  ): Promise<WasenderSendResult[]> {
+    const { delayMs = 1000, onPartSent, ...splitOptions } = longTextOptions;
+    if (!Number.isFinite(delayMs) || delayMs < 0) {
+      throw new WasenderValidationError("delayMs must be a non-negative number.", { delayMs: ["delayMs must be a non-negative number."] }, 400);
+    }
+    const parts = splitText(payload.text, splitOptions);
+    if (parts.length === 0) {
+      throw new WasenderValidationError("text must not be empty.", { text: ["text must not be empty."] }, 400);
+    }
+
+    const { quoted, mentions, ...rest } = payload;
+    const mentionsByPart = parts.map(text => (mentions ?? []).filter(mention => mentionedIn(text, mention)));
+    const unplaced = (mentions ?? []).filter(mention => !mentionsByPart.some(list => list.includes(mention)));
+    mentionsByPart[0].unshift(...unplaced);
+
+    const results: WasenderSendResult[] = [];
+    for (const [index, text] of parts.entries()) {
+      if (index > 0 && delayMs > 0) {
+        await sleep(delayMs, options?.signal);
+      }
+      const part: TextOnlyMessage = { ...rest, text, messageType: 'text' };
+      if (index === 0 && quoted) part.quoted = quoted;
+      if (mentionsByPart[index].length > 0) part.mentions = mentionsByPart[index];
+      const partOptions = options?.idempotencyKey ? { ...options, idempotencyKey: `${options.idempotencyKey}-${index + 1}` } : options;
+      const result = await this.send(part, partOptions);
+      results.push(result);
+      onPartSent?.(result, index + 1, parts.length);
+    }
+    return results;
+  }
+
+  /**
+   * Sends an image. `imageUrl` may be a public URL or a `MediaSource` (bytes, Blob, stream or `{ path }`),
+   * which is uploaded first.
+   */
+  async sendImage(payload: WithMediaSource<ImageUrlMessage, 'imageUrl'>, options?: WasenderRequestOptions): Promise<WasenderSendResult> {
+    const { url } = await this.resolveMedia(payload.imageUrl, 'image', options);
+    return this.sendPayload({ ...payload, imageUrl: url, messageType: 'image' }, options);
   }
 
-  sendImage(payload: Omit<ImageUrlMessage, 'messageType'>): Promise<WasenderSendResult> {
-    return this.send({ ...payload, messageType: 'image' });
+  /** Sends a video. `videoUrl` may be a public URL or a `MediaSource`, which is uploaded first. */
+  async sendVideo(payload: WithMediaSource<VideoUrlMessage, 'videoUrl'>, options?: WasenderRequestOptions): Promise<WasenderSendResult> {
+    const { url } = await this.resolveMedia(payload.videoUrl, 'video', options);
+    return this.sendPayload({ ...payload, videoUrl: url, messageType: 'video' }, options);
   }
 
-  sendVideo(payload: Omit<VideoUrlMessage, 'messageType'>): Promise<WasenderSendResult> {
-    return this.send({ ...payload, messageType: 'video' });
+  /**
+   * Sends a document. `documentUrl` may be a public URL or a `MediaSource`, which is uploaded first.
+   * For uploads, `fileName` defaults to the name of the source file.
+   */
+  async sendDocument(payload: WithMediaSource<DocumentUrlMessage, 'documentUrl'>, options?: WasenderRequestOptions): Promise<WasenderSendResult> {
+    const { url, fileName } = await this.resolveMedia(payload.documentUrl, 'document', options);
+    const document: DocumentUrlMessage = { ...payload, documentUrl: url, messageType: 'document' };
+    if (document.fileName === undefined && fileName !== undefined) document.fileName = fileName;
+    return this.sendPayload(document, options);
   }
 
-  sendDocument(payload: Omit<DocumentUrlMessage, 'messageType'>): Promise<WasenderSendResult> {
-    return this.send({ ...payload, messageType: 'document' });
+  /** Sends an audio file as a voice note. `audioUrl` may be a public URL or a `MediaSource`, which is uploaded first. */
+  async sendAudio(payload: WithMediaSource<AudioUrlMessage, 'audioUrl'>, options?: WasenderRequestOptions): Promise<WasenderSendResult> {
+    const { url } = await this.resolveMedia(payload.audioUrl, 'audio', options);
+    return this.sendPayload({ ...payload, audioUrl: url, messageType: 'audio' }, options);
   }
 
-  sendAudio(payload: Omit<AudioUrlMessage, 'messageType'>): Promise<WasenderSendResult> {
-    return this.send({ ...payload, messageType: 'audio' });
+  /** Sends a sticker. `stickerUrl` may be a public URL or a `MediaSource`, which is uploaded first. */
+  async sendSticker(payload: WithMediaSource<StickerUrlMessage, 'stickerUrl'>, options?: WasenderRequestOptions): Promise<WasenderSendResult> {
+    const { url } = await this.resolveMedia(payload.stickerUrl, 'sticker', options);
+    return this.sendPayload({ ...payload, stickerUrl: url, messageType: 'sticker' }, options);
   }
 
-  sendSticker(payload: Omit<StickerUrlMessage, 'messageType'>): Promise<WasenderSendResult> {
-    return this.send({ ...payload, messageType: 'sticker' });
+  /**
+   * Sends one or more contact cards. Each contact may be `{ name, phone }`, a `VCardContact`
+   * with several numbers, emails and more, or a raw vCard string.
+   * @throws WasenderValidationError if a contact or vCard is invalid.
+   */
+  sendContact(payload: Omit<ContactCardMessage, 'messageType'>, options?: WasenderRequestOptions): Promise<WasenderSendResult> {
+    return this.send({ ...payload, messageType: 'contact' }, options);
   }
 
-  sendContact(payload: Omit<ContactCardMessage, 'messageType'>): Promise<WasenderSendResult> {
-    return this.send({ ...payload, messageType: 'contact' });
+  sendLocation(payload: Omit<LocationPinMessage, 'messageType'>, options?: WasenderRequestOptions): Promise<WasenderSendResult> {
+    return this.send({ ...payload, messageType: 'location' }, options);
   }
 
-  sendLocation(payload: Omit<LocationPinMessage, 'messageType'>): Promise<WasenderSendResult> {
-    return this.send({ ...payload, messageType: 'location' });
+  /**
+   * Sends a poll. Track its votes with a `PollAggregator`.
+   * @throws WasenderValidationError if the poll has no question, fewer than 2 or more than 12 options,
+   * duplicate options, or an invalid `selectableCount`.
+   */
+  sendPoll(payload: Omit<PollMessage, 'messageType'>, options?: WasenderRequestOptions): Promise<WasenderSendResult> {
+    return this.send({ ...payload, messageType: 'poll' }, options);
+  }
+
+  // ---------- Message Actions ----------
+
+  /**
+   * Reacts to a message with an emoji, replacing any earlier reaction of the session.
+   * @param key The key of the message, e.g. `event.data.key` of a `messages.upsert` event.
+   * @param emoji A single emoji, e.g. '👍'.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
+   * @returns A promise that resolves to the action status and rate limit information.
+   * @throws WasenderValidationError if the key or emoji is invalid.
+   * @throws WasenderAPIError if the request fails.
+   */
+  public async reactToMessage(key: MessageKey, emoji: string, options?: WasenderRequestOptions): Promise<MessageActionResult> {
+    requireMessageKey(key);
+    if (typeof emoji !== "string" || !EMOJI_PATTERN.test(emoji)) {
+      throw new WasenderValidationError("emoji must be an emoji.", { emoji: ["emoji must be an emoji."] }, 400);
+    }
+    return this.postInternal<ReactionPayload, MessageActionResponse>("/messages/react", { key, reaction: emoji }, options);
+  }
+
+  /**
+   * Removes the session's reaction from a message.
+   * @param key The key of the message.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
+   * @returns A promise that resolves to the action status and rate limit information.
+   * @throws WasenderAPIError if the request fails.
+   */
+  public async removeReaction(key: MessageKey, options?: WasenderRequestOptions): Promise<MessageActionResult> {
+    requireMessageKey(key);
+    // WhatsApp removes a reaction by reacting with empty text.
+    return this.postInternal<ReactionPayload, MessageActionResponse>("/messages/react", { key, reaction: "" }, options);
+  }
+
+  /**
+   * Replaces the text of a message sent by the session. WhatsApp only allows edits shortly after sending.
+   * @param key The key of the message. Must be one of the session's own messages (`fromMe`).
+   * @param newText The new text.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
+   * @returns A promise that resolves to the action status and rate limit information.
+   * @throws WasenderValidationError if the message is not the session's own or the text is empty.
+   * @throws WasenderAPIError if the request fails.
+   */
+  public async editMessage(key: MessageKey, newText: string, options?: WasenderRequestOptions): Promise<MessageActionResult> {
+    requireMessageKey(key);
+    if (!key.fromMe) {
+      throw new WasenderValidationError("Only messages sent by the session can be edited.", { key: ["Only messages sent by the session can be edited."] }, 400);
+    }
+    if (typeof newText !== "string" || newText.trim() === "") {
+      throw new WasenderValidationError("newText must be a non-empty string.", { text: ["newText must be a non-empty string."] }, 400);
+    }
+    return this.putInternal<EditMessagePayload, MessageActionResponse>("/messages/edit", { key, text: newText }, options);
+  }
+
+  /**
+   * Deletes a message, by default only in the session's own chat.
+   * @param key The key of the message.
+   * @param deleteOptions `forEveryone: true` deletes the message for all participants.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
+   * @returns A promise that resolves to the action status and rate limit information.
+   * @throws WasenderAPIError if the request fails.
+   */
+  public async deleteMessage(key: MessageKey, deleteOptions: DeleteMessageOptions = {}, options?: WasenderRequestOptions): Promise<MessageActionResult> {
+    requireMessageKey(key);
+    return this.postInternal<DeleteMessagePayload, MessageActionResponse>(
+      "/messages/delete",
+      { key, forEveryone: deleteOptions.forEveryone ?? false },
+      options
+    );
+  }
+
+  // ---------- Bulk Sending ----------
+
+  /**
+   * Sends a message to each recipient, with bounded concurrency and optional pacing.
+   * Sending pauses while the reported rate limit budget is exhausted, and recipients answered with 429 are retried.
+   * @param recipients Phone numbers, or any values `payloadFactory` turns into payloads.
+   * @param payloadFactory Builds the payload for a recipient; it goes through `send()`.
+   * @param options Concurrency, `messagesPerMinute`, retry, cancellation and progress settings.
+   * @returns A job that can be paused, resumed or cancelled, and awaited for the per-recipient report.
+   */
+  public sendBulk<R>(
+    recipients: Iterable<R>,
+    payloadFactory: BulkPayloadFactory<R>,
+    options?: BulkSendOptions<R>
+  ): BulkSendJob<R> {
+    return new BulkSendJob((payload, sendOptions) => this.send(payload, sendOptions), recipients, payloadFactory, { logger: this.logger, ...options });
+  }
+
+  // ---------- Media Upload ----------
+
+  /**
+   * Uploads media to Wasender and returns its public URL, for use as a media URL in messages.
+   * The file name and MIME type are inferred when not given, and the documented size limit for `kind` is enforced.
+   * With `validateMedia` enabled, the content must also be of a type accepted for `kind`.
+   * @param source Bytes, Blob, stream or `{ path }` of a local file.
+   * @param kind Message type the media is meant for. Defaults to 'document'.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
+   * @returns A promise that resolves to the upload response (with `publicUrl`), rate limit information, file name and MIME type.
+   * @throws WasenderValidationError if the media is empty or too large.
+   * @throws WasenderAPIError if the request fails.
+   */
+  public async uploadMedia(source: MediaSource, kind: MediaKind = 'document', options?: WasenderRequestOptions): Promise<UploadMediaResult> {
+    const media = await loadMediaSource(source, kind);
+    if (this.validateMedia) {
+      validateLoadedMedia(kind, media);
+    }
+    const result = await this.postInternal<{ base64: string }, UploadMediaResponse>(
+      "/upload",
+      { base64: toDataUri(media.bytes, media.mimeType) },
+      { signal: options?.signal, timeoutMs: options?.timeoutMs }
+    );
+    return { ...result, fileName: media.fileName, mimeType: media.mimeType };
+  }
+
+  /**
+   * Runs `validateMediaUrl()` under the same abort `signal` and `timeoutMs` as API requests,
+   * so a media host that never answers cannot stall a send.
+   * @throws WasenderTimeoutError if the media host does not answer within `timeoutMs`.
+   */
+  private async checkMediaUrl(url: string, kind: MediaKind, options?: WasenderRequestOptions): Promise<void> {
+    const callerSignal = options?.signal;
+    const timeoutMs = this.resolveTimeoutMs(options);
+    throwIfAborted(callerSignal);
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const onCallerAbort = () => controller.abort();
+    callerSignal?.addEventListener("abort", onCallerAbort);
+    const timeoutHandle = timeoutMs !== undefined
+      ? setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs)
+      : undefined;
+    try {
+      await raceAbort(validateMediaUrl(url, kind, this.fetchImpl, controller.signal), controller.signal);
+    } catch (error) {
+      if (timedOut) {
+        throw new WasenderTimeoutError(timeoutMs!, "HEAD", url);
+      }
+      throwIfAborted(callerSignal);
+      throw error;
+    } finally {
+      clearTimeout(timeoutHandle);
+      callerSignal?.removeEventListener("abort", onCallerAbort);
+    }
+  }
+
+  /** Returns a media URL as is, or uploads a `MediaSource` and returns its public URL. */
+  private async resolveMedia(
+    source: string | MediaSource,
+    kind: MediaKind,
+    options?: WasenderRequestOptions
+  ): Promise<{ url: string; fileName?: string }> {
+    if (typeof source === "string") {
+      if (this.validateMedia) {
+        await this.checkMediaUrl(source, kind, options);
+      }
+      return { url: source };
+    }
+    const { response, fileName } = await this.uploadMedia(source, kind, options);
+    return { url: response.publicUrl, fileName };
   }
 
   // ---------- Contact Management Methods ----------
 
   /**
    * Retrieves a list of all contacts synced with the WhatsApp session.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
    * @returns A promise that resolves to the list of contacts and rate limit information.
    * @throws WasenderAPIError if the request fails.
    */
-  public async getContacts(): Promise<GetAllContactsResult> {
-    return this.getInternal<GetAllContactsResponse>("/contacts");
+  public async getContacts(options?: WasenderRequestOptions): Promise<GetAllContactsResult> {
+    return this.getInternal<GetAllContactsResponse>("/contacts", options);
   }
 
   /**
    * Retrieves detailed information for a specific contact.
-   * @param contactPhoneNumber The JID (Jabber ID) of the contact in E.164 format (e.g., 1234567890).
+   * @param contactPhoneNumber The phone number of the contact (e.g., 1234567890), or its user JID.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
    * @returns A promise that resolves to the contact information and rate limit information.
    * @throws WasenderAPIError if the request fails.
    */
-  public async getContactInfo(contactPhoneNumber: string): Promise<GetContactInfoResult> {
+  public async getContactInfo(contactPhoneNumber: UserJid | string, options?: WasenderRequestOptions): Promise<GetContactInfoResult> {
     if (!contactPhoneNumber) {
-      throw new WasenderAPIError("Contact phone number (JID) is required.", 400);
+      throw new WasenderValidationError("Contact phone number (JID) is required.", undefined, 400);
     }
-    return this.getInternal<GetContactInfoResponse>(`/contacts/${contactPhoneNumber}`);
+    contactPhoneNumber = this.contactId(contactPhoneNumber);
+    return this.getInternal<GetContactInfoResponse>(`/contacts/${contactPhoneNumber}`, options);
   }
 
   /**
    * Retrieves the URL of the profile picture for a specific contact.
-   * @param contactPhoneNumber The JID (Jabber ID) of the contact in E.164 format (e.g., 1234567890).
+   * @param contactPhoneNumber The phone number of the contact (e.g., 1234567890), or its user JID.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
    * @returns A promise that resolves to the profile picture URL and rate limit information.
    * @throws WasenderAPIError if the request fails.
    */
-  public async getContactProfilePicture(contactPhoneNumber: string): Promise<GetContactProfilePictureResult> {
+  public async getContactProfilePicture(contactPhoneNumber: UserJid | string, options?: WasenderRequestOptions): Promise<GetContactProfilePictureResult> {
     if (!contactPhoneNumber) {
-      throw new WasenderAPIError("Contact phone number (JID) is required.", 400);
+      throw new WasenderValidationError("Contact phone number (JID) is required.", undefined, 400);
     }
-    return this.getInternal<GetContactProfilePictureResponse>(`/contacts/${contactPhoneNumber}/picture`);
+    contactPhoneNumber = this.contactId(contactPhoneNumber);
+    return this.getInternal<GetContactProfilePictureResponse>(`/contacts/${contactPhoneNumber}/picture`, options);
   }
 
   /**
    * Blocks a specific contact.
-   * @param contactPhoneNumber The JID (Jabber ID) of the contact in E.164 format (e.g., 1234567890).
+   * @param contactPhoneNumber The phone number of the contact (e.g., 1234567890), or its user JID.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
    * @returns A promise that resolves to the action status and rate limit information.
    * @throws WasenderAPIError if the request fails.
    */
-  public async blockContact(contactPhoneNumber: string): Promise<ContactActionResult> {
+  public async blockContact(contactPhoneNumber: UserJid | string, options?: WasenderRequestOptions): Promise<ContactActionResult> {
     if (!contactPhoneNumber) {
-      throw new WasenderAPIError("Contact phone number (JID) is required.", 400);
+      throw new WasenderValidationError("Contact phone number (JID) is required.", undefined, 400);
     }
+    contactPhoneNumber = this.contactId(contactPhoneNumber);
     // POST request, potentially with no body or an empty JSON body
-    return this.postInternal<null, ContactActionResponse>(`/contacts/${contactPhoneNumber}/block`, null);
+    return this.postInternal<null, ContactActionResponse>(`/contacts/${contactPhoneNumber}/block`, null, options);
   }
 
   /**
    * Unblocks a specific contact.
-   * @param contactPhoneNumber The JID (Jabber ID) of the contact in E.164 format (e.g., 1234567890).
+   * @param contactPhoneNumber The phone number of the contact (e.g., 1234567890), or its user JID.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
    * @returns A promise that resolves to the action status and rate limit information.
    * @throws WasenderAPIError if the request fails.
    */
-  public async unblockContact(contactPhoneNumber: string): Promise<ContactActionResult> {
+  public async unblockContact(contactPhoneNumber: UserJid | string, options?: WasenderRequestOptions): Promise<ContactActionResult> {
     if (!contactPhoneNumber) {
-      throw new WasenderAPIError("Contact phone number (JID) is required.", 400);
+      throw new WasenderValidationError("Contact phone number (JID) is required.", undefined, 400);
     }
+    contactPhoneNumber = this.contactId(contactPhoneNumber);
     // POST request, potentially with no body or an empty JSON body
-    return this.postInternal<null, ContactActionResponse>(`/contacts/${contactPhoneNumber}/unblock`, null);
+    return this.postInternal<null, ContactActionResponse>(`/contacts/${contactPhoneNumber}/unblock`, null, options);
   }
 
   // ---------- Group Management Methods ----------
 
   /**
    * Retrieves a list of all WhatsApp groups the connected account is a member of.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
    * @returns A promise that resolves to the list of groups and rate limit information.
    * @throws WasenderAPIError if the request fails.
    */
-  public async getGroups(): Promise<GetAllGroupsResult> {
-    return this.getInternal<GetAllGroupsResponse>("/groups");
+  public async getGroups(options?: WasenderRequestOptions): Promise<GetAllGroupsResult> {
+    return this.getInternal<GetAllGroupsResponse>("/groups", options);
   }
 
   /**
    * Retrieves metadata for a specific group.
    * @param groupJid The JID of the group (e.g., '123456789-987654321@g.us').
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
    * @returns A promise that resolves to the group metadata and rate limit information.
    * @throws WasenderAPIError if the request fails.
    */
-  public async getGroupMetadata(groupJid: string): Promise<GetGroupMetadataResult> {
+  public async getGroupMetadata(groupJid: GroupJid | string, options?: WasenderRequestOptions): Promise<GetGroupMetadataResult> {
     if (!groupJid) {
-      throw new WasenderAPIError("Group JID is required.", 400);
+      throw new WasenderValidationError("Group JID is required.", undefined, 400);
     }
-    return this.getInternal<GetGroupMetadataResponse>(`/groups/${groupJid}/metadata`);
+    return this.getInternal<GetGroupMetadataResponse>(`/groups/${groupJid}/metadata`, options);
   }
 
   /**
    * Retrieves a list of participants for a specific group.
    * @param groupJid The JID of the group.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
    * @returns A promise that resolves to the list of group participants and rate limit information.
    * @throws WasenderAPIError if the request fails.
    */
-  public async getGroupParticipants(groupJid: string): Promise<GetGroupParticipantsResult> {
+  public async getGroupParticipants(groupJid: GroupJid | string, options?: WasenderRequestOptions): Promise<GetGroupParticipantsResult> {
     if (!groupJid) {
-      throw new WasenderAPIError("Group JID is required.", 400);
+      throw new WasenderValidationError("Group JID is required.", undefined, 400);
     }
-    return this.getInternal<GetGroupParticipantsResponse>(`/groups/${groupJid}/participants`);
+    return this.getInternal<GetGroupParticipantsResponse>(`/groups/${groupJid}/participants`, options);
   }
 
   /**
    * Adds participants to a specific group. Requires admin privileges in the group.
    * @param groupJid The JID of the group.
    * @param participants An array of participant JIDs (E.164 format phone numbers) to add.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
    * @returns A promise that resolves to the action status for each participant and rate limit information.
    * @throws WasenderAPIError if the request fails.
    */
-  public async addGroupParticipants(groupJid: string, participants: string[]): Promise<ModifyGroupParticipantsResult> {
+  public async addGroupParticipants(groupJid: GroupJid | string, participants: Array<UserJid | string>, options?: WasenderRequestOptions): Promise<ModifyGroupParticipantsResult> {
     if (!groupJid) {
-      throw new WasenderAPIError("Group JID is required.", 400);
+      throw new WasenderValidationError("Group JID is required.", undefined, 400);
     }
     if (!participants || participants.length === 0) {
-      throw new WasenderAPIError("Participants array cannot be null or empty.", 400);
+      throw new WasenderValidationError("Participants array cannot be null or empty.", undefined, 400);
     }
-    const payload: ModifyGroupParticipantsPayload = { participants };
+    const payload: ModifyGroupParticipantsPayload = {
+      participants: participants.map(participant => this.normalizePhone(participant, "participants", "digits")),
+    };
     return this.postInternal<ModifyGroupParticipantsPayload, ModifyGroupParticipantsResponse>(
       `/groups/${groupJid}/participants/add`,
-      payload
+      payload,
+      options
     );
   }
 
@@ -550,20 +1412,24 @@ export class Wasender {
    * Removes participants from a specific group. Requires admin privileges in the group.
    * @param groupJid The JID of the group.
    * @param participants An array of participant JIDs (E.164 format phone numbers) to remove.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
    * @returns A promise that resolves to the action status for each participant and rate limit information.
    * @throws WasenderAPIError if the request fails.
    */
-  public async removeGroupParticipants(groupJid: string, participants: string[]): Promise<ModifyGroupParticipantsResult> {
+  public async removeGroupParticipants(groupJid: GroupJid | string, participants: Array<UserJid | string>, options?: WasenderRequestOptions): Promise<ModifyGroupParticipantsResult> {
     if (!groupJid) {
-      throw new WasenderAPIError("Group JID is required.", 400);
+      throw new WasenderValidationError("Group JID is required.", undefined, 400);
     }
     if (!participants || participants.length === 0) {
-      throw new WasenderAPIError("Participants array cannot be null or empty.", 400);
+      throw new WasenderValidationError("Participants array cannot be null or empty.", undefined, 400);
     }
-    const payload: ModifyGroupParticipantsPayload = { participants };
+    const payload: ModifyGroupParticipantsPayload = {
+      participants: participants.map(participant => this.normalizePhone(participant, "participants", "digits")),
+    };
     return this.postInternal<ModifyGroupParticipantsPayload, ModifyGroupParticipantsResponse>(
       `/groups/${groupJid}/participants/remove`,
-      payload
+      payload,
+      options
     );
   }
 
@@ -571,19 +1437,21 @@ export class Wasender {
    * Updates settings for a specific group.
    * @param groupJid The JID of the group.
    * @param settings An object containing the settings to update (e.g., subject, description, announce, restrict).
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
    * @returns A promise that resolves to the updated group settings information and rate limit information.
    * @throws WasenderAPIError if the request fails.
    */
-  public async updateGroupSettings(groupJid: string, settings: UpdateGroupSettingsPayload): Promise<UpdateGroupSettingsResult> {
+  public async updateGroupSettings(groupJid: GroupJid | string, settings: UpdateGroupSettingsPayload, options?: WasenderRequestOptions): Promise<UpdateGroupSettingsResult> {
     if (!groupJid) {
-      throw new WasenderAPIError("Group JID is required.", 400);
+      throw new WasenderValidationError("Group JID is required.", undefined, 400);
     }
     if (Object.keys(settings).length === 0) {
-        throw new WasenderAPIError("Settings object cannot be empty.", 400);
+        throw new WasenderValidationError("Settings object cannot be empty.", undefined, 400);
     }
     return this.putInternal<UpdateGroupSettingsPayload, UpdateGroupSettingsResponse>(
       `/groups/${groupJid}/settings`,
-      settings
+      settings,
+      options
     );
   }
 
@@ -591,124 +1459,137 @@ export class Wasender {
 
   /**
    * Retrieves a list of all WhatsApp sessions available to the authenticated user.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
    * @returns A promise that resolves to the list of WhatsApp sessions and rate limit information.
    * @throws WasenderAPIError if the request fails.
    */
-  public async getAllWhatsAppSessions(): Promise<GetAllWhatsAppSessionsResult> {
-    return this.getInternal<GetAllWhatsAppSessionsResponse>("/whatsapp-sessions");
+  public async getAllWhatsAppSessions(options?: WasenderRequestOptions): Promise<GetAllWhatsAppSessionsResult> {
+    return this.getInternal<GetAllWhatsAppSessionsResponse>("/whatsapp-sessions", options);
   }
 
   /**
    * Creates a new WhatsApp session.
    * @param payload Details for the new session.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
    * @returns A promise that resolves to the created session information and rate limit information.
    * @throws WasenderAPIError if the request fails.
    */
-  public async createWhatsAppSession(payload: CreateWhatsAppSessionPayload): Promise<CreateWhatsAppSessionResult> {
-    return this.postInternal<CreateWhatsAppSessionPayload, CreateWhatsAppSessionResponse>("/whatsapp-sessions", payload);
+  public async createWhatsAppSession(payload: CreateWhatsAppSessionPayload, options?: WasenderRequestOptions): Promise<CreateWhatsAppSessionResult> {
+    payload = { ...payload, phone_number: this.normalizePhone(payload.phone_number, "phone_number", "e164") };
+    return this.postInternal<CreateWhatsAppSessionPayload, CreateWhatsAppSessionResponse>("/whatsapp-sessions", payload, options);
   }
 
   /**
    * Retrieves details for a specific WhatsApp session.
    * @param sessionId ID of the WhatsApp session.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
    * @returns A promise that resolves to the session details and rate limit information.
    * @throws WasenderAPIError if the request fails.
    */
-  public async getWhatsAppSessionDetails(sessionId: number): Promise<GetWhatsAppSessionDetailsResult> {
-    if (!sessionId) throw new WasenderAPIError("Session ID is required.", 400);
-    return this.getInternal<GetWhatsAppSessionDetailsResponse>(`/whatsapp-sessions/${sessionId}`);
+  public async getWhatsAppSessionDetails(sessionId: number, options?: WasenderRequestOptions): Promise<GetWhatsAppSessionDetailsResult> {
+    if (!sessionId) throw new WasenderValidationError("Session ID is required.", undefined, 400);
+    return this.getInternal<GetWhatsAppSessionDetailsResponse>(`/whatsapp-sessions/${sessionId}`, options);
   }
 
   /**
    * Updates details for a specific WhatsApp session.
    * @param sessionId ID of the WhatsApp session.
    * @param payload Fields to update.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
    * @returns A promise that resolves to the updated session details and rate limit information.
    * @throws WasenderAPIError if the request fails.
    */
-  public async updateWhatsAppSession(sessionId: number, payload: UpdateWhatsAppSessionPayload): Promise<UpdateWhatsAppSessionResult> {
-    if (!sessionId) throw new WasenderAPIError("Session ID is required.", 400);
-    if (Object.keys(payload).length === 0) throw new WasenderAPIError("Update payload cannot be empty.", 400);
-    return this.putInternal<UpdateWhatsAppSessionPayload, UpdateWhatsAppSessionResponse>(`/whatsapp-sessions/${sessionId}`, payload);
+  public async updateWhatsAppSession(sessionId: number, payload: UpdateWhatsAppSessionPayload, options?: WasenderRequestOptions): Promise<UpdateWhatsAppSessionResult> {
+    if (!sessionId) throw new WasenderValidationError("Session ID is required.", undefined, 400);
+    if (Object.keys(payload).length === 0) throw new WasenderValidationError("Update payload cannot be empty.", undefined, 400);
+    if (payload.phone_number) payload = { ...payload, phone_number: this.normalizePhone(payload.phone_number, "phone_number", "e164") };
+    return this.putInternal<UpdateWhatsAppSessionPayload, UpdateWhatsAppSessionResponse>(`/whatsapp-sessions/${sessionId}`, payload, options);
   }
 
   /**
    * Deletes a specific WhatsApp session.
    * @param sessionId ID of the WhatsApp session.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
    * @returns A promise that resolves to the deletion confirmation and rate limit information.
    * @throws WasenderAPIError if the request fails.
    */
-  public async deleteWhatsAppSession(sessionId: number): Promise<DeleteWhatsAppSessionResult> {
-    if (!sessionId) throw new WasenderAPIError("Session ID is required.", 400);
-    return this.deleteInternal<DeleteWhatsAppSessionResponse>(`/whatsapp-sessions/${sessionId}`);
+  public async deleteWhatsAppSession(sessionId: number, options?: WasenderRequestOptions): Promise<DeleteWhatsAppSessionResult> {
+    if (!sessionId) throw new WasenderValidationError("Session ID is required.", undefined, 400);
+    return this.deleteInternal<DeleteWhatsAppSessionResponse>(`/whatsapp-sessions/${sessionId}`, options);
   }
 
   /**
    * Initiates the connection process for a WhatsApp session.
    * @param sessionId ID of the WhatsApp session.
    * @param qrAsImage Optional. If true, requests the QR code as an image in the response.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
    * @returns A promise that resolves to the connection status (e.g., QR code) and rate limit information.
    * @throws WasenderAPIError if the request fails.
    */
-  public async connectWhatsAppSession(sessionId: number, qrAsImage?: boolean): Promise<ConnectSessionResult> {
-    if (!sessionId) throw new WasenderAPIError("Session ID is required.", 400);
+  public async connectWhatsAppSession(sessionId: number, qrAsImage?: boolean, options?: WasenderRequestOptions): Promise<ConnectSessionResult> {
+    if (!sessionId) throw new WasenderValidationError("Session ID is required.", undefined, 400);
     const payload: ConnectSessionPayload | null = qrAsImage !== undefined ? { qr_as_image: qrAsImage } : null;
     return this.postInternal<ConnectSessionPayload | null, ConnectSessionResponse>(
         `/whatsapp-sessions/${sessionId}/connect`,
-        payload
+        payload,
+        options
     );
   }
 
   /**
    * Retrieves the QR code for connecting a WhatsApp session.
    * @param sessionId ID of the WhatsApp session.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
    * @returns A promise that resolves to the QR code data and rate limit information.
    * @throws WasenderAPIError if the request fails.
    */
-  public async getWhatsAppSessionQRCode(sessionId: number): Promise<GetQRCodeResult> {
-    if (!sessionId) throw new WasenderAPIError("Session ID is required.", 400);
-    return this.getInternal<GetQRCodeResponse>(`/whatsapp-sessions/${sessionId}/qrcode`);
+  public async getWhatsAppSessionQRCode(sessionId: number, options?: WasenderRequestOptions): Promise<GetQRCodeResult> {
+    if (!sessionId) throw new WasenderValidationError("Session ID is required.", undefined, 400);
+    return this.getInternal<GetQRCodeResponse>(`/whatsapp-sessions/${sessionId}/qrcode`, options);
   }
 
   /**
    * Disconnects an active WhatsApp session.
    * @param sessionId ID of the WhatsApp session.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
    * @returns A promise that resolves to the disconnection status and rate limit information.
    * @throws WasenderAPIError if the request fails.
    */
-  public async disconnectWhatsAppSession(sessionId: number): Promise<DisconnectSessionResult> {
-    if (!sessionId) throw new WasenderAPIError("Session ID is required.", 400);
-    return this.postInternal<null, DisconnectSessionResponse>(`/whatsapp-sessions/${sessionId}/disconnect`, null);
+  public async disconnectWhatsAppSession(sessionId: number, options?: WasenderRequestOptions): Promise<DisconnectSessionResult> {
+    if (!sessionId) throw new WasenderValidationError("Session ID is required.", undefined, 400);
+    return this.postInternal<null, DisconnectSessionResponse>(`/whatsapp-sessions/${sessionId}/disconnect`, null, options);
   }
 
   /**
    * Regenerates the API key for a specific WhatsApp session.
    * Note: The response structure for this endpoint is unique.
    * @param sessionId ID of the WhatsApp session.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
    * @returns A promise that resolves to the new API key and rate limit information.
    * @throws WasenderAPIError if the request fails.
    */
-  public async regenerateApiKey(sessionId: number): Promise<RegenerateApiKeyResult> {
-    if (!sessionId) throw new WasenderAPIError("Session ID is required.", 400);
+  public async regenerateApiKey(sessionId: number, options?: WasenderRequestOptions): Promise<RegenerateApiKeyResult> {
+    if (!sessionId) throw new WasenderValidationError("Session ID is required.", undefined, 400);
     // This request method will need special handling for the response type if it deviates significantly
     // from WasenderSuccessResponse, especially in error scenarios if they also don\'t fit WasenderErrorResponse.
     // For now, assuming success fits RegenerateApiKeyResponse and errors fit WasenderAPIError.
-    return this.request<RegenerateApiKeyResponse>("POST", `/whatsapp-sessions/${sessionId}/regenerate-key`, {});
+    return this.request<RegenerateApiKeyResponse>("POST", `/whatsapp-sessions/${sessionId}/regenerate-key`, {}, options);
   }
 
   /**
    * Retrieves the current status of the WhatsApp session associated with the API key.
    * Note: The response structure for this endpoint is unique and does not include a session ID.
+   * @param options Optional per-call settings such as an abort `signal` or `timeoutMs`.
    * @returns A promise that resolves to the session status. Rate limiting may or may not apply as per API docs.
    * @throws WasenderAPIError if the request fails.
    */
-  public async getSessionStatus(): Promise<GetSessionStatusResult> {
+  public async getSessionStatus(options?: WasenderRequestOptions): Promise<GetSessionStatusResult> {
     // This is a special case. The response isn\'t wrapped in `data` and `success` fields.
     // The generic `request` method will need to be aware of this, or we use fetchImpl directly.
     // For now, we will assume `request` can handle it based on path or a new parameter.
     // The `GetSessionStatusResponse` is `{ status: "..." }`.
     // If rate limits are returned, `GetSessionStatusResult` includes `RateLimitInfo`.
-    const result = await this.request<GetSessionStatusResponse>("GET", "/status");
+    const result = await this.request<GetSessionStatusResponse>("GET", "/status", null, options);
     return result as GetSessionStatusResult; // Casting, assuming rateLimitInfo is part of the raw result from request
   }
 
@@ -717,16 +1598,18 @@ export class Wasender {
    * Verifies and parses an incoming Wasender webhook event.
    * @param request An object that adapts your HTTP framework's request, providing methods to get headers and the raw body.
    * @returns A promise that resolves to the parsed WasenderWebhookEvent.
-   * @throws WasenderAPIError if the webhook secret is not configured in the SDK, if the signature is invalid, or if the body cannot be parsed.
+   * @throws WasenderConfigError if the webhook secret is not configured in the SDK.
+   * @throws WasenderWebhookSignatureError if the signature is invalid.
+   * @throws WasenderValidationError if the body cannot be read or parsed.
    */
   public async handleWebhookEvent(request: WebhookRequestAdapter): Promise<WasenderWebhookEvent> {
     if (!this.configuredWebhookSecret) {
-      throw new WasenderAPIError("Webhook secret is not configured in the Wasender SDK instance. Cannot verify signature.");
+      throw new WasenderConfigError("Webhook secret is not configured in the Wasender SDK instance. Cannot verify signature.");
     }
 
     const signature = request.getHeader(WEBHOOK_SIGNATURE_HEADER);
     if (!verifyWasenderWebhookSignature(signature, this.configuredWebhookSecret)) {
-      throw new WasenderAPIError("Invalid webhook signature.", 401); // Using 401 for unauthorized
+      throw new WasenderWebhookSignatureError();
     }
 
     let rawBody: string;
@@ -735,7 +1618,7 @@ export class Wasender {
       rawBody = typeof bodyPromiseOrString === 'string' ? bodyPromiseOrString : await bodyPromiseOrString;
     } catch (err) {
         const message = err instanceof Error ? err.message : "Unknown error";
-      throw new WasenderAPIError(`Failed to get raw body for webhook: ${message}`);
+      throw new WasenderValidationError(`Failed to get raw body for webhook: ${message}`, undefined, 400);
     }
 
     try {
@@ -743,17 +1626,35 @@ export class Wasender {
       return parsedEvent;
     } catch (err) {
         const message = err instanceof Error ? err.message : "Unknown error";
-      throw new WasenderAPIError(`Failed to parse webhook JSON body: ${message}`);
+      throw new WasenderValidationError(`Failed to parse webhook JSON body: ${message}`, undefined, 400);
     }
   }
 }
 
 // ---------- Example Helper Factory ----------
-export const createWasender = (
+/**
+ * Creates a new Wasender client. Accepts either a `WasenderOptions` object or
+ * the legacy positional arguments.
+ */
+export function createWasender(options: WasenderOptions): Wasender;
+export function createWasender(
     apiKey: string | undefined,
     personalAccessToken?: string,
-    baseUrl?: string, 
+    baseUrl?: string,
     fetchImplementation?: FetchImplementation,
     retryOptions?: RetryConfig,
-    webhookSecret?: string 
-): Wasender => new Wasender(apiKey, personalAccessToken, baseUrl, fetchImplementation, retryOptions, webhookSecret);
+    webhookSecret?: string
+): Wasender;
+export function createWasender(
+    apiKeyOrOptions: string | undefined | WasenderOptions,
+    personalAccessToken?: string,
+    baseUrl?: string,
+    fetchImplementation?: FetchImplementation,
+    retryOptions?: RetryConfig,
+    webhookSecret?: string
+): Wasender {
+    if (typeof apiKeyOrOptions === "object" && apiKeyOrOptions !== null) {
+        return new Wasender(apiKeyOrOptions);
+    }
+    return new Wasender(apiKeyOrOptions, personalAccessToken, baseUrl, fetchImplementation, retryOptions, webhookSecret);
+}
@@ -0,0 +1,381 @@
+/*
+ * Wasender TypeScript SDK - Media Sources
+ * Reads media given as bytes, blobs, streams or local files, infers file names and MIME types,
+ * enforces the documented per-type size limits, and validates media types before sending.
+ */
+
+import { WasenderValidationError } from "./errors.ts";
+import type { RateLimitInfo, WasenderSuccessResponse } from "./messages.ts";
+
+/** Media types that can be sent from a URL or uploaded from memory. */
+export type MediaKind = "image" | "video" | "document" | "audio" | "sticker";
+
+/** Raw media content: a Node.js `Buffer`, any byte array, a `Blob`/`File`, a web stream or a Node.js readable stream. */
+export type MediaData =
+  | Uint8Array
+  | ArrayBuffer
+  | Blob
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array | string>;
+
+/**
+ * Media accepted by the send helpers in place of a public URL. It is uploaded to Wasender before sending.
+ * Wrap the content in an object to provide a file name or MIME type explicitly.
+ */
+export type MediaSource =
+  | MediaData
+  | { data: MediaData; fileName?: string; mimeType?: string }
+  | { path: string; fileName?: string; mimeType?: string };
+
+/**
+ * A message payload (without `messageType`) whose media URL field `K` may also be a `MediaSource` to upload.
+ */
+export type WithMediaSource<T, K extends keyof T> = Omit<T, K | "messageType"> & { [P in K]: string | MediaSource };
+
+/** Response of the media upload endpoint. */
+export interface UploadMediaResponse extends WasenderSuccessResponse {
+  /** Public URL of the uploaded file, usable as a media URL in messages. */
+  publicUrl: string;
+}
+
+export interface UploadMediaResult {
+  response: UploadMediaResponse;
+  rateLimit?: RateLimitInfo;
+  /** File name inferred for the upload, if any. */
+  fileName?: string;
+  /** MIME type the media was uploaded as. */
+  mimeType: string;
+}
+
+/** Maximum sizes in bytes, as documented for each message type. */
+export const MEDIA_SIZE_LIMITS: Readonly<Record<MediaKind, number>> = {
+  image: 5 * 1024 * 1024,
+  video: 16 * 1024 * 1024,
+  document: 100 * 1024 * 1024,
+  audio: 16 * 1024 * 1024,
+  sticker: 100 * 1024,
+};
+
+/** MIME types accepted for each message type, as documented. `null` means any type is accepted. */
+export const MEDIA_MIME_TYPES: Readonly<Record<MediaKind, readonly string[] | null>> = {
+  image: ["image/jpeg", "image/png"],
+  video: ["video/mp4", "video/3gpp"],
+  document: null,
+  audio: ["audio/aac", "audio/mp4", "audio/mpeg", "audio/ogg", "audio/amr"],
+  sticker: ["image/webp"],
+};
+
+/** Media read into memory, ready to be encoded and uploaded. */
+export interface LoadedMedia {
+  bytes: Uint8Array;
+  fileName?: string;
+  mimeType: string;
+}
+
+const MIME_TYPES_BY_EXTENSION: Readonly<Record<string, string>> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  mp4: "video/mp4",
+  "3gp": "video/3gpp",
+  aac: "audio/aac",
+  mp3: "audio/mpeg",
+  ogg: "audio/ogg",
+  opus: "audio/ogg",
+  amr: "audio/amr",
+  pdf: "application/pdf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ppt: "application/vnd.ms-powerpoint",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  txt: "text/plain",
+  csv: "text/csv",
+  zip: "application/zip",
+};
+
+const DEFAULT_MIME_TYPE = "application/octet-stream";
+
+/** Content types servers send when they do not know the type; they say nothing about the media. */
+const GENERIC_MIME_TYPES = ["application/octet-stream", "binary/octet-stream"];
+
+/** Looks up a MIME type from a file name's extension. */
+export function mimeTypeFromFileName(fileName: string): string | undefined {
+  const extension = fileName.split(".").pop();
+  return extension && extension !== fileName ? MIME_TYPES_BY_EXTENSION[extension.toLowerCase()] : undefined;
+}
+
+/** Detects common media formats from their leading bytes. */
+export function sniffMimeType(bytes: Uint8Array): string | undefined {
+  const ascii = (start: number, length: number) => String.fromCharCode(...bytes.subarray(start, start + length));
+  const startsWith = (...signature: number[]) => signature.every((byte, i) => bytes[i] === byte);
+
+  if (startsWith(0xff, 0xd8, 0xff)) return "image/jpeg";
+  if (startsWith(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)) return "image/png";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 4) === "WEBP") return "image/webp";
+  if (ascii(0, 4) === "GIF8") return "image/gif";
+  if (ascii(4, 4) === "ftyp") {
+    const brand = ascii(8, 4);
+    if (brand.startsWith("3gp")) return "video/3gpp";
+    return brand === "M4A " ? "audio/mp4" : "video/mp4";
+  }
+  if (ascii(0, 5) === "#!AMR") return "audio/amr";
+  if (ascii(0, 4) === "OggS") return "audio/ogg";
+  if (ascii(0, 3) === "ID3" || (bytes[0] === 0xff && bytes.length > 1 && (bytes[1] & 0xe6) === 0xe2)) return "audio/mpeg";
+  if (bytes[0] === 0xff && bytes.length > 1 && (bytes[1] & 0xf6) === 0xf0) return "audio/aac";
+  if (ascii(0, 5) === "%PDF-") return "application/pdf";
+  if (startsWith(0x50, 0x4b, 0x03, 0x04)) return "application/zip";
+  return undefined;
+}
+
+/**
+ * Reads a media source into memory and infers its file name and MIME type.
+ * An explicit `mimeType` wins, then the Blob type, the file name extension, and finally the content itself.
+ * @param kind Message type the media will be sent as; selects the size limit.
+ * @throws WasenderValidationError if the media is empty or larger than the limit for `kind`.
+ */
+export async function loadMediaSource(source: MediaSource, kind: MediaKind): Promise<LoadedMedia> {
+  const maxBytes = MEDIA_SIZE_LIMITS[kind];
+  let data: MediaData | undefined;
+  let fileName: string | undefined;
+  let mimeType: string | undefined;
+
+  if (isPathSource(source)) {
+    const { readFile, stat } = await import("node:fs/promises");
+    const { size } = await stat(source.path);
+    assertWithinLimit(size, kind, maxBytes);
+    data = new Uint8Array(await readFile(source.path));
+    fileName = source.fileName ?? source.path.split(/[\\/]/).pop();
+    mimeType = source.mimeType;
+  } else if (isDataSource(source)) {
+    data = source.data;
+    fileName = source.fileName;
+    mimeType = source.mimeType;
+  } else {
+    data = source;
+  }
+
+  if (typeof Blob !== "undefined" && data instanceof Blob) {
+    mimeType ??= data.type || undefined;
+    fileName ??= (data as Blob & { name?: string }).name || undefined;
+  }
+  const bytes = await readMediaData(data, kind, maxBytes);
+  if (bytes.byteLength === 0) {
+    throw new WasenderValidationError(`The ${kind} is empty.`, undefined, 400);
+  }
+
+  return {
+    bytes,
+    fileName,
+    mimeType: mimeType ?? (fileName ? mimeTypeFromFileName(fileName) : undefined) ?? sniffMimeType(bytes) ?? DEFAULT_MIME_TYPE,
+  };
+}
+
+const MIME_TYPE_ALIASES: Readonly<Record<string, string>> = {
+  "image/jpg": "image/jpeg",
+  "image/pjpeg": "image/jpeg",
+  "audio/mp3": "audio/mpeg",
+  "audio/x-aac": "audio/aac",
+  "audio/x-m4a": "audio/mp4",
+  "audio/m4a": "audio/mp4",
+  "audio/opus": "audio/ogg",
+  "video/3gp": "video/3gpp",
+};
+
+/** Lowercases a MIME type, strips parameters such as `; charset=...`, and maps common aliases. */
+export function normalizeMimeType(mimeType: string): string {
+  const base = mimeType.split(";")[0].trim().toLowerCase();
+  return MIME_TYPE_ALIASES[base] ?? base;
+}
+
+/** Name of the payload field holding the media URL for a message type (e.g., 'imageUrl'). */
+export function mediaUrlField(kind: MediaKind): string {
+  return `${kind}Url`;
+}
+
+/**
+ * Checks a detected MIME type against the types documented for `kind`.
+ * @throws WasenderValidationError if the type is missing or not accepted for `kind`.
+ */
+export function assertMediaType(kind: MediaKind, mimeType: string | undefined): void {
+  const allowed = MEDIA_MIME_TYPES[kind];
+  if (!allowed) return;
+  const normalized = mimeType ? normalizeMimeType(mimeType) : undefined;
+  if (normalized && allowed.includes(normalized)) return;
+  const message = `The ${kind} ${normalized ? `is ${normalized}` : "has an unrecognised type"}; ${kind} messages accept ${allowed.join(", ")}.`;
+  throw new WasenderValidationError(message, { [mediaUrlField(kind)]: [message] }, 400);
+}
+
+/**
+ * Validates in-memory media against the documented type for `kind`, based on its content.
+ * @throws WasenderValidationError if the content is not an accepted type.
+ */
+export function validateLoadedMedia(kind: MediaKind, media: LoadedMedia): void {
+  assertMediaType(kind, sniffMimeType(media.bytes) ?? media.mimeType);
+}
+
+/**
+ * Validates media at a URL before it is sent, using the injected fetch implementation.
+ * Issues a HEAD request and, when that does not reveal the type and size, a ranged GET for the first bytes.
+ * A generic Content-Type such as `application/octet-stream` does not reveal the type.
+ * Media that cannot be inspected (unreachable URL, no headers) is let through for the API to judge.
+ * @throws WasenderValidationError if the media is larger than the limit for `kind` or not an accepted type.
+ */
+export async function validateMediaUrl(
+  url: string,
+  kind: MediaKind,
+  fetchImpl: (input: string, init?: RequestInit) => Promise<Response>,
+  signal?: AbortSignal
+): Promise<void> {
+  let mimeType: string | undefined;
+  let size: number | undefined;
+
+  try {
+    const head = await fetchImpl(url, { method: "HEAD", signal });
+    if (head.ok) {
+      mimeType = specificContentType(head.headers);
+      size = parseContentLength(head.headers.get("Content-Length"));
+    }
+  } catch {
+    // Fall through to the ranged GET.
+  }
+
+  if (mimeType === undefined || size === undefined) {
+    try {
+      const ranged = await fetchImpl(url, { method: "GET", headers: { Range: "bytes=0-63" }, signal });
+      if (ranged.ok) {
+        const totalFromRange = ranged.headers.get("Content-Range")?.match(/\/(\d+)\s*$/)?.[1];
+        size ??= totalFromRange !== undefined
+          ? Number(totalFromRange)
+          : ranged.status === 200 ? parseContentLength(ranged.headers.get("Content-Length")) : undefined;
+        const leadingBytes = await readLeadingBytes(ranged, 64);
+        mimeType = (leadingBytes && sniffMimeType(leadingBytes)) ?? mimeType ?? specificContentType(ranged.headers);
+      }
+    } catch {
+      // Not inspectable; leave the decision to the API.
+    }
+  }
+
+  if (size !== undefined) {
+    assertWithinLimit(size, kind, MEDIA_SIZE_LIMITS[kind]);
+  }
+  if (mimeType !== undefined) {
+    assertMediaType(kind, mimeType);
+  }
+}
+
+function specificContentType(headers: Headers): string | undefined {
+  const contentType = headers.get("Content-Type");
+  return contentType && !GENERIC_MIME_TYPES.includes(normalizeMimeType(contentType)) ? contentType : undefined;
+}
+
+function parseContentLength(value: string | null): number | undefined {
+  if (value === null || value.trim() === "") return undefined;
+  const length = Number(value);
+  return Number.isFinite(length) && length >= 0 ? length : undefined;
+}
+
+/** Reads at most `limit` bytes of a response body, cancelling the rest if the server ignored the Range header. */
+async function readLeadingBytes(response: Response, limit: number): Promise<Uint8Array | undefined> {
+  if (response.body && typeof response.body.getReader === "function") {
+    const reader = response.body.getReader();
+    const { value } = await reader.read();
+    await reader.cancel().catch(() => {});
+    return value?.subarray(0, limit);
+  }
+  if (typeof response.arrayBuffer === "function") {
+    return new Uint8Array(await response.arrayBuffer()).subarray(0, limit);
+  }
+  return undefined;
+}
+
+/** Encodes media as a base64 `data:` URI. */
+export function toDataUri(bytes: Uint8Array, mimeType: string): string {
+  const nodeBuffer = (globalThis as { Buffer?: { from(data: Uint8Array): { toString(encoding: string): string } } }).Buffer;
+  if (nodeBuffer) {
+    return `data:${mimeType};base64,${nodeBuffer.from(bytes).toString("base64")}`;
+  }
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+function isPathSource(source: MediaSource): source is { path: string; fileName?: string; mimeType?: string } {
+  return typeof source === "object" && source !== null && typeof (source as { path?: unknown }).path === "string";
+}
+
+function isDataSource(source: MediaSource): source is { data: MediaData; fileName?: string; mimeType?: string } {
+  return typeof source === "object" && source !== null && "data" in source && !(typeof Blob !== "undefined" && source instanceof Blob);
+}
+
+function assertWithinLimit(size: number, kind: MediaKind, maxBytes: number): void {
+  if (size > maxBytes) {
+    const message = `The ${kind} is ${formatBytes(size)}, which exceeds the ${formatBytes(maxBytes)} limit for ${kind} messages.`;
+    throw new WasenderValidationError(message, { [mediaUrlField(kind)]: [message] }, 400);
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${+(bytes / (1024 * 1024)).toFixed(1)}MB`;
+  if (bytes >= 1024) return `${+(bytes / 1024).toFixed(1)}KB`;
+  return `${bytes}B`;
+}
+
+/** Collects media data into a single byte array, failing as soon as it exceeds `maxBytes`. */
+async function readMediaData(data: MediaData, kind: MediaKind, maxBytes: number): Promise<Uint8Array> {
+  if (data instanceof Uint8Array) {
+    assertWithinLimit(data.byteLength, kind, maxBytes);
+    return data;
+  }
+  if (data instanceof ArrayBuffer) {
+    assertWithinLimit(data.byteLength, kind, maxBytes);
+    return new Uint8Array(data);
+  }
+  if (typeof Blob !== "undefined" && data instanceof Blob) {
+    assertWithinLimit(data.size, kind, maxBytes);
+    return new Uint8Array(await data.arrayBuffer());
+  }
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  const push = (chunk: Uint8Array | string) => {
+    const bytes = typeof chunk === "string" ? new TextEncoder().encode(chunk) : chunk;
+    total += bytes.byteLength;
+    assertWithinLimit(total, kind, maxBytes);
+    chunks.push(bytes);
+  };
+
+  if ("getReader" in data && typeof data.getReader === "function") {
+    const reader = data.getReader();
+    try {
+      // eslint-disable-next-line no-constant-condition
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        push(value);
+      }
+    } catch (error) {
+      await reader.cancel().catch(() => {});
+      throw error;
+    } finally {
+      reader.releaseLock();
+    }
+  } else {
+    for await (const chunk of data as AsyncIterable<Uint8Array | string>) {
+      push(chunk);
+    }
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
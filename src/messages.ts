@@ -3,12 +3,23 @@
  * Defines the structure for various message payloads, API success responses, and rate limit info.
  */
 
+import type { Jid, UserJid } from "./jid.ts";
+import type { MessageKey } from "./webhook.ts";
+import type { VCardContact } from "./vcard.ts";
+
 // Common base interface for all message types - used internally for structure
 export interface BaseMessage {
   /** Recipient phone number in E.164 format, Group JID, or Community Channel JID. */
-  to: string;
+  to: Jid | string;
   /** Optional caption or message text. Rules vary by message type. */
   text?: string;
+  /** Key of the message to quote, e.g. `event.data.key` of a `messages.upsert` event. The message is sent as a reply to it. */
+  quoted?: MessageKey;
+  /**
+   * JIDs or phone numbers of the users @mentioned in `text`. WhatsApp only highlights mentions of users listed here.
+   * `FormattedText.mentions` from the formatting helpers can be passed as is.
+   */
+  mentions?: ReadonlyArray<UserJid | string>;
 }
 
 // ---------- Discriminated Union for Message Payloads ----------
@@ -37,6 +48,8 @@ export interface DocumentUrlMessage extends BaseMessage {
   messageType: 'document';
   /** URL of the document to send. Supports PDF, DOCX, XLSX, etc. Max size: 100MB. */
   documentUrl: string;
+  /** Optional file name shown to the recipient. */
+  fileName?: string;
   // `text` (caption) is optional for document messages
 }
 
@@ -60,12 +73,20 @@ export interface ContactCardPayload {
   name: string;
   /** Phone number for the contact. */
   phone: string;
+  /** Full vCard of the contact. Set by the SDK when a rich contact or raw vCard is sent. */
+  vcard?: string;
 }
 
+/**
+ * A contact to share: `{ name, phone }`, a rich `VCardContact` with several numbers, emails and more,
+ * or a raw vCard 3.0/4.0 string.
+ */
+export type ContactCardInput = ContactCardPayload | VCardContact | string;
+
 export interface ContactCardMessage extends BaseMessage {
   messageType: 'contact';
-  /** Contact card object. */
-  contact: ContactCardPayload;
+  /** Contact card, or several cards to share in one message. */
+  contact: ContactCardInput | ContactCardInput[];
   // `text` (caption) is optional
 }
 
@@ -87,6 +108,22 @@ export interface LocationPinMessage extends BaseMessage {
   // `text` (caption) is optional
 }
 
+export interface PollPayload {
+  /** The question shown above the options. */
+  question: string;
+  /** The answer options, 2 to 12 distinct strings. */
+  options: string[];
+  /** How many options a voter may select, from 1 (single choice, the default) to the number of options. */
+  selectableCount?: number;
+}
+
+export interface PollMessage extends BaseMessage {
+  messageType: 'poll';
+  /** Poll object. */
+  poll: PollPayload;
+  // `text` is not used; the question is part of `poll`
+}
+
 /** Union of all specific message payload types. Use this for the generic `send` method. */
 export type WasenderMessagePayload =
   | TextOnlyMessage
@@ -96,7 +133,13 @@ export type WasenderMessagePayload =
   | AudioUrlMessage
   | StickerUrlMessage
   | ContactCardMessage
-  | LocationPinMessage;
+  | LocationPinMessage
+  | PollMessage;
+
+/** A message payload without a recipient or quote, as taken by `Wasender.reply()`. */
+export type ReplyPayload = WasenderMessagePayload extends infer P
+  ? P extends WasenderMessagePayload ? Omit<P, "to" | "quoted"> : never
+  : never;
 
 // Re-exporting old types for a brief transition or if specific send methods are kept with old signatures (less ideal)
 // It's better to update send methods to use the new discriminated union types directly.
@@ -110,6 +153,7 @@ export type ContactMessage = ContactCardMessage;
 export type LocationMessage = LocationPinMessage;
 export type ContactCard = ContactCardPayload;
 export type LocationPin = LocationPinPayload;
+export type Poll = PollPayload;
 
 
 // ---------- API Success Response & Rate Limit Types ----------
@@ -140,4 +184,50 @@ export interface WasenderSendResult {
   response: WasenderSuccessResponse;
   /** Optional. Rate limit information from the API response. May be undefined if not applicable or not provided by the server. */
   rateLimit?: RateLimitInfo;
+  /** The idempotency key sent with the request, if any. */
+  idempotencyKey?: string;
+}
+
+// ---------- Message Actions ----------
+
+/** Body of a reaction request. An empty `reaction` removes the reaction. */
+export interface ReactionPayload {
+  /** Key of the message to react to. */
+  key: MessageKey;
+  /** A single emoji, or '' to remove the reaction. */
+  reaction: string;
+}
+
+/** Body of an edit request. */
+export interface EditMessagePayload {
+  /** Key of the message to edit. Only messages sent by the session (`fromMe`) can be edited. */
+  key: MessageKey;
+  /** The new text of the message. */
+  text: string;
+}
+
+/** Options for `Wasender.deleteMessage()`. */
+export interface DeleteMessageOptions {
+  /**
+   * Deletes the message for all participants instead of only in the session's own chat.
+   * Group admins may delete other members' messages for everyone. Defaults to false.
+   */
+  forEveryone?: boolean;
+}
+
+/** Body of a delete request. */
+export interface DeleteMessagePayload {
+  /** Key of the message to delete. */
+  key: MessageKey;
+  forEveryone: boolean;
+}
+
+/** Response to a reaction, edit or deletion. */
+export type MessageActionResponse = WasenderSuccessResponse;
+
+/** Combined result for a reaction, edit or deletion. */
+export interface MessageActionResult {
+  response: MessageActionResponse;
+  /** Optional. Rate limit information from the API response. May be undefined if not applicable or not provided by the server. */
+  rateLimit?: RateLimitInfo;
 }
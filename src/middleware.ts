@@ -0,0 +1,141 @@
+/*
+ * Wasender TypeScript SDK - Middleware
+ * Defines the middleware pipeline wrapping every HTTP exchange made by the client,
+ * and the built-in middleware for header injection, timing and logging.
+ */
+
+import type { RateLimitInfo } from "./messages.ts";
+import type { HttpMethod } from "./retry.ts";
+import type { Logger } from "./logger.ts";
+
+/**
+ * Mutable state of a single HTTP exchange (one attempt) as it passes through the middleware chain.
+ * Request fields can be changed before calling `next()`; response fields are populated once `next()` resolves.
+ */
+export interface MiddlewareContext {
+  /** HTTP method of the request. */
+  method: HttpMethod;
+  /** Base URL the path is appended to. Rewrite it to route a request elsewhere. */
+  baseUrl: string;
+  /** Path relative to the base URL (e.g., '/send-message'). */
+  path: string;
+  /** Request headers. */
+  headers: Record<string, string>;
+  /** JSON request body for POST and PUT requests. */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  body: Record<string, any> | null;
+  /** 1-based attempt number (greater than 1 on retries). */
+  readonly attempt: number;
+  /** Aborted when the caller cancels or the attempt times out. */
+  readonly signal: AbortSignal;
+  /** Raw HTTP response, once received. */
+  response?: globalThis.Response;
+  /** HTTP status code, once a response was received. */
+  status?: number;
+  /** Parsed JSON response body, once received. */
+  responseBody?: unknown;
+  /** Set when the response body could not be parsed as JSON. */
+  responseParseError?: unknown;
+  /** Rate limit information parsed from the response headers. */
+  rateLimit?: RateLimitInfo;
+  /** Duration of the exchange in milliseconds, set by the timing middleware. */
+  durationMs?: number;
+  /** Scratch space for passing data between middleware. */
+  state: Record<string, unknown>;
+}
+
+/** Function that continues the chain. Resolves once the inner middleware and the HTTP call complete. */
+export type MiddlewareNext = () => Promise<void>;
+
+/**
+ * A middleware wraps an HTTP exchange. It may modify the request on the way in,
+ * inspect the response on the way out, or short-circuit by not calling `next()`.
+ */
+export type Middleware = (ctx: MiddlewareContext, next: MiddlewareNext) => Promise<void> | void;
+
+/**
+ * Composes middleware into a single handler. The first middleware is the outermost.
+ * @param terminal Handler invoked after the last middleware calls `next()`.
+ */
+export function composeMiddleware(
+  middleware: ReadonlyArray<Middleware>,
+  terminal: (ctx: MiddlewareContext) => Promise<void>
+): (ctx: MiddlewareContext) => Promise<void> {
+  return (ctx) => {
+    let lastIndex = -1;
+    const dispatch = async (index: number): Promise<void> => {
+      if (index <= lastIndex) {
+        throw new Error("Middleware called next() more than once.");
+      }
+      lastIndex = index;
+      if (index === middleware.length) {
+        return terminal(ctx);
+      }
+      await middleware[index](ctx, () => dispatch(index + 1));
+    };
+    return dispatch(0);
+  };
+}
+
+export interface HeadersMiddlewareOptions {
+  /** Whether to replace headers that are already set (compared case-insensitively). Defaults to false. */
+  overwrite?: boolean;
+}
+
+/**
+ * Injects headers into every request.
+ * @param headers A static header map, or a function computing headers per exchange (e.g., tracing IDs).
+ */
+export function createHeadersMiddleware(
+  headers: Record<string, string> | ((ctx: MiddlewareContext) => Record<string, string>),
+  options: HeadersMiddlewareOptions = {}
+): Middleware {
+  return (ctx, next) => {
+    const toAdd = typeof headers === "function" ? headers(ctx) : headers;
+    for (const [name, value] of Object.entries(toAdd)) {
+      const existing = Object.keys(ctx.headers).find(key => key.toLowerCase() === name.toLowerCase());
+      if (existing !== undefined) {
+        if (!options.overwrite) continue;
+        delete ctx.headers[existing];
+      }
+      ctx.headers[name] = value;
+    }
+    return next();
+  };
+}
+
+/**
+ * Measures each exchange and stores the result in `ctx.durationMs`, including failed exchanges.
+ * @param onTiming Optional callback invoked with the context once the duration is known.
+ */
+export function createTimingMiddleware(onTiming?: (ctx: MiddlewareContext) => void): Middleware {
+  return async (ctx, next) => {
+    const startedAt = Date.now();
+    try {
+      await next();
+    } finally {
+      ctx.durationMs = Date.now() - startedAt;
+      onTiming?.(ctx);
+    }
+  };
+}
+
+/**
+ * Logs each exchange at debug level: the outgoing request and the received response
+ * with its status, duration and rate limit state.
+ */
+export function createLoggingMiddleware(logger: Logger): Middleware {
+  return async (ctx, next) => {
+    const { method, path, attempt } = ctx;
+    logger.debug(`Wasender SDK: ${method} ${path} (attempt ${attempt})`, { method, path, attempt });
+    await next();
+    logger.debug(`Wasender SDK: ${method} ${path} responded ${ctx.status}`, {
+      method, path, attempt,
+      status: ctx.status,
+      durationMs: ctx.durationMs,
+      rateLimit: ctx.rateLimit
+        ? { limit: ctx.rateLimit.limit, remaining: ctx.rateLimit.remaining, resetTimestamp: ctx.rateLimit.resetTimestamp }
+        : undefined,
+    });
+  };
+}
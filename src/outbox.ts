@@ -0,0 +1,344 @@
+/*
+ * Wasender TypeScript SDK - Outbox
+ * Durable queue in front of `send()`: messages are persisted before they are sent, a worker
+ * drains the queue with retries and a dead-letter state, and webhook events track delivery.
+ */
+
+import type { Wasender } from "./main.ts";
+import type { WasenderMessagePayload, WasenderSendResult } from "./messages.ts";
+import { WasenderAPIError, WasenderErrorCode, WasenderValidationError } from "./errors.ts";
+import { generateIdempotencyKey } from "./idempotency.ts";
+import { Logger, noopLogger } from "./logger.ts";
+import { RetryConfig, ResolvedRetryConfig, resolveRetryConfig, computeBackoffDelay } from "./retry.ts";
+import { RecordStore, InMemoryRecordStore, JsonFileRecordStore, SqliteRecordStore, SqliteDatabase } from "./store.ts";
+import { WasenderWebhookEvent, WasenderWebhookEventType, MessageKey } from "./webhook.ts";
+
+// ---------- Types ----------
+
+/**
+ * Lifecycle of an outbox entry:
+ * `queued` → `sending` → `sent` → `delivered` → `read`. A failed attempt moves the entry to `failed`
+ * until its next attempt; entries that run out of attempts or fail permanently move to `dead`.
+ */
+export type OutboxStatus = "queued" | "sending" | "sent" | "failed" | "dead" | "delivered" | "read";
+
+/** A message in the outbox, as kept in an `OutboxStore`. Must stay JSON-serializable. */
+export interface OutboxEntry {
+  id: string;
+  payload: WasenderMessagePayload;
+  status: OutboxStatus;
+  /** Send attempts made so far. */
+  attempts: number;
+  maxAttempts: number;
+  /** Earliest time of the next attempt, in milliseconds since the epoch. */
+  nextAttemptAt: number;
+  /** Reused by every attempt, so that a message is not delivered twice. */
+  idempotencyKey: string;
+  /** WhatsApp message ID from the send response, used to match webhook events. */
+  messageId?: string;
+  createdAt: number;
+  updatedAt: number;
+  sentAt?: number;
+  deliveredAt?: number;
+  readAt?: number;
+  /** Error of the last failed attempt. */
+  lastError?: { message: string; code?: WasenderErrorCode; statusCode?: number };
+  /** Free-form data stored with the entry (e.g., an order ID). */
+  metadata?: Record<string, unknown>;
+}
+
+/** Storage for outbox entries. Implement `RecordStore` to keep them in your own database. */
+export type OutboxStore = RecordStore<OutboxEntry>;
+
+/** Keeps outbox entries in memory. Only protects against failed sends, not against crashes. */
+export class InMemoryOutboxStore extends InMemoryRecordStore<OutboxEntry> {}
+
+/** Keeps outbox entries in a JSON file (Node.js only). See `JsonFileRecordStore`. */
+export class FileOutboxStore extends JsonFileRecordStore<OutboxEntry> {}
+
+/** Keeps outbox entries in a SQLite table, listed in enqueue order. See `SqliteRecordStore`. */
+export class SqliteOutboxStore extends SqliteRecordStore<OutboxEntry> {
+  constructor(db: SqliteDatabase, table = "wasender_outbox") {
+    super(db, table, entry => entry.createdAt);
+  }
+}
+
+export interface OutboxOptions {
+  /** Where entries are kept. Defaults to an `InMemoryOutboxStore`; use a persistent store to survive crashes. */
+  store?: OutboxStore;
+  /** Send attempts per entry before it is dead-lettered. Defaults to 5. */
+  maxAttempts?: number;
+  /** Backoff between attempts. Defaults to 1s doubling up to 5 minutes, with full jitter. */
+  backoff?: Pick<RetryConfig, "baseDelayMs" | "maxDelayMs" | "jitter">;
+  /** How often the worker looks for due entries, in milliseconds. Defaults to 1000. */
+  pollIntervalMs?: number;
+  /** Called whenever an entry changes status. */
+  onStatusChange?: (entry: OutboxEntry, previous: OutboxStatus) => void;
+  /** Receives errors thrown by `onStatusChange`, which never change an entry's status. */
+  logger?: Logger;
+  /**
+   * Extracts the WhatsApp message ID from a send result, to match webhook events.
+   * Defaults to `data.msgId`, `data.id` or `data.key.id` of the response body.
+   */
+  resolveMessageId?: (result: WasenderSendResult) => string | undefined;
+  /** Clock in milliseconds. Injectable for testing. */
+  now?: () => number;
+}
+
+export interface EnqueueOptions {
+  /** ID of the entry. Generated when omitted. */
+  id?: string;
+  /** Overrides the outbox's `maxAttempts` for this entry. */
+  maxAttempts?: number;
+  metadata?: Record<string, unknown>;
+}
+
+// Statuses after a confirmed send, in order; webhook updates never move an entry backwards.
+const DELIVERY_ORDER: ReadonlyArray<OutboxStatus> = ["sent", "delivered", "read"];
+
+function defaultMessageId(result: WasenderSendResult): string | undefined {
+  const data = (result.response as unknown as { data?: { msgId?: unknown; id?: unknown; key?: { id?: unknown } } }).data;
+  const id = data?.msgId ?? data?.id ?? data?.key?.id;
+  return id === undefined || id === null ? undefined : String(id);
+}
+
+function isDue(entry: OutboxEntry, now: number): boolean {
+  return (entry.status === "queued" || entry.status === "failed") && entry.nextAttemptAt <= now;
+}
+
+// ---------- Outbox ----------
+
+/**
+ * Durable outbox for a client. `enqueue()` persists a message and returns; the worker started by
+ * `start()` sends queued messages in order, retrying failures with backoff.
+ */
+export class Outbox {
+  private readonly store: OutboxStore;
+  private readonly now: () => number;
+  private readonly backoff: ResolvedRetryConfig;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+  private stopping = false;
+  private draining?: Promise<number>;
+
+  constructor(
+    private readonly client: Pick<Wasender, "send">,
+    private readonly options: OutboxOptions = {}
+  ) {
+    this.store = options.store ?? new InMemoryOutboxStore();
+    this.now = options.now ?? Date.now;
+    this.backoff = resolveRetryConfig({ baseDelayMs: 1000, maxDelayMs: 300_000, ...options.backoff });
+  }
+
+  /**
+   * Persists a message for sending. It is sent by the worker, or by the next `drain()`.
+   * @throws WasenderValidationError if an entry with the same ID exists.
+   */
+  async enqueue(payload: WasenderMessagePayload, options: EnqueueOptions = {}): Promise<OutboxEntry> {
+    const id = options.id ?? generateIdempotencyKey();
+    if (await this.store.get(id)) {
+      throw new WasenderValidationError(`An outbox entry with ID "${id}" already exists.`, { id: ["Already in use."] }, 400);
+    }
+    const now = this.now();
+    const entry: OutboxEntry = {
+      id,
+      payload,
+      status: "queued",
+      attempts: 0,
+      maxAttempts: Math.max(1, options.maxAttempts ?? this.options.maxAttempts ?? 5),
+      nextAttemptAt: now,
+      idempotencyKey: generateIdempotencyKey(),
+      createdAt: now,
+      updatedAt: now,
+      metadata: options.metadata,
+    };
+    await this.store.save(entry);
+    if (this.running) this.scheduleTick(0);
+    return entry;
+  }
+
+  /**
+   * Starts the worker. Entries left in `sending` by a crash are queued again; their idempotency key
+   * keeps the API from delivering them twice.
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    for (const entry of await this.store.list()) {
+      if (entry.status === "sending") await this.update(entry, { status: "queued" });
+    }
+    this.running = true;
+    this.scheduleTick(0);
+  }
+
+  /** Stops the worker and waits for the entry being sent, if any. */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer !== undefined) clearTimeout(this.timer);
+    this.timer = undefined;
+    this.stopping = true;
+    try {
+      await this.draining;
+    } finally {
+      this.stopping = false;
+    }
+  }
+
+  /**
+   * Sends every entry that is due, oldest first, and returns how many were attempted.
+   * Concurrent calls share one pass.
+   */
+  drain(): Promise<number> {
+    this.draining ??= this.drainDue().finally(() => { this.draining = undefined; });
+    return this.draining;
+  }
+
+  /** Returns an entry by ID. */
+  get(id: string): Promise<OutboxEntry | undefined> {
+    return this.store.get(id);
+  }
+
+  /** Lists entries in enqueue order, optionally only those with the given status. */
+  async list(filter: { status?: OutboxStatus } = {}): Promise<OutboxEntry[]> {
+    return (await this.store.list())
+      .filter(entry => !filter.status || entry.status === filter.status)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /** Entries that ran out of attempts or failed permanently. */
+  deadLetters(): Promise<OutboxEntry[]> {
+    return this.list({ status: "dead" });
+  }
+
+  /**
+   * Queues a dead or failed entry again with a fresh set of attempts.
+   * @throws WasenderValidationError if the entry does not exist or is not dead or failed.
+   */
+  async requeue(id: string): Promise<OutboxEntry> {
+    const entry = await this.store.get(id);
+    if (!entry || (entry.status !== "dead" && entry.status !== "failed")) {
+      throw new WasenderValidationError(`Outbox entry "${id}" is not dead or failed.`, { id: ["Cannot be requeued."] }, 400);
+    }
+    const requeued = await this.update(entry, { status: "queued", attempts: 0, nextAttemptAt: this.now() });
+    if (this.running) this.scheduleTick(0);
+    return requeued;
+  }
+
+  /** Deletes an entry from the store. */
+  remove(id: string): Promise<boolean> {
+    return this.store.delete(id);
+  }
+
+  /**
+   * Applies `message.sent` and `messages.update` webhook events to the matching entries.
+   * Other events are ignored. Pass the event returned by `Wasender.handleWebhookEvent()`.
+   * @returns The entries that changed.
+   */
+  async handleWebhookEvent(event: WasenderWebhookEvent): Promise<OutboxEntry[]> {
+    const updates: Array<{ key: MessageKey; status: OutboxStatus }> = [];
+    if (event.event === WasenderWebhookEventType.MessageSent) {
+      for (const data of [event.data].flat()) updates.push({ key: data.key, status: "sent" });
+    } else if (event.event === WasenderWebhookEventType.MessagesUpdate) {
+      for (const data of [event.data].flat(2)) {
+        const status = data.update?.status;
+        if (status === "delivered") updates.push({ key: data.key, status: "delivered" });
+        if (status === "read" || status === "played") updates.push({ key: data.key, status: "read" });
+      }
+    }
+    if (updates.length === 0) return [];
+
+    const entries = await this.store.list();
+    const changed: OutboxEntry[] = [];
+    for (const { key, status } of updates) {
+      const entry = entries.find(candidate => candidate.messageId !== undefined && candidate.messageId === key?.id);
+      if (!entry || DELIVERY_ORDER.indexOf(status) <= DELIVERY_ORDER.indexOf(entry.status)) continue;
+      const now = this.now();
+      const updated = await this.update(entry, {
+        status,
+        sentAt: entry.sentAt ?? now,
+        deliveredAt: status === "sent" ? entry.deliveredAt : entry.deliveredAt ?? now,
+        readAt: status === "read" ? now : entry.readAt,
+      });
+      entries[entries.indexOf(entry)] = updated;
+      changed.push(updated);
+    }
+    return changed;
+  }
+
+  private scheduleTick(delay: number): void {
+    if (this.timer !== undefined) clearTimeout(this.timer);
+    this.timer = setTimeout(async () => {
+      this.timer = undefined;
+      try {
+        await this.drain();
+      } catch {
+        // A store failure is retried on the next poll.
+      } finally {
+        if (this.running && this.timer === undefined) this.scheduleTick(this.options.pollIntervalMs ?? 1000);
+      }
+    }, delay);
+  }
+
+  private async drainDue(): Promise<number> {
+    let attempted = 0;
+    // Each pass reads the store once; further passes pick up entries queued or retried meanwhile.
+    while (!this.stopping) {
+      const now = this.now();
+      const due = (await this.list())
+        .filter(entry => isDue(entry, now))
+        .sort((a, b) => a.nextAttemptAt - b.nextAttemptAt);
+      if (due.length === 0) return attempted;
+      for (const snapshot of due) {
+        if (this.stopping) break;
+        // The entry may have been removed, requeued or updated by a webhook since the pass began.
+        const entry = await this.store.get(snapshot.id);
+        if (!entry || !isDue(entry, now)) continue;
+        attempted++;
+        await this.attempt(entry);
+      }
+    }
+    return attempted;
+  }
+
+  private async attempt(entry: OutboxEntry): Promise<void> {
+    const sending = await this.update(entry, { status: "sending", attempts: entry.attempts + 1 });
+    let result: WasenderSendResult;
+    try {
+      // The idempotency key already guards against duplicates, so the client's dedupe window must not block retries.
+      result = await this.client.send(sending.payload, { idempotencyKey: sending.idempotencyKey, force: true });
+    } catch (error) {
+      const lastError = error instanceof WasenderAPIError
+        ? { message: error.apiMessage, code: error.code, statusCode: error.statusCode }
+        : { message: error instanceof Error ? error.message : String(error) };
+      const retryable = !(error instanceof WasenderAPIError) || error.isRetryable;
+      if (!retryable || sending.attempts >= sending.maxAttempts) {
+        await this.update(sending, { status: "dead", lastError });
+        return;
+      }
+      const retryAfterMs = error instanceof WasenderAPIError && error.retryAfter !== undefined ? error.retryAfter * 1000 : 0;
+      const delay = Math.max(retryAfterMs, computeBackoffDelay(this.backoff, sending.attempts));
+      await this.update(sending, { status: "failed", lastError, nextAttemptAt: this.now() + delay });
+      return;
+    }
+    const messageId = (this.options.resolveMessageId ?? defaultMessageId)(result);
+    await this.update(sending, { status: "sent", sentAt: this.now(), messageId, lastError: undefined });
+  }
+
+  private async update(entry: OutboxEntry, changes: Partial<OutboxEntry>): Promise<OutboxEntry> {
+    const updated = { ...entry, ...changes, updatedAt: this.now() };
+    await this.store.save(updated);
+    if (updated.status !== entry.status) this.notifyStatusChange(updated, entry.status);
+    return updated;
+  }
+
+  private notifyStatusChange(entry: OutboxEntry, previous: OutboxStatus): void {
+    try {
+      this.options.onStatusChange?.(entry, previous);
+    } catch (error) {
+      (this.options.logger ?? noopLogger).error("Wasender SDK: Outbox onStatusChange callback threw; the entry keeps its status.", {
+        id: entry.id,
+        entryStatus: entry.status,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,280 @@
+/*
+ * Wasender TypeScript SDK - Phone Numbers
+ * Normalizes loosely formatted phone numbers to E.164, validates country calling codes
+ * and number lengths, and formats numbers for display.
+ */
+
+import { WasenderValidationError } from "./errors.ts";
+
+// ---------- Country Data ----------
+
+/** Numbering rules of a country, as far as the SDK needs them. */
+export interface CountryNumbering {
+  /** Country calling code, without '+'. */
+  callingCode: string;
+  /** Digits dialled before a national number within the country, e.g. '0'. */
+  trunkPrefix?: string;
+  /** Prefix for dialling abroad from the country. Defaults to '00'. */
+  internationalPrefix?: string;
+  /** Allowed lengths of the national significant number (without trunk prefix), as [min, max]. */
+  lengths: [number, number];
+  /** Digit groups for display, by national number length. Defaults to groups of three with a final four. */
+  groups?: Record<number, number[]>;
+}
+
+const COUNTRY_DATA = {
+  US: { callingCode: "1", trunkPrefix: "1", internationalPrefix: "011", lengths: [10, 10] },
+  CA: { callingCode: "1", trunkPrefix: "1", internationalPrefix: "011", lengths: [10, 10] },
+  RU: { callingCode: "7", trunkPrefix: "8", internationalPrefix: "810", lengths: [10, 10], groups: { 10: [3, 3, 2, 2] } },
+  KZ: { callingCode: "7", trunkPrefix: "8", internationalPrefix: "810", lengths: [10, 10] },
+  EG: { callingCode: "20", trunkPrefix: "0", lengths: [8, 10] },
+  ZA: { callingCode: "27", trunkPrefix: "0", lengths: [9, 9], groups: { 9: [2, 3, 4] } },
+  GR: { callingCode: "30", lengths: [10, 10] },
+  NL: { callingCode: "31", trunkPrefix: "0", lengths: [9, 9], groups: { 9: [1, 8] } },
+  BE: { callingCode: "32", trunkPrefix: "0", lengths: [8, 9] },
+  FR: { callingCode: "33", trunkPrefix: "0", lengths: [9, 9], groups: { 9: [1, 2, 2, 2, 2] } },
+  ES: { callingCode: "34", lengths: [9, 9], groups: { 9: [3, 3, 3] } },
+  HU: { callingCode: "36", trunkPrefix: "06", lengths: [8, 9] },
+  IT: { callingCode: "39", lengths: [6, 11] },
+  RO: { callingCode: "40", trunkPrefix: "0", lengths: [9, 9] },
+  CH: { callingCode: "41", trunkPrefix: "0", lengths: [9, 9], groups: { 9: [2, 3, 2, 2] } },
+  AT: { callingCode: "43", trunkPrefix: "0", lengths: [4, 13] },
+  GB: { callingCode: "44", trunkPrefix: "0", lengths: [9, 10], groups: { 10: [4, 6] } },
+  DK: { callingCode: "45", lengths: [8, 8], groups: { 8: [2, 2, 2, 2] } },
+  SE: { callingCode: "46", trunkPrefix: "0", lengths: [7, 13] },
+  NO: { callingCode: "47", lengths: [8, 8], groups: { 8: [3, 2, 3] } },
+  PL: { callingCode: "48", lengths: [9, 9], groups: { 9: [3, 3, 3] } },
+  DE: { callingCode: "49", trunkPrefix: "0", lengths: [6, 13] },
+  PE: { callingCode: "51", trunkPrefix: "0", lengths: [8, 9] },
+  MX: { callingCode: "52", lengths: [10, 10], groups: { 10: [2, 4, 4] } },
+  AR: { callingCode: "54", trunkPrefix: "0", lengths: [10, 11] },
+  BR: { callingCode: "55", trunkPrefix: "0", lengths: [10, 11], groups: { 10: [2, 4, 4], 11: [2, 5, 4] } },
+  CL: { callingCode: "56", lengths: [9, 9] },
+  CO: { callingCode: "57", lengths: [8, 10], groups: { 10: [3, 3, 4] } },
+  VE: { callingCode: "58", trunkPrefix: "0", lengths: [10, 10] },
+  MY: { callingCode: "60", trunkPrefix: "0", lengths: [8, 10] },
+  AU: { callingCode: "61", trunkPrefix: "0", internationalPrefix: "0011", lengths: [9, 9], groups: { 9: [3, 3, 3] } },
+  ID: { callingCode: "62", trunkPrefix: "0", lengths: [8, 12] },
+  PH: { callingCode: "63", trunkPrefix: "0", lengths: [10, 10], groups: { 10: [3, 3, 4] } },
+  NZ: { callingCode: "64", trunkPrefix: "0", lengths: [8, 10] },
+  SG: { callingCode: "65", lengths: [8, 8], groups: { 8: [4, 4] } },
+  TH: { callingCode: "66", trunkPrefix: "0", lengths: [8, 9] },
+  JP: { callingCode: "81", trunkPrefix: "0", internationalPrefix: "010", lengths: [9, 10] },
+  KR: { callingCode: "82", trunkPrefix: "0", lengths: [8, 10] },
+  VN: { callingCode: "84", trunkPrefix: "0", lengths: [9, 10] },
+  CN: { callingCode: "86", trunkPrefix: "0", lengths: [10, 11], groups: { 11: [3, 4, 4] } },
+  TR: { callingCode: "90", trunkPrefix: "0", lengths: [10, 10], groups: { 10: [3, 3, 2, 2] } },
+  IN: { callingCode: "91", trunkPrefix: "0", lengths: [10, 10], groups: { 10: [5, 5] } },
+  PK: { callingCode: "92", trunkPrefix: "0", lengths: [9, 10] },
+  LK: { callingCode: "94", trunkPrefix: "0", lengths: [9, 9] },
+  IR: { callingCode: "98", trunkPrefix: "0", lengths: [10, 10] },
+  MA: { callingCode: "212", trunkPrefix: "0", lengths: [9, 9] },
+  GH: { callingCode: "233", trunkPrefix: "0", lengths: [9, 9] },
+  NG: { callingCode: "234", trunkPrefix: "0", lengths: [8, 10], groups: { 10: [3, 3, 4] } },
+  KE: { callingCode: "254", trunkPrefix: "0", lengths: [9, 9], groups: { 9: [3, 6] } },
+  PT: { callingCode: "351", lengths: [9, 9], groups: { 9: [3, 3, 3] } },
+  IE: { callingCode: "353", trunkPrefix: "0", lengths: [7, 9] },
+  FI: { callingCode: "358", trunkPrefix: "0", lengths: [5, 12] },
+  UA: { callingCode: "380", trunkPrefix: "0", lengths: [9, 9] },
+  CZ: { callingCode: "420", lengths: [9, 9], groups: { 9: [3, 3, 3] } },
+  HK: { callingCode: "852", lengths: [8, 8], groups: { 8: [4, 4] } },
+  BD: { callingCode: "880", trunkPrefix: "0", lengths: [10, 10] },
+  AE: { callingCode: "971", trunkPrefix: "0", lengths: [8, 9] },
+  IL: { callingCode: "972", trunkPrefix: "0", lengths: [8, 9] },
+  SA: { callingCode: "966", trunkPrefix: "0", lengths: [9, 9] },
+} satisfies Record<string, CountryNumbering>;
+
+/** ISO 3166-1 alpha-2 code of a country in `COUNTRY_NUMBERING`. */
+export type CountryCode = keyof typeof COUNTRY_DATA;
+
+/**
+ * Numbering rules of common countries, keyed by ISO 3166-1 alpha-2 code.
+ * Numbers of other countries are still accepted in international format, with generic length checks.
+ */
+export const COUNTRY_NUMBERING: Readonly<Record<CountryCode, CountryNumbering>> = COUNTRY_DATA;
+
+/** Country calling codes assigned to geographic areas by the ITU (E.164). */
+const CALLING_CODES: ReadonlySet<string> = new Set(
+  (
+    "1 7 20 27 30 31 32 33 34 36 39 40 41 43 44 45 46 47 48 49 51 52 53 54 55 56 57 58 60 61 62 63 64 65 66 " +
+    "81 82 84 86 90 91 92 93 94 95 98 211 212 213 216 218 220 221 222 223 224 225 226 227 228 229 230 231 232 " +
+    "233 234 235 236 237 238 239 240 241 242 243 244 245 246 247 248 249 250 251 252 253 254 255 256 257 258 " +
+    "260 261 262 263 264 265 266 267 268 269 290 291 297 298 299 350 351 352 353 354 355 356 357 358 359 370 " +
+    "371 372 373 374 375 376 377 378 379 380 381 382 383 385 386 387 389 420 421 423 500 501 502 503 504 505 " +
+    "506 507 508 509 590 591 592 593 594 595 596 597 598 599 670 672 673 674 675 676 677 678 679 680 681 682 " +
+    "683 685 686 687 688 689 690 691 692 850 852 853 855 856 880 886 960 961 962 963 964 965 966 967 968 970 " +
+    "971 972 973 974 975 976 977 992 993 994 995 996 998"
+  ).split(" ")
+);
+
+/** E.164 allows at most 15 digits, calling code included. */
+const MAX_E164_DIGITS = 15;
+const MIN_NATIONAL_DIGITS = 4;
+
+// ---------- Parsing ----------
+
+export interface PhoneNumberOptions {
+  /** Country assumed for numbers written in national format, e.g. '07700 900123' with 'GB'. */
+  defaultCountry?: CountryCode;
+}
+
+/** A validated phone number. */
+export interface ParsedPhoneNumber {
+  /** E.164 form, e.g. '+447700900123'. */
+  e164: string;
+  /** Calling code without '+', e.g. '44'. */
+  countryCallingCode: string;
+  /** National significant number, e.g. '7700900123'. */
+  nationalNumber: string;
+  /** Country, when the calling code belongs to a country in `COUNTRY_NUMBERING`. */
+  country?: CountryCode;
+}
+
+function invalid(input: string, reason: string, field: string): WasenderValidationError {
+  const message = `Invalid phone number "${input}": ${reason}`;
+  return new WasenderValidationError(message, { [field]: [message] }, 400);
+}
+
+function countryFor(callingCode: string, preferred?: CountryCode): CountryCode | undefined {
+  if (preferred && (COUNTRY_NUMBERING as Record<string, CountryNumbering | undefined>)[preferred]?.callingCode === callingCode) return preferred;
+  return (Object.keys(COUNTRY_NUMBERING) as CountryCode[]).find(code => COUNTRY_NUMBERING[code].callingCode === callingCode);
+}
+
+/**
+ * Parses and validates a phone number.
+ * Accepts spaces, dashes, dots, slashes and parentheses; a '+' or international dialling prefix
+ * ('00', or the default country's own, e.g. '011'); and a '(0)' trunk prefix after the calling code.
+ * Without a '+' or prefix, the number is read in the default country's national format, or,
+ * without a default country, as calling code and number without the '+'.
+ * @param field Field name used in the error details. Defaults to 'phoneNumber'.
+ * @throws WasenderValidationError if the number is malformed, its calling code is unknown, or its length is invalid.
+ */
+export function parsePhoneNumber(input: string, options: PhoneNumberOptions = {}, field = "phoneNumber"): ParsedPhoneNumber {
+  const raw = String(input ?? "");
+  const defaultCountry = options.defaultCountry;
+  const defaults = defaultCountry ? (COUNTRY_NUMBERING as Record<string, CountryNumbering | undefined>)[defaultCountry] : undefined;
+  if (defaultCountry && !defaults) {
+    throw invalid(raw, `unsupported default country "${defaultCountry}".`, field);
+  }
+
+  const compact = raw.replace(/\(0\)/g, "").replace(/[\s\-./()]/g, "");
+  if (!/^\+?\d+$/.test(compact)) {
+    throw invalid(raw, "only digits, an optional leading '+' and separators are allowed.", field);
+  }
+
+  let international: string;
+  const internationalPrefix = defaults?.internationalPrefix ?? "00";
+  if (compact.startsWith("+")) {
+    international = compact.slice(1);
+  } else if (compact.startsWith(internationalPrefix)) {
+    international = compact.slice(internationalPrefix.length);
+  } else if (!defaults && compact.startsWith("00")) {
+    international = compact.slice(2);
+  } else if (defaults) {
+    let national = compact;
+    // NANP numbers are often written with the trunk '1' but only match when the rest is a full number.
+    if (defaults.trunkPrefix && national.startsWith(defaults.trunkPrefix) && national.length > defaults.lengths[0]) {
+      national = national.slice(defaults.trunkPrefix.length);
+    }
+    international = defaults.callingCode + national;
+  } else {
+    international = compact;
+  }
+
+  const callingCode = [1, 2, 3].map(length => international.slice(0, length)).find(code => CALLING_CODES.has(code));
+  if (!callingCode) {
+    throw invalid(raw, "unknown country calling code.", field);
+  }
+  let nationalNumber = international.slice(callingCode.length);
+  const country = countryFor(callingCode, defaultCountry);
+  const numbering = country ? COUNTRY_NUMBERING[country] : undefined;
+  // '+44 07700 900123': a trunk prefix kept after the calling code.
+  if (numbering?.trunkPrefix && nationalNumber.startsWith(numbering.trunkPrefix) && nationalNumber.length > numbering.lengths[1]) {
+    nationalNumber = nationalNumber.slice(numbering.trunkPrefix.length);
+  }
+
+  const [min, max] = numbering?.lengths ?? [MIN_NATIONAL_DIGITS, MAX_E164_DIGITS - callingCode.length];
+  if (nationalNumber.length < min || nationalNumber.length > max || callingCode.length + nationalNumber.length > MAX_E164_DIGITS) {
+    const expected = min === max ? `${min}` : `${min} to ${max}`;
+    throw invalid(raw, `expected ${expected} digits after +${callingCode}, got ${nationalNumber.length}.`, field);
+  }
+
+  return { e164: `+${callingCode}${nationalNumber}`, countryCallingCode: callingCode, nationalNumber, country };
+}
+
+/**
+ * Normalizes a phone number to E.164, e.g. '0044 7700 900123' → '+447700900123'.
+ * @throws WasenderValidationError if the number is invalid. See `parsePhoneNumber()`.
+ */
+export function normalizePhoneNumber(input: string, options?: PhoneNumberOptions): string {
+  return parsePhoneNumber(input, options).e164;
+}
+
+/** Returns whether `input` parses as a valid phone number. See `parsePhoneNumber()`. */
+export function isValidPhoneNumber(input: string, options?: PhoneNumberOptions): boolean {
+  try {
+    parsePhoneNumber(input, options);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ---------- Formatting ----------
+
+/**
+ * `e164`: '+447700900123'. `international`: '+44 7700 900123'. `national`: '07700 900123'.
+ * `digits`: '447700900123', the form used in WhatsApp JIDs and contact endpoints.
+ */
+export type PhoneNumberFormat = "e164" | "international" | "national" | "digits";
+
+function groupDigits(digits: string, groups?: number[]): string {
+  const sizes = groups ?? defaultGroups(digits.length);
+  const parts: string[] = [];
+  let offset = 0;
+  for (const size of sizes) {
+    if (offset >= digits.length) break;
+    parts.push(digits.slice(offset, offset + size));
+    offset += size;
+  }
+  if (offset < digits.length) parts.push(digits.slice(offset));
+  return parts.join(" ");
+}
+
+function defaultGroups(length: number): number[] {
+  if (length <= 4) return [length];
+  const groups: number[] = [];
+  let remaining = length - 4;
+  while (remaining > 0) {
+    groups.push(Math.min(3, remaining));
+    remaining -= 3;
+  }
+  return [...groups, 4];
+}
+
+/**
+ * Formats a phone number for display or for the API.
+ * @throws WasenderValidationError if the number is invalid. See `parsePhoneNumber()`.
+ */
+export function formatPhoneNumber(input: string | ParsedPhoneNumber, format: PhoneNumberFormat = "international", options?: PhoneNumberOptions): string {
+  const parsed = typeof input === "string" ? parsePhoneNumber(input, options) : input;
+  const { countryCallingCode, nationalNumber, country } = parsed;
+  const numbering = country ? COUNTRY_NUMBERING[country] : undefined;
+
+  switch (format) {
+    case "e164":
+      return parsed.e164;
+    case "digits":
+      return parsed.e164.slice(1);
+    case "international":
+      if (countryCallingCode === "1" && nationalNumber.length === 10) {
+        return `+1 ${nationalNumber.slice(0, 3)}-${nationalNumber.slice(3, 6)}-${nationalNumber.slice(6)}`;
+      }
+      return `+${countryCallingCode} ${groupDigits(nationalNumber, numbering?.groups?.[nationalNumber.length])}`;
+    case "national":
+      if (countryCallingCode === "1" && nationalNumber.length === 10) {
+        return `(${nationalNumber.slice(0, 3)}) ${nationalNumber.slice(3, 6)}-${nationalNumber.slice(6)}`;
+      }
+      return `${numbering?.trunkPrefix ?? ""}${groupDigits(nationalNumber, numbering?.groups?.[nationalNumber.length])}`;
+  }
+}
@@ -0,0 +1,237 @@
+/*
+ * Wasender TypeScript SDK - Polls
+ * Validates poll payloads and aggregates incoming poll votes into live tallies.
+ */
+
+import { PollPayload } from "./messages.ts";
+import { WasenderValidationError } from "./errors.ts";
+import { MessageKey, MessageSentData, MessagesPollVoteDataEntry, MessagesUpsertData, WasenderWebhookEvent, WasenderWebhookEventType } from "./webhook.ts";
+
+// ---------- Validation ----------
+
+/** WhatsApp accepts at most 12 options per poll. */
+export const MAX_POLL_OPTIONS = 12;
+
+function invalid(field: string, message: string): WasenderValidationError {
+  return new WasenderValidationError(message, { [field]: [message] }, 400);
+}
+
+/**
+ * Checks a poll before it is sent: a non-empty question, 2 to 12 distinct non-empty options,
+ * and a `selectableCount` between 1 and the number of options.
+ * @throws WasenderValidationError if the poll is invalid.
+ */
+export function validatePoll(poll: PollPayload): void {
+  if (typeof poll?.question !== "string" || poll.question.trim() === "") {
+    throw invalid("poll.question", "poll.question must be a non-empty string.");
+  }
+  const options = poll.options;
+  if (!Array.isArray(options) || options.length < 2 || options.length > MAX_POLL_OPTIONS) {
+    throw invalid("poll.options", `poll.options must have 2 to ${MAX_POLL_OPTIONS} options.`);
+  }
+  if (options.some(option => typeof option !== "string" || option.trim() === "")) {
+    throw invalid("poll.options", "poll.options must be non-empty strings.");
+  }
+  if (new Set(options.map(option => option.trim())).size !== options.length) {
+    throw invalid("poll.options", "poll.options must be distinct.");
+  }
+  const count = poll.selectableCount;
+  if (count !== undefined && (!Number.isInteger(count) || count < 1 || count > options.length)) {
+    throw invalid("poll.selectableCount", `poll.selectableCount must be an integer from 1 to ${options.length}.`);
+  }
+}
+
+// ---------- Aggregation ----------
+
+export interface PollOptionTally {
+  name: string;
+  votes: number;
+  /** JIDs of the users who selected this option. */
+  voters: string[];
+}
+
+/** Live result of a poll. */
+export interface PollTally {
+  /** ID of the poll message. */
+  pollId: string;
+  /** The question, when the poll was tracked or seen in a webhook. */
+  question?: string;
+  selectableCount?: number;
+  /** Options in poll order. Options only seen in votes are appended. */
+  options: PollOptionTally[];
+  /** Number of users with a current vote. */
+  totalVoters: number;
+  /** Time of the latest vote, in milliseconds since the epoch. */
+  updatedAt?: number;
+}
+
+export interface PollAggregatorOptions {
+  /** Called with the new tally whenever a vote changes a poll. */
+  onUpdate?: (tally: PollTally) => void;
+  /** Clock used for votes without a timestamp. Defaults to `Date.now`. */
+  now?: () => number;
+}
+
+interface PollState {
+  question?: string;
+  selectableCount?: number;
+  options: string[];
+  /** Each voter's current selection and the time it was cast. */
+  votes: Map<string, { selected: string[]; at: number }>;
+  updatedAt?: number;
+}
+
+/**
+ * Collects poll votes from webhook events and reports live tallies per poll.
+ * Each vote replaces the voter's earlier vote on the same poll, so counts always reflect current selections.
+ * Polls are identified by the ID of their message key.
+ */
+export class PollAggregator {
+  private readonly polls = new Map<string, PollState>();
+  private readonly onUpdate?: (tally: PollTally) => void;
+  private readonly now: () => number;
+
+  constructor(options: PollAggregatorOptions = {}) {
+    this.onUpdate = options.onUpdate;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Registers a poll so its tally includes options without votes, in poll order.
+   * Polls seen in `messages.upsert` or `message.sent` events are registered automatically.
+   * @param poll The poll message's key, or its ID.
+   */
+  track(poll: MessageKey | string, payload: PollPayload): PollTally {
+    const state = this.state(pollIdOf(poll));
+    state.question = payload.question;
+    state.selectableCount = payload.selectableCount ?? 1;
+    state.options = mergeOptions(payload.options, state.options);
+    return this.tally(pollIdOf(poll), state);
+  }
+
+  /**
+   * Records a voter's current selection. An empty selection retracts the vote.
+   * Votes older than the voter's latest recorded vote are ignored.
+   * @returns The updated tally.
+   */
+  addVote(poll: MessageKey | string, voter: string, selectedOptions: string[], timestamp?: number): PollTally {
+    const pollId = pollIdOf(poll);
+    const state = this.state(pollId);
+    const at = timestamp ?? this.now();
+    const previous = state.votes.get(voter);
+    if (previous && previous.at > at) {
+      return this.tally(pollId, state);
+    }
+
+    const selected = [...new Set(selectedOptions)];
+    if (selected.length === 0) {
+      state.votes.delete(voter);
+    } else {
+      state.votes.set(voter, { selected, at });
+    }
+    state.options = mergeOptions(state.options, selected);
+    state.updatedAt = Math.max(state.updatedAt ?? 0, at);
+
+    const tally = this.tally(pollId, state);
+    this.onUpdate?.(tally);
+    return tally;
+  }
+
+  /**
+   * Applies a webhook event. Poll votes update tallies; new polls in `messages.upsert` and
+   * `message.sent` events are registered. Other events are ignored.
+   * @returns The tallies changed by the event.
+   */
+  handleWebhookEvent(event: WasenderWebhookEvent): PollTally[] {
+    switch (event.event) {
+      case WasenderWebhookEventType.MessagesPollVote:
+        return asArray(event.data as MessagesPollVoteDataEntry | MessagesPollVoteDataEntry[])
+          .filter(entry => entry?.key?.id && entry.vote?.voter)
+          .map(({ key, vote }) => {
+            const timestamp = vote.senderTimestampMs !== undefined ? Number(vote.senderTimestampMs) : NaN;
+            return this.addVote(key, vote.voter, vote.selectedOptions ?? [], Number.isFinite(timestamp) ? timestamp : undefined);
+          });
+      case WasenderWebhookEventType.MessagesUpsert:
+      case WasenderWebhookEventType.MessageSent: {
+        const tallies: PollTally[] = [];
+        for (const entry of asArray<MessagesUpsertData | MessageSentData>(event.data)) {
+          const creation = entry?.message?.pollCreationMessage;
+          if (!entry?.key?.id || !creation) continue;
+          const options = (creation.options ?? []).map(option => option.optionName ?? "").filter(Boolean);
+          tallies.push(this.track(entry.key, {
+            question: creation.name ?? "",
+            options,
+            // WhatsApp uses 0 for polls that allow any number of answers.
+            selectableCount: creation.selectableOptionsCount || options.length || 1,
+          }));
+        }
+        return tallies;
+      }
+      default:
+        return [];
+    }
+  }
+
+  /** Returns the current tally of a poll, or undefined if nothing is known about it. */
+  getTally(poll: MessageKey | string): PollTally | undefined {
+    const pollId = pollIdOf(poll);
+    const state = this.polls.get(pollId);
+    return state ? this.tally(pollId, state) : undefined;
+  }
+
+  /** Returns the tallies of all known polls. */
+  tallies(): PollTally[] {
+    return [...this.polls].map(([pollId, state]) => this.tally(pollId, state));
+  }
+
+  /** Stops tracking a poll. Returns false if it was unknown. */
+  forget(poll: MessageKey | string): boolean {
+    return this.polls.delete(pollIdOf(poll));
+  }
+
+  private state(pollId: string): PollState {
+    let state = this.polls.get(pollId);
+    if (!state) {
+      state = { options: [], votes: new Map() };
+      this.polls.set(pollId, state);
+    }
+    return state;
+  }
+
+  private tally(pollId: string, state: PollState): PollTally {
+    const options = state.options.map(name => ({ name, votes: 0, voters: [] as string[] }));
+    const byName = new Map(options.map(option => [option.name, option]));
+    for (const [voter, { selected }] of state.votes) {
+      for (const name of selected) {
+        const option = byName.get(name)!;
+        option.votes++;
+        option.voters.push(voter);
+      }
+    }
+    return {
+      pollId,
+      question: state.question,
+      selectableCount: state.selectableCount,
+      options,
+      totalVoters: state.votes.size,
+      updatedAt: state.updatedAt,
+    };
+  }
+}
+
+function asArray<T>(data: T | T[]): T[] {
+  return Array.isArray(data) ? data : [data];
+}
+
+function pollIdOf(poll: MessageKey | string): string {
+  const pollId = typeof poll === "string" ? poll : poll?.id;
+  if (!pollId) {
+    throw invalid("key", "A poll message key or ID is required.");
+  }
+  return pollId;
+}
+
+/** `first` in order, followed by the options of `second` not already in it. */
+function mergeOptions(first: string[], second: string[]): string[] {
+  return [...new Set([...first, ...second])];
+}
@@ -0,0 +1,164 @@
+/*
+ * Wasender TypeScript SDK - Session Pool
+ * Hands out one `Wasender` client per WhatsApp session API key, all sharing the same
+ * fetch implementation, logger, retry, rate limiter and circuit breaker configuration.
+ */
+
+import { Wasender, WasenderOptions, WasenderRequestOptions } from "./main.ts";
+import type { RateLimitInfo } from "./messages.ts";
+import type { Middleware } from "./middleware.ts";
+import { CircuitBreakerRegistry } from "./circuitbreaker.ts";
+import { RateLimiter } from "./ratelimit.ts";
+import { WasenderAPIError, WasenderConfigError } from "./errors.ts";
+
+/**
+ * Options shared by every client in a `WasenderPool`. The session `apiKey` is supplied per client.
+ * With `rateLimiter: true`, each session gets its own limiter, since the API rate limits each key separately.
+ */
+export type WasenderPoolOptions = Omit<WasenderOptions, "apiKey" | "rateLimiter"> & {
+  /**
+   * `true` for a default limiter per session, or a factory creating the limiter of each session API key.
+   * A single `RateLimiter` instance is rejected: it would make all sessions share one budget.
+   */
+  rateLimiter?: boolean | ((apiKey: string) => RateLimiter);
+};
+
+/**
+ * Pool of session clients keyed by session API key.
+ */
+export class WasenderPool {
+  private readonly options: Omit<WasenderOptions, "apiKey">;
+  private readonly rateLimiter?: true | ((apiKey: string) => RateLimiter);
+  private readonly clients = new Map<string, Wasender>();
+  private readonly sessionKeys = new Map<number, string>();
+  private readonly rateLimits = new Map<string, RateLimitInfo>();
+  private adminClient?: Wasender;
+
+  /**
+   * @throws WasenderConfigError if `rateLimiter` is a `RateLimiter` instance.
+   */
+  constructor(options: WasenderPoolOptions = {}) {
+    if ((options.rateLimiter as unknown) instanceof RateLimiter) {
+      throw new WasenderConfigError("A pool cannot share one RateLimiter between sessions. Pass rateLimiter: true or a factory (apiKey) => RateLimiter.");
+    }
+    this.rateLimiter = options.rateLimiter || undefined;
+    // Resolve the circuit breaker setting once so that all session clients share one registry.
+    const circuitBreaker =
+      options.circuitBreaker === true ? new CircuitBreakerRegistry()
+      : options.circuitBreaker && !(options.circuitBreaker instanceof CircuitBreakerRegistry)
+        ? new CircuitBreakerRegistry(options.circuitBreaker)
+        : options.circuitBreaker;
+    this.options = { ...options, circuitBreaker, rateLimiter: undefined };
+  }
+
+  /**
+   * Returns the client for a session API key, creating it on first use.
+   * @param apiKey The session's API key.
+   */
+  forSession(apiKey: string): Wasender {
+    if (!apiKey) {
+      throw new WasenderConfigError("A session API key is required.");
+    }
+    let client = this.clients.get(apiKey);
+    if (!client) {
+      const recordRateLimit: Middleware = async (ctx, next) => {
+        await next();
+        if (ctx.rateLimit) this.rateLimits.set(apiKey, ctx.rateLimit);
+      };
+      client = new Wasender({
+        ...this.options,
+        apiKey,
+        rateLimiter: this.rateLimiter === true || this.rateLimiter?.(apiKey),
+        middleware: [recordRateLimit, ...(this.options.middleware ?? [])],
+      });
+      this.clients.set(apiKey, client);
+    }
+    return client;
+  }
+
+  /**
+   * Associates a session ID with its API key so that `forSessionId()` can resolve it without a lookup.
+   */
+  registerSession(sessionId: number, apiKey: string): Wasender {
+    this.sessionKeys.set(sessionId, apiKey);
+    return this.forSession(apiKey);
+  }
+
+  /**
+   * Returns the client for a session ID. Unknown IDs are resolved with `getAllWhatsAppSessions()`,
+   * which requires the pool to have a `personalAccessToken`.
+   * @throws WasenderAPIError (404) if no session has this ID, or WasenderConfigError if its API key is not available.
+   */
+  async forSessionId(sessionId: number, options?: WasenderRequestOptions): Promise<Wasender> {
+    let apiKey = this.sessionKeys.get(sessionId);
+    if (!apiKey) {
+      const { response } = await this.admin().getAllWhatsAppSessions(options);
+      for (const session of response.data) {
+        if (session.api_key) this.sessionKeys.set(session.id, session.api_key);
+      }
+      apiKey = this.sessionKeys.get(sessionId);
+      if (!apiKey) {
+        if (!response.data.some(session => session.id === sessionId)) {
+          throw new WasenderAPIError(`WhatsApp session ${sessionId} was not found.`, 404);
+        }
+        throw new WasenderConfigError(`The API key of WhatsApp session ${sessionId} is not available. Register it with registerSession().`);
+      }
+    }
+    return this.forSession(apiKey);
+  }
+
+  /**
+   * Regenerates the API key of a session and swaps the pooled client for one using the new key.
+   * The client for the old key is removed from the pool.
+   * @returns The client for the new key.
+   */
+  async refreshApiKey(sessionId: number, options?: WasenderRequestOptions): Promise<Wasender> {
+    const { response } = await this.admin().regenerateApiKey(sessionId, options);
+    const oldKey = this.sessionKeys.get(sessionId);
+    if (oldKey) this.remove(oldKey);
+    return this.registerSession(sessionId, response.api_key);
+  }
+
+  /**
+   * Returns the rate limit information from the latest response received with a session API key.
+   */
+  getRateLimitInfo(apiKey: string): RateLimitInfo | undefined {
+    return this.rateLimits.get(apiKey);
+  }
+
+  /** Removes the client for an API key (and any session ID mapped to it) from the pool. */
+  remove(apiKey: string): void {
+    this.clients.delete(apiKey);
+    this.rateLimits.delete(apiKey);
+    for (const [sessionId, key] of this.sessionKeys) {
+      if (key === apiKey) this.sessionKeys.delete(sessionId);
+    }
+  }
+
+  /** API keys of the clients currently in the pool. */
+  keys(): string[] {
+    return [...this.clients.keys()];
+  }
+
+  /**
+   * Client authenticated with the pool's Personal Access Token, for session management.
+   * @throws WasenderConfigError if the pool has no `personalAccessToken`.
+   */
+  admin(): Wasender {
+    if (!this.options.personalAccessToken) {
+      throw new WasenderConfigError("A Personal Access Token is required to manage sessions through the pool.");
+    }
+    if (!this.adminClient) {
+      // The admin client uses the Personal Access Token, so a per-key limiter factory does not apply to it.
+      this.adminClient = new Wasender({ ...this.options, apiKey: undefined, rateLimiter: this.rateLimiter === true });
+    }
+    return this.adminClient;
+  }
+}
+
+/**
+ * Factory function to create a `WasenderPool`.
+ */
+export function createWasenderPool(options: WasenderPoolOptions = {}): WasenderPool {
+  return new WasenderPool(options);
+}
@@ -0,0 +1,155 @@
+/*
+ * Wasender TypeScript SDK - Client-Side Rate Limiter
+ * A token bucket that learns its budget from the X-RateLimit-* response headers and
+ * queues outgoing requests once the server-reported budget is exhausted.
+ */
+
+import type { RateLimitInfo } from "./messages.ts";
+import { WasenderAbortError, WasenderRateLimitError } from "./errors.ts";
+
+/** Snapshot of the limiter's current budget and queue. */
+export interface RateLimiterState {
+  /** Requests allowed per window, as last reported by the server. Null until learned. */
+  limit: number | null;
+  /** Requests left in the current window. Null when unknown (requests are not held back). */
+  remaining: number | null;
+  /** Unix timestamp (in seconds) when the current window resets. Null when unknown. */
+  resetTimestamp: number | null;
+  /** Number of requests waiting for budget. */
+  queueDepth: number;
+}
+
+export interface RateLimiterOptions {
+  /** Maximum number of queued requests. Further requests are rejected. Defaults to unlimited. */
+  maxQueueSize?: number;
+  /** Clock in milliseconds. Injectable for testing. */
+  now?: () => number;
+}
+
+interface QueuedRequest {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Token bucket driven by `RateLimitInfo`. Each request takes one token; the bucket is refilled
+ * to `limit` when the reported window resets. While the budget is unknown, requests pass through.
+ */
+export class RateLimiter {
+  private limit: number | null = null;
+  private remaining: number | null = null;
+  private resetTimestamp: number | null = null;
+  private readonly queue: QueuedRequest[] = [];
+  private wakeHandle?: ReturnType<typeof setTimeout>;
+  private readonly maxQueueSize: number;
+  private readonly now: () => number;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.maxQueueSize = options.maxQueueSize ?? Infinity;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Waits until a token is available, then takes it.
+   * @param signal Optional signal that removes the request from the queue when aborted.
+   * @throws WasenderAbortError if aborted, or WasenderRateLimitError if the queue is full.
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new WasenderAbortError());
+    }
+    if (this.queue.length === 0 && this.tryTake()) {
+      return Promise.resolve();
+    }
+    if (this.queue.length >= this.maxQueueSize) {
+      return Promise.reject(new WasenderRateLimitError("Rate limiter queue is full; request rejected."));
+    }
+    return new Promise<void>((resolve, reject) => {
+      const entry: QueuedRequest = { resolve, reject, signal };
+      if (signal) {
+        entry.onAbort = () => {
+          const index = this.queue.indexOf(entry);
+          if (index !== -1) this.queue.splice(index, 1);
+          this.cancelWakeIfIdle();
+          reject(new WasenderAbortError());
+        };
+        signal.addEventListener("abort", entry.onAbort, { once: true });
+      }
+      this.queue.push(entry);
+      this.scheduleWake();
+    });
+  }
+
+  /** Learns the current budget from the rate limit headers of a response. */
+  update(info: RateLimitInfo | undefined): void {
+    if (!info) return;
+    if (info.limit !== null) this.limit = info.limit;
+    if (info.remaining !== null) this.remaining = info.remaining;
+    if (info.resetTimestamp !== null) this.resetTimestamp = info.resetTimestamp;
+    this.drain();
+  }
+
+  /** Returns the current budget and queue depth. */
+  getState(): RateLimiterState {
+    this.refillIfReset();
+    return {
+      limit: this.limit,
+      remaining: this.remaining,
+      resetTimestamp: this.resetTimestamp,
+      queueDepth: this.queue.length,
+    };
+  }
+
+  private tryTake(): boolean {
+    this.refillIfReset();
+    if (this.remaining === null) return true;
+    if (this.remaining > 0) {
+      this.remaining--;
+      return true;
+    }
+    // Exhausted without a known reset time: nothing would ever refill the bucket, so stop gating.
+    if (this.resetTimestamp === null) {
+      this.remaining = null;
+      return true;
+    }
+    return false;
+  }
+
+  private refillIfReset(): void {
+    if (this.resetTimestamp !== null && this.now() >= this.resetTimestamp * 1000) {
+      this.remaining = this.limit;
+      this.resetTimestamp = null;
+    }
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0) {
+      if (!this.tryTake()) {
+        this.scheduleWake();
+        return;
+      }
+      const entry = this.queue.shift()!;
+      if (entry.signal && entry.onAbort) entry.signal.removeEventListener("abort", entry.onAbort);
+      entry.resolve();
+    }
+    this.cancelWakeIfIdle();
+  }
+
+  private cancelWakeIfIdle(): void {
+    if (this.queue.length === 0 && this.wakeHandle !== undefined) {
+      clearTimeout(this.wakeHandle);
+      this.wakeHandle = undefined;
+    }
+  }
+
+  private scheduleWake(): void {
+    if (this.wakeHandle !== undefined || this.resetTimestamp === null) return;
+    const delay = Math.max(0, this.resetTimestamp * 1000 - this.now());
+    this.wakeHandle = setTimeout(() => {
+      this.wakeHandle = undefined;
+      this.drain();
+    }, delay);
+  }
+}
@@ -0,0 +1,96 @@
+/*
+ * Wasender TypeScript SDK - Retry Policy
+ * Defines the retry configuration and the backoff calculations used by the HTTP client.
+ */
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+/**
+ * How randomness is applied to the exponential backoff delay.
+ * - `none`: use the exact exponential delay.
+ * - `full`: pick a random delay between 0 and the exponential delay.
+ * - `equal`: keep half of the exponential delay and randomize the other half.
+ */
+export type JitterStrategy = "none" | "full" | "equal";
+
+export interface RetryConfig {
+  /** Maximum number of retries per request. Defaults to 0 (no retries). */
+  maxRetries?: number;
+  /** Whether to enable retries. Defaults to false. */
+  enabled?: boolean;
+  /** Delay before the first retry, in milliseconds. Doubles on each subsequent retry. Defaults to 1000. */
+  baseDelayMs?: number;
+  /** Upper bound for a single computed backoff delay, in milliseconds. Defaults to 30000. */
+  maxDelayMs?: number;
+  /** Jitter applied to computed backoff delays. Defaults to 'full'. */
+  jitter?: JitterStrategy;
+  /** HTTP status codes that are retried. Defaults to [429, 500, 502, 503, 504]. */
+  retryableStatusCodes?: number[];
+  /**
+   * Total time budget for a request including all retries and waits, in milliseconds.
+   * A retry is not attempted if its delay would exceed the remaining budget. Defaults to no limit.
+   */
+  maxElapsedMs?: number;
+  /**
+   * Whether non-idempotent requests (POST without an `Idempotency-Key` header) are retried after network errors,
+   * timeouts and 5xx responses. Such failures may happen after the server processed the request, so retrying can
+   * duplicate side effects. HTTP 429 is always retried because the server rejected the request without processing it.
+   * Sends carry an `Idempotency-Key` and are retried regardless. Defaults to false.
+   */
+  retryNonIdempotent?: boolean;
+}
+
+/** A `RetryConfig` with every default applied. `maxElapsedMs` stays optional (no budget). */
+export type ResolvedRetryConfig = Required<Omit<RetryConfig, "maxElapsedMs">> & Pick<RetryConfig, "maxElapsedMs">;
+
+export const DEFAULT_RETRYABLE_STATUS_CODES: readonly number[] = [429, 500, 502, 503, 504];
+
+/** Applies defaults to a user supplied retry configuration. */
+export function resolveRetryConfig(config?: RetryConfig): ResolvedRetryConfig {
+  return {
+    enabled: config?.enabled ?? false,
+    maxRetries: config?.maxRetries ?? 0,
+    baseDelayMs: config?.baseDelayMs ?? 1000,
+    maxDelayMs: config?.maxDelayMs ?? 30000,
+    jitter: config?.jitter ?? "full",
+    retryableStatusCodes: config?.retryableStatusCodes ?? [...DEFAULT_RETRYABLE_STATUS_CODES],
+    maxElapsedMs: config?.maxElapsedMs,
+    retryNonIdempotent: config?.retryNonIdempotent ?? false,
+  };
+}
+
+/** GET, PUT and DELETE can be repeated safely; POST cannot. */
+export function isIdempotentMethod(method: HttpMethod): boolean {
+  return method !== "POST";
+}
+
+/**
+ * Computes the backoff delay before retry number `retry` (1-based).
+ * @param random Source of randomness in [0, 1). Injectable for testing.
+ */
+export function computeBackoffDelay(config: ResolvedRetryConfig, retry: number, random: () => number = Math.random): number {
+  const exponential = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** Math.max(0, retry - 1));
+  switch (config.jitter) {
+    case "full":
+      return Math.floor(random() * exponential);
+    case "equal":
+      return Math.floor(exponential / 2 + random() * (exponential / 2));
+    default:
+      return exponential;
+  }
+}
+
+/**
+ * Parses an HTTP `Retry-After` header, which is either a number of seconds or an HTTP date.
+ * @returns The delay in milliseconds, or `undefined` if the header is missing or malformed.
+ */
+export function parseRetryAfterHeader(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
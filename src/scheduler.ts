@@ -0,0 +1,359 @@
+/*
+ * Wasender TypeScript SDK - Message Scheduler
+ * Sends messages at a given time. Scheduled messages live in a pluggable store (in-memory,
+ * JSON file or SQLite) so that they survive restarts; missed messages are recovered on start.
+ */
+
+import type { Wasender } from "./main.ts";
+import type { WasenderMessagePayload, WasenderSendResult } from "./messages.ts";
+import { WasenderAPIError, WasenderErrorCode, WasenderValidationError } from "./errors.ts";
+import { generateIdempotencyKey } from "./idempotency.ts";
+import { Logger, noopLogger } from "./logger.ts";
+import { RecordStore, InMemoryRecordStore, JsonFileRecordStore, SqliteRecordStore, SqliteDatabase } from "./store.ts";
+
+// ---------- Types ----------
+
+/**
+ * `pending` until sent; `missed` when recovered too late under the catch-up policy.
+ */
+export type ScheduledMessageStatus = "pending" | "sent" | "failed" | "cancelled" | "missed";
+
+/** A scheduled message, as kept in a `ScheduleStore`. Must stay JSON-serializable. */
+export interface ScheduledMessage {
+  id: string;
+  payload: WasenderMessagePayload;
+  /** When to send, in milliseconds since the epoch. */
+  sendAt: number;
+  /** Time zone the send time was given in, if any. Informational. */
+  timeZone?: string;
+  status: ScheduledMessageStatus;
+  /** Sent with the message, so that a send repeated after a crash is not delivered twice. */
+  idempotencyKey: string;
+  createdAt: number;
+  updatedAt: number;
+  /** When the message was sent. */
+  sentAt?: number;
+  /** Why the send failed. */
+  error?: { message: string; code?: WasenderErrorCode; statusCode?: number };
+  /** Free-form data stored with the message (e.g., an appointment ID). */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * When to send: a `Date`, milliseconds since the epoch, or an ISO 8601 string.
+ * A string without a UTC offset (e.g., '2024-05-01T09:00') is a wall-clock time in the applicable time zone.
+ */
+export type ScheduleTime = Date | number | string;
+
+export interface ScheduleOptions {
+  /** Time zone of a wall-clock `at`, e.g. 'Europe/Lisbon'. Defaults to the scheduler's `timeZone`. */
+  timeZone?: string;
+  /** ID of the scheduled message. Generated when omitted. */
+  id?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/** Storage for scheduled messages. Implement `RecordStore` to keep them in your own database. */
+export type ScheduleStore = RecordStore<ScheduledMessage>;
+
+/**
+ * What to do on `start()` with pending messages whose send time has passed.
+ * `send`: send them now (if not later than `maxLatenessMs`). `skip`: mark them `missed`.
+ */
+export type CatchUpPolicy = "send" | "skip";
+
+export interface MessageSchedulerOptions {
+  /** Where scheduled messages are kept. Defaults to an `InMemoryScheduleStore`. */
+  store?: ScheduleStore;
+  /** Policy for messages missed while the scheduler was not running. Defaults to 'send'. */
+  catchUp?: CatchUpPolicy;
+  /** With `catchUp: 'send'`, messages overdue by more than this are marked `missed` instead. Defaults to no limit. */
+  maxLatenessMs?: number;
+  /** Time zone for wall-clock times without one (IANA name). Defaults to UTC. */
+  timeZone?: string;
+  onSent?: (message: ScheduledMessage, result: WasenderSendResult) => void;
+  onFailed?: (message: ScheduledMessage, error: unknown) => void;
+  onMissed?: (message: ScheduledMessage) => void;
+  /** Receives errors thrown by `onSent`, `onFailed` and `onMissed`, which never change a message's status. */
+  logger?: Logger;
+  /** Clock in milliseconds. Injectable for testing. */
+  now?: () => number;
+}
+
+// ---------- Time Zones ----------
+
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?$/;
+
+// Largest delay setTimeout accepts; longer waits are re-armed.
+const MAX_TIMER_DELAY = 2_147_483_647;
+
+/** Offset of `timeZone` from UTC at the instant `epochMs`, in milliseconds. */
+function timeZoneOffset(epochMs: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric", month: "2-digit", day: "2-digit",
+    hour: "2-digit", minute: "2-digit", second: "2-digit",
+  }).formatToParts(new Date(epochMs));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  const wallClock = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return wallClock - Math.floor(epochMs / 1000) * 1000;
+}
+
+/**
+ * Converts a wall-clock time in an IANA time zone to a `Date`.
+ * Times skipped by a daylight saving change resolve to the same clock time after the change.
+ * @param local Date and time without offset, e.g. '2024-03-31T09:30'.
+ * @param timeZone IANA time zone, e.g. 'America/Sao_Paulo'.
+ * @throws WasenderValidationError if the time or the time zone is invalid.
+ */
+export function zonedTimeToDate(local: string, timeZone: string): Date {
+  const match = LOCAL_DATE_TIME.exec(local.trim());
+  if (!match) {
+    throw new WasenderValidationError(`Invalid local date and time "${local}".`, { at: ["Expected YYYY-MM-DDTHH:mm[:ss]."] }, 400);
+  }
+  const [, year, month, day, hour = "0", minute = "0", second = "0", ms = "0"] = match;
+  const wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second, +ms.padEnd(3, "0"));
+  try {
+    const guess = wallClock - timeZoneOffset(wallClock, timeZone);
+    // The offset at the guess may differ from the one at the wall-clock instant around DST changes.
+    return new Date(wallClock - timeZoneOffset(guess, timeZone));
+  } catch {
+    throw new WasenderValidationError(`Invalid time zone "${timeZone}".`, { timeZone: [`Unknown time zone "${timeZone}".`] }, 400);
+  }
+}
+
+function toEpoch(at: ScheduleTime, timeZone: string): number {
+  let epoch: number;
+  if (at instanceof Date) {
+    epoch = at.getTime();
+  } else if (typeof at === "number") {
+    epoch = at;
+  } else if (LOCAL_DATE_TIME.test(at.trim())) {
+    epoch = zonedTimeToDate(at, timeZone).getTime();
+  } else {
+    epoch = Date.parse(at);
+  }
+  if (!Number.isFinite(epoch)) {
+    throw new WasenderValidationError(`Invalid send time "${String(at)}".`, { at: ["Send time must be a valid date."] }, 400);
+  }
+  return epoch;
+}
+
+// ---------- Stores ----------
+
+/** Keeps scheduled messages in memory. They are lost when the process exits. */
+export class InMemoryScheduleStore extends InMemoryRecordStore<ScheduledMessage> {}
+
+/** Keeps scheduled messages in a JSON file (Node.js only). See `JsonFileRecordStore`. */
+export class FileScheduleStore extends JsonFileRecordStore<ScheduledMessage> {}
+
+/** Keeps scheduled messages in a SQLite table, listed by send time. See `SqliteRecordStore`. */
+export class SqliteScheduleStore extends SqliteRecordStore<ScheduledMessage> {
+  constructor(db: SqliteDatabase, table = "wasender_scheduled_messages") {
+    super(db, table, message => message.sendAt);
+  }
+}
+
+// ---------- Scheduler ----------
+
+/**
+ * Sends scheduled messages through a client. Call `start()` once to recover stored messages and
+ * begin sending; messages scheduled before `start()` are stored and sent once it runs.
+ */
+export class MessageScheduler {
+  private readonly store: ScheduleStore;
+  private readonly now: () => number;
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly sending = new Set<string>();
+  private started = false;
+
+  constructor(
+    private readonly client: Pick<Wasender, "send">,
+    private readonly options: MessageSchedulerOptions = {}
+  ) {
+    this.store = options.store ?? new InMemoryScheduleStore();
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Loads pending messages from the store, applies the catch-up policy to overdue ones and arms timers for the rest.
+   * @returns The overdue messages found, after the policy was applied (sent, failed or missed).
+   */
+  async start(): Promise<ScheduledMessage[]> {
+    if (this.started) return [];
+    this.started = true;
+    const now = this.now();
+    const pending = (await this.store.list())
+      .filter(message => message.status === "pending")
+      .sort((a, b) => a.sendAt - b.sendAt);
+    const overdue: ScheduledMessage[] = [];
+    for (const message of pending) {
+      if (message.sendAt > now) {
+        this.arm(message);
+        continue;
+      }
+      const lateness = now - message.sendAt;
+      if ((this.options.catchUp ?? "send") === "skip" || lateness > (this.options.maxLatenessMs ?? Infinity)) {
+        const missed = await this.update(message, { status: "missed" });
+        this.invoke("onMissed", () => this.options.onMissed?.(missed));
+        overdue.push(missed);
+      } else {
+        overdue.push(await this.deliver(message.id) ?? message);
+      }
+    }
+    return overdue;
+  }
+
+  /** Stops all timers. Pending messages stay in the store and are picked up by the next `start()`. */
+  stop(): void {
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+    this.started = false;
+  }
+
+  /**
+   * Schedules a message. A send time in the past sends it as soon as the scheduler runs.
+   * @throws WasenderValidationError if `at` or the time zone is invalid, or the ID is taken.
+   */
+  async schedule(payload: WasenderMessagePayload, at: ScheduleTime, options: ScheduleOptions = {}): Promise<ScheduledMessage> {
+    const timeZone = options.timeZone ?? this.options.timeZone ?? "UTC";
+    const sendAt = toEpoch(at, timeZone);
+    const id = options.id ?? generateIdempotencyKey();
+    if (await this.store.get(id)) {
+      throw new WasenderValidationError(`A scheduled message with ID "${id}" already exists.`, { id: ["Already in use."] }, 400);
+    }
+    const now = this.now();
+    const message: ScheduledMessage = {
+      id,
+      payload,
+      sendAt,
+      timeZone: typeof at === "string" ? timeZone : undefined,
+      status: "pending",
+      idempotencyKey: generateIdempotencyKey(),
+      createdAt: now,
+      updatedAt: now,
+      metadata: options.metadata,
+    };
+    await this.store.save(message);
+    if (this.started) this.arm(message);
+    return message;
+  }
+
+  /** Cancels a pending message. Returns false if it does not exist or is no longer pending. */
+  async cancel(id: string): Promise<boolean> {
+    const message = await this.store.get(id);
+    if (!message || message.status !== "pending" || this.sending.has(id)) return false;
+    this.disarm(id);
+    await this.update(message, { status: "cancelled" });
+    return true;
+  }
+
+  /**
+   * Moves a pending message to a new send time.
+   * @throws WasenderValidationError if the message does not exist or is no longer pending.
+   */
+  async reschedule(id: string, at: ScheduleTime, options: Pick<ScheduleOptions, "timeZone"> = {}): Promise<ScheduledMessage> {
+    const message = await this.store.get(id);
+    if (!message || message.status !== "pending" || this.sending.has(id)) {
+      throw new WasenderValidationError(`Scheduled message "${id}" is not pending.`, { id: ["Not pending."] }, 400);
+    }
+    const timeZone = options.timeZone ?? message.timeZone ?? this.options.timeZone ?? "UTC";
+    const updated = await this.update(message, {
+      sendAt: toEpoch(at, timeZone),
+      timeZone: typeof at === "string" ? timeZone : undefined,
+    });
+    this.disarm(id);
+    if (this.started) this.arm(updated);
+    return updated;
+  }
+
+  /** Returns a scheduled message by ID. */
+  get(id: string): Promise<ScheduledMessage | undefined> {
+    return this.store.get(id);
+  }
+
+  /** Lists scheduled messages by send time, optionally only those with the given status. */
+  async list(filter: { status?: ScheduledMessageStatus } = {}): Promise<ScheduledMessage[]> {
+    const messages = await this.store.list();
+    return messages
+      .filter(message => !filter.status || message.status === filter.status)
+      .sort((a, b) => a.sendAt - b.sendAt);
+  }
+
+  /** Deletes a message from the store, cancelling it if pending. */
+  async remove(id: string): Promise<boolean> {
+    this.disarm(id);
+    return this.store.delete(id);
+  }
+
+  private arm(message: ScheduledMessage): void {
+    this.disarm(message.id);
+    const delay = Math.max(0, message.sendAt - this.now());
+    const timer = setTimeout(() => {
+      this.timers.delete(message.id);
+      if (delay > MAX_TIMER_DELAY) {
+        this.arm(message);
+      } else {
+        // Failures are recorded on the message and reported through onFailed.
+        void this.deliver(message.id).catch(() => undefined);
+      }
+    }, Math.min(delay, MAX_TIMER_DELAY));
+    this.timers.set(message.id, timer);
+  }
+
+  private disarm(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+  }
+
+  /** Sends a pending message and records the outcome. Returns undefined if it was not pending. */
+  private async deliver(id: string): Promise<ScheduledMessage | undefined> {
+    if (this.sending.has(id)) return undefined;
+    this.sending.add(id);
+    try {
+      // Re-read, since the message may have been cancelled or rescheduled meanwhile.
+      const message = await this.store.get(id);
+      if (!message || message.status !== "pending") return undefined;
+      let result: WasenderSendResult;
+      try {
+        // The idempotency key already guards against duplicates, so the client's dedupe window must not block sends.
+        result = await this.client.send(message.payload, { idempotencyKey: message.idempotencyKey, force: true });
+      } catch (error) {
+        const failed = await this.update(message, {
+          status: "failed",
+          error: error instanceof WasenderAPIError
+            ? { message: error.apiMessage, code: error.code, statusCode: error.statusCode }
+            : { message: error instanceof Error ? error.message : String(error) },
+        });
+        this.invoke("onFailed", () => this.options.onFailed?.(failed, error));
+        return failed;
+      }
+      const sent = await this.update(message, { status: "sent", sentAt: this.now(), error: undefined });
+      this.invoke("onSent", () => this.options.onSent?.(sent, result));
+      return sent;
+    } finally {
+      this.sending.delete(id);
+    }
+  }
+
+  private async update(message: ScheduledMessage, changes: Partial<ScheduledMessage>): Promise<ScheduledMessage> {
+    const updated = { ...message, ...changes, updatedAt: this.now() };
+    await this.store.save(updated);
+    return updated;
+  }
+
+  private invoke(name: "onSent" | "onFailed" | "onMissed", callback: () => void): void {
+    try {
+      callback();
+    } catch (error) {
+      (this.options.logger ?? noopLogger).error(`Wasender SDK: Scheduler ${name} callback threw; the message keeps its status.`, {
+        callback: name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -25,6 +25,7 @@ export interface WhatsAppSession {
   webhook_url: string | null;
   webhook_enabled: boolean;
   webhook_events: string[] | null;
+  api_key?: string; // Session API key, when included by the API
   created_at: string; // ISO 8601 date string
   updated_at: string; // ISO 8601 date string
 }
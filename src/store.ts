@@ -0,0 +1,172 @@
+/*
+ * Wasender TypeScript SDK - Record Stores
+ * Persistence for the scheduler and the outbox: a small async key-value interface over
+ * JSON-serializable records, with in-memory, JSON file and SQLite implementations.
+ */
+
+import { WasenderValidationError } from "./errors.ts";
+
+/** A record kept in a `RecordStore`. Must stay JSON-serializable. */
+export interface StoredRecord {
+  id: string;
+  status: string;
+}
+
+/**
+ * Storage for records keyed by ID. All methods may be asynchronous.
+ * Implement it to keep records in your own database.
+ */
+export interface RecordStore<T extends StoredRecord> {
+  /** Inserts or replaces the record with the same ID. */
+  save(record: T): Promise<void>;
+  get(id: string): Promise<T | undefined>;
+  /** Returns whether a record was deleted. */
+  delete(id: string): Promise<boolean>;
+  list(): Promise<T[]>;
+}
+
+function cloneRecord<T>(record: T): T {
+  return JSON.parse(JSON.stringify(record)) as T;
+}
+
+/** Keeps records in memory. They are lost when the process exits. */
+export class InMemoryRecordStore<T extends StoredRecord> implements RecordStore<T> {
+  private readonly records = new Map<string, T>();
+
+  async save(record: T): Promise<void> {
+    this.records.set(record.id, cloneRecord(record));
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    const record = this.records.get(id);
+    return record && cloneRecord(record);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.records.delete(id);
+  }
+
+  async list(): Promise<T[]> {
+    return [...this.records.values()].map(cloneRecord);
+  }
+}
+
+/**
+ * Keeps records in a JSON file (Node.js only). The whole file is rewritten on every change,
+ * through a temporary file and a rename, so it suits up to a few thousand records from a single process.
+ */
+export class JsonFileRecordStore<T extends StoredRecord> implements RecordStore<T> {
+  private records?: Map<string, T>;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  async save(record: T): Promise<void> {
+    const records = await this.load();
+    records.set(record.id, cloneRecord(record));
+    await this.flush();
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    const record = (await this.load()).get(id);
+    return record && cloneRecord(record);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = (await this.load()).delete(id);
+    if (deleted) await this.flush();
+    return deleted;
+  }
+
+  async list(): Promise<T[]> {
+    return [...(await this.load()).values()].map(cloneRecord);
+  }
+
+  private async load(): Promise<Map<string, T>> {
+    if (!this.records) {
+      const { readFile } = await import("node:fs/promises");
+      let stored: T[] = [];
+      try {
+        stored = JSON.parse(await readFile(this.path, "utf8")) as T[];
+      } catch (error) {
+        if ((error as { code?: string }).code !== "ENOENT") throw error;
+      }
+      // Another call may have loaded the file while this one was reading it.
+      this.records ??= new Map(stored.map(record => [record.id, record]));
+    }
+    return this.records;
+  }
+
+  private flush(): Promise<void> {
+    // Writes are chained so that a slow write never overwrites a newer one.
+    const write = this.writes.then(async () => {
+      const { writeFile, rename } = await import("node:fs/promises");
+      const temporaryPath = `${this.path}.tmp`;
+      await writeFile(temporaryPath, JSON.stringify([...this.records!.values()], null, 2), "utf8");
+      await rename(temporaryPath, this.path);
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+}
+
+/** Prepared statement, as returned by `better-sqlite3` and `node:sqlite`. */
+export interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+/** The subset of a synchronous SQLite connection used by the SQLite stores. */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
+/**
+ * Keeps records in a SQLite table, created if missing, as JSON alongside indexed `status` and `sort_key` columns.
+ * Bring your own connection, e.g. `new Database("app.db")` from `better-sqlite3` or `new DatabaseSync("app.db")` from `node:sqlite`.
+ */
+export class SqliteRecordStore<T extends StoredRecord> implements RecordStore<T> {
+  private readonly statements: { save: SqliteStatement; get: SqliteStatement; delete: SqliteStatement; list: SqliteStatement };
+
+  /**
+   * @param sortKey Numeric value `list()` orders records by.
+   * @throws WasenderValidationError if `table` is not a plain SQL identifier.
+   */
+  constructor(db: SqliteDatabase, table: string, private readonly sortKey: (record: T) => number) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new WasenderValidationError(`Invalid table name "${table}".`, undefined, 400);
+    }
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, sort_key INTEGER NOT NULL, status TEXT NOT NULL, data TEXT NOT NULL)`
+    );
+    this.statements = {
+      save: db.prepare(
+        `INSERT INTO ${table} (id, sort_key, status, data) VALUES (?, ?, ?, ?) ` +
+        `ON CONFLICT(id) DO UPDATE SET sort_key = excluded.sort_key, status = excluded.status, data = excluded.data`
+      ),
+      get: db.prepare(`SELECT data FROM ${table} WHERE id = ?`),
+      delete: db.prepare(`DELETE FROM ${table} WHERE id = ?`),
+      list: db.prepare(`SELECT data FROM ${table} ORDER BY sort_key`),
+    };
+  }
+
+  async save(record: T): Promise<void> {
+    this.statements.save.run(record.id, this.sortKey(record), record.status, JSON.stringify(record));
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    const row = this.statements.get.get(id) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as T) : undefined;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = this.statements.delete.run(id) as { changes?: number | bigint } | undefined;
+    return Number(result?.changes ?? 0) > 0;
+  }
+
+  async list(): Promise<T[]> {
+    return (this.statements.list.all() as Array<{ data: string }>).map(row => JSON.parse(row.data) as T);
+  }
+}
@@ -0,0 +1,344 @@
+/*
+ * Wasender TypeScript SDK - Message Templates
+ * Reusable text and media messages with `{{placeholder}}` interpolation, value formatters,
+ * per-locale variants with fallback, and compile-time checking of the variables a template needs.
+ */
+
+import {
+  TextOnlyMessage,
+  ImageUrlMessage,
+  VideoUrlMessage,
+  DocumentUrlMessage,
+  AudioUrlMessage
+} from "./messages.ts";
+import { WasenderValidationError } from "./errors.ts";
+
+// ---------- Template Definitions ----------
+
+/** Message types a template can produce. */
+export type TemplateType = "text" | "image" | "video" | "document" | "audio";
+
+/** Content of one locale variant, per message type. Every string may contain placeholders. */
+export interface TemplateContentByType {
+  text: { text: string };
+  image: { imageUrl: string; text?: string };
+  video: { videoUrl: string; text?: string };
+  document: { documentUrl: string; text?: string; fileName?: string };
+  audio: { audioUrl: string; text?: string };
+}
+
+/** Payload produced by rendering a template, per message type. */
+export interface TemplatePayloadByType {
+  text: TextOnlyMessage;
+  image: ImageUrlMessage;
+  video: VideoUrlMessage;
+  document: DocumentUrlMessage;
+  audio: AudioUrlMessage;
+}
+
+/**
+ * Definition of a template. `locales` maps a locale (e.g., 'en', 'pt-BR') to the content of that variant.
+ */
+export type TemplateDefinition = {
+  [K in TemplateType]: {
+    /** Unique name of the template within a registry. */
+    name: string;
+    type: K;
+    locales: Record<string, TemplateContentByType[K]>;
+    /** Locale used when the requested one (and its language) has no variant. Defaults to the registry's default. */
+    fallbackLocale?: string;
+    /** Default ISO 4217 currency code for `{{amount:currency}}` placeholders. */
+    currency?: string;
+  };
+}[TemplateType];
+
+// ---------- Placeholder Types ----------
+
+type Trim<S extends string> = S extends ` ${infer R}` ? Trim<R> : S extends `${infer R} ` ? Trim<R> : S;
+
+/** Raw contents of every `{{...}}` in `S`. */
+type Placeholders<S extends string> = S extends `${string}{{${infer P}}}${infer Rest}` ? Trim<P> | Placeholders<Rest> : never;
+
+type PlaceholderName<P extends string> = P extends `${infer Name}:${string}` ? Trim<Name> : P;
+
+type PlaceholderFormatter<P extends string> = P extends `${string}:${infer F}` ? Trim<F extends `${infer Name}:${string}` ? Name : F> : never;
+
+/** Value type accepted by a placeholder, based on its formatter. */
+type PlaceholderValue<P extends string> =
+  [PlaceholderFormatter<P>] extends [never] ? string | number | Date
+  : PlaceholderFormatter<P> extends "date" | "time" | "datetime" ? Date | number | string
+  : PlaceholderFormatter<P> extends "currency" | "number" | "percent" ? number
+  : unknown;
+
+type StringValues<T> = T extends string ? T : T extends object ? StringValues<T[keyof T]> : never;
+
+/**
+ * Variables required to render a template definition: one key per placeholder name
+ * across all locale variants, typed by the placeholder's formatter.
+ */
+export type TemplateVariables<D extends TemplateDefinition> = {
+  [P in Placeholders<StringValues<D["locales"]>> as PlaceholderName<P>]: PlaceholderValue<P>;
+};
+
+// ---------- Formatters ----------
+
+/** Context passed to formatters. */
+export interface TemplateFormatContext {
+  locale: string;
+  currency?: string;
+  timeZone?: string;
+}
+
+/**
+ * Formats a placeholder value. `arg` is the optional text after a second colon, e.g. 'EUR' in `{{total:currency:EUR}}`.
+ */
+export type TemplateFormatter = (value: unknown, arg: string | undefined, context: TemplateFormatContext) => string;
+
+function toDate(value: unknown): Date {
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${String(value)} is not a valid date.`);
+  }
+  return date;
+}
+
+function toNumber(value: unknown): number {
+  const number = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(number)) {
+    throw new Error(`${String(value)} is not a valid number.`);
+  }
+  return number;
+}
+
+type DateStyle = "full" | "long" | "medium" | "short";
+
+/** Built-in formatters: `date`, `time`, `datetime` (optional style arg), `number`, `percent` and `currency` (optional code arg). */
+export const DEFAULT_TEMPLATE_FORMATTERS: Readonly<Record<string, TemplateFormatter>> = {
+  date: (value, arg, { locale, timeZone }) =>
+    new Intl.DateTimeFormat(locale, { dateStyle: (arg as DateStyle) ?? "medium", timeZone }).format(toDate(value)),
+  time: (value, arg, { locale, timeZone }) =>
+    new Intl.DateTimeFormat(locale, { timeStyle: (arg as DateStyle) ?? "short", timeZone }).format(toDate(value)),
+  datetime: (value, arg, { locale, timeZone }) =>
+    new Intl.DateTimeFormat(locale, { dateStyle: (arg as DateStyle) ?? "medium", timeStyle: "short", timeZone }).format(toDate(value)),
+  number: (value, _arg, { locale }) => new Intl.NumberFormat(locale).format(toNumber(value)),
+  percent: (value, _arg, { locale }) => new Intl.NumberFormat(locale, { style: "percent" }).format(toNumber(value)),
+  currency: (value, arg, { locale, currency }) => {
+    const code = arg ?? currency;
+    if (!code) {
+      throw new Error("No currency code given; use {{name:currency:USD}} or set `currency`.");
+    }
+    return new Intl.NumberFormat(locale, { style: "currency", currency: code }).format(toNumber(value));
+  },
+};
+
+// ---------- Rendering ----------
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w.]*)\s*(?::\s*([A-Za-z_]\w*)\s*(?::([^}]*))?)?\}\}/g;
+
+/** Per-render settings. */
+export interface TemplateRenderOptions {
+  /** Locale of the variant to render. Falls back to its language, then to the template's fallback locale. */
+  locale?: string;
+  /** Overrides the currency code for `currency` placeholders. */
+  currency?: string;
+  /** Time zone used by date formatters (e.g., 'Europe/Lisbon'). */
+  timeZone?: string;
+}
+
+export interface TemplateRegistryOptions {
+  /** Locale used when neither the render call nor the template selects one. Defaults to 'en'. */
+  defaultLocale?: string;
+  /** Default currency code for `currency` placeholders. */
+  currency?: string;
+  /** Default time zone for date formatters. */
+  timeZone?: string;
+  /** Additional or replacement formatters, usable as `{{name:formatterName}}`. */
+  formatters?: Record<string, TemplateFormatter>;
+}
+
+/**
+ * A template that renders to a `WasenderMessagePayload`.
+ * Create one with `defineTemplate()` or `TemplateRegistry.define()` so that its variables are inferred.
+ */
+export class MessageTemplate<D extends TemplateDefinition = TemplateDefinition> {
+  constructor(
+    public readonly definition: D,
+    private readonly registryOptions: TemplateRegistryOptions = {}
+  ) {
+    validateDefinition(definition);
+  }
+
+  get name(): D["name"] {
+    return this.definition.name;
+  }
+
+  /** Locales this template has variants for. */
+  get locales(): string[] {
+    return Object.keys(this.definition.locales);
+  }
+
+  /**
+   * Renders the template for a recipient.
+   * @param to Recipient phone number, group JID or channel JID.
+   * @param variables A value for every placeholder used by the template.
+   * @throws WasenderValidationError if a variable is missing or cannot be formatted.
+   */
+  render(to: string, variables: TemplateVariables<D>, options: TemplateRenderOptions = {}): TemplatePayloadByType[D["type"]] {
+    const locale = this.resolveLocale(options.locale);
+    const context: TemplateFormatContext = {
+      // Format with the requested locale when the variant shares its language, so 'pt-BR' renders
+      // the 'pt' text with Brazilian number and date formats.
+      locale: options.locale && language(options.locale) === language(locale) ? options.locale : locale,
+      currency: options.currency ?? this.definition.currency ?? this.registryOptions.currency,
+      timeZone: options.timeZone ?? this.registryOptions.timeZone,
+    };
+    const content = this.definition.locales[locale] as Record<string, string | undefined>;
+    const values = variables as Record<string, unknown>;
+    const errors: Record<string, string[]> = {};
+
+    const rendered: Record<string, string> = {};
+    for (const [field, template] of Object.entries(content)) {
+      if (template === undefined) continue;
+      rendered[field] = template.replace(PLACEHOLDER, (_match, name: string, formatter?: string, arg?: string) => {
+        const value = values[name];
+        if (value === undefined || value === null) {
+          errors[name] = [`Missing value for template variable "${name}".`];
+          return "";
+        }
+        try {
+          return this.format(value, formatter, arg?.trim() || undefined, context);
+        } catch (error) {
+          errors[name] = [`Cannot format template variable "${name}": ${error instanceof Error ? error.message : String(error)}`];
+          return "";
+        }
+      });
+    }
+
+    if (Object.keys(errors).length > 0) {
+      throw new WasenderValidationError(
+        `Cannot render template "${this.definition.name}" (${locale}): ${Object.values(errors).flat().join(" ")}`,
+        errors, 400
+      );
+    }
+    return { ...rendered, to, messageType: this.definition.type } as unknown as TemplatePayloadByType[D["type"]];
+  }
+
+  /** Picks the variant for `requested`: exact match, then same language, then the fallback and default locales. */
+  resolveLocale(requested?: string): string {
+    const available = this.definition.locales;
+    const candidates = [
+      requested,
+      requested && language(requested),
+      this.definition.fallbackLocale,
+      this.registryOptions.defaultLocale ?? "en",
+    ];
+    for (const candidate of candidates) {
+      if (candidate && Object.prototype.hasOwnProperty.call(available, candidate)) return candidate;
+    }
+    // Last resort: a variant of the same language (e.g., 'pt-BR' for 'pt-PT'), then the first variant.
+    return Object.keys(available).find(locale => requested && language(locale) === language(requested)) ?? Object.keys(available)[0];
+  }
+
+  private format(value: unknown, formatter: string | undefined, arg: string | undefined, context: TemplateFormatContext): string {
+    const formatters = { ...DEFAULT_TEMPLATE_FORMATTERS, ...this.registryOptions.formatters };
+    if (formatter) {
+      const format = formatters[formatter];
+      if (!format) {
+        throw new Error(`Unknown formatter "${formatter}".`);
+      }
+      return format(value, arg, context);
+    }
+    return value instanceof Date ? formatters.date(value, undefined, context) : String(value);
+  }
+}
+
+function language(locale: string): string {
+  return locale.split("-")[0].toLowerCase();
+}
+
+const REQUIRED_FIELD: Readonly<Record<TemplateType, string>> = {
+  text: "text",
+  image: "imageUrl",
+  video: "videoUrl",
+  document: "documentUrl",
+  audio: "audioUrl",
+};
+
+function validateDefinition(definition: TemplateDefinition): void {
+  const locales = Object.entries(definition.locales ?? {});
+  if (!definition.name) {
+    throw new WasenderValidationError("Template name is required.", { name: ["Template name is required."] }, 400);
+  }
+  if (locales.length === 0) {
+    throw new WasenderValidationError(`Template "${definition.name}" has no locale variants.`, undefined, 400);
+  }
+  const field = REQUIRED_FIELD[definition.type];
+  if (!field) {
+    throw new WasenderValidationError(`Template "${definition.name}" has an unsupported type "${definition.type}".`, undefined, 400);
+  }
+  for (const [locale, content] of locales) {
+    const value = (content as Record<string, unknown>)[field];
+    if (typeof value !== "string" || value === "") {
+      throw new WasenderValidationError(
+        `Template "${definition.name}" (${locale}) is missing "${field}".`,
+        { [`${locale}.${field}`]: [`"${field}" is required for ${definition.type} templates.`] },
+        400
+      );
+    }
+  }
+}
+
+/**
+ * Creates a standalone template with the built-in formatters.
+ * @example
+ * const welcome = defineTemplate({ name: "welcome", type: "text", locales: { en: { text: "Hi {{name}}!" } } });
+ * wasender.send(welcome.render("+1234567890", { name: "Ana" }));
+ */
+export function defineTemplate<const D extends TemplateDefinition>(definition: D): MessageTemplate<D> {
+  return new MessageTemplate(definition);
+}
+
+/**
+ * Named collection of templates sharing a default locale, currency, time zone and custom formatters.
+ */
+export class TemplateRegistry {
+  private readonly templates = new Map<string, MessageTemplate>();
+
+  constructor(private readonly options: TemplateRegistryOptions = {}) {}
+
+  /**
+   * Creates and registers a template. Keep the returned template for type-checked rendering.
+   * @throws WasenderValidationError if a template with the same name is already registered.
+   */
+  define<const D extends TemplateDefinition>(definition: D): MessageTemplate<D> {
+    if (this.templates.has(definition.name)) {
+      throw new WasenderValidationError(`Template "${definition.name}" is already registered.`, undefined, 400);
+    }
+    const template = new MessageTemplate(definition, this.options);
+    this.templates.set(definition.name, template as unknown as MessageTemplate);
+    return template;
+  }
+
+  /** Returns the template registered under `name`, if any. */
+  get(name: string): MessageTemplate | undefined {
+    return this.templates.get(name);
+  }
+
+  /** Names of all registered templates. */
+  names(): string[] {
+    return [...this.templates.keys()];
+  }
+
+  /**
+   * Renders a template by name. Variables are checked at runtime only; render through the template
+   * returned by `define()` to have them checked at compile time.
+   * @throws WasenderValidationError if the template does not exist or a variable is missing.
+   */
+  render(name: string, to: string, variables: Record<string, unknown>, options?: TemplateRenderOptions): TemplatePayloadByType[TemplateType] {
+    const template = this.templates.get(name);
+    if (!template) {
+      throw new WasenderValidationError(`Template "${name}" is not registered.`, undefined, 400);
+    }
+    return template.render(to, variables as TemplateVariables<TemplateDefinition>, options);
+  }
+}
@@ -0,0 +1,381 @@
+/*
+ * Wasender TypeScript SDK - vCards
+ * Serializes and parses vCard 3.0 and 4.0 contact cards, converts them for contact messages,
+ * and decodes the contact cards of incoming messages.
+ */
+
+import type { ContactCardInput, ContactCardPayload } from "./messages.ts";
+import type { MessageContent } from "./webhook.ts";
+import { WasenderValidationError } from "./errors.ts";
+import { parsePhoneNumber } from "./phone.ts";
+
+// ---------- Contact Model ----------
+
+export interface VCardPhone {
+  /** The number as it should be shown, e.g. '+1 555-010-9999'. */
+  number: string;
+  /** e.g. 'cell', 'work', 'home'. */
+  type?: string;
+  /**
+   * WhatsApp ID of the number, i.e. its digits in international format. WhatsApp offers
+   * to message the contact only for numbers with one. Set automatically for valid international numbers.
+   */
+  waid?: string;
+}
+
+export interface VCardEmail {
+  address: string;
+  /** e.g. 'work', 'home'. */
+  type?: string;
+}
+
+export interface VCardAddress {
+  street?: string;
+  city?: string;
+  region?: string;
+  postalCode?: string;
+  country?: string;
+  /** e.g. 'work', 'home'. */
+  type?: string;
+}
+
+/** A contact card. Only `name` is required. */
+export interface VCardContact {
+  /** Display name (FN). */
+  name: string;
+  firstName?: string;
+  lastName?: string;
+  organization?: string;
+  department?: string;
+  title?: string;
+  phones?: VCardPhone[];
+  emails?: VCardEmail[];
+  urls?: string[];
+  addresses?: VCardAddress[];
+  /** Birthday, e.g. '1990-04-23'. */
+  birthday?: string;
+  note?: string;
+}
+
+export type VCardVersion = "3.0" | "4.0";
+
+export interface VCardOptions {
+  /** Defaults to '3.0', the version WhatsApp itself sends. */
+  version?: VCardVersion;
+}
+
+function invalid(field: string, message: string): WasenderValidationError {
+  return new WasenderValidationError(message, { [field]: [message] }, 400);
+}
+
+// ---------- Serialization ----------
+
+function escapeValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\r\n|\r|\n/g, "\\n").replace(/([,;])/g, "\\$1");
+}
+
+function structured(...components: Array<string | undefined>): string {
+  return components.map(component => escapeValue(component ?? "")).join(";");
+}
+
+/** Folds a content line to at most 75 octets per line (RFC 6350, section 3.2), without splitting characters. */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their 75 octets.
+    if (size + bytes > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+function whatsAppId(phone: VCardPhone): string | undefined {
+  if (phone.waid) return phone.waid;
+  if (!phone.number.trim().startsWith("+")) return undefined;
+  try {
+    return parsePhoneNumber(phone.number).e164.slice(1);
+  } catch {
+    return undefined;
+  }
+}
+
+function typeParam(type: string | undefined, version: VCardVersion): string {
+  if (!type) return "";
+  return version === "3.0" ? `;type=${type.toUpperCase()}` : `;TYPE=${type.toLowerCase()}`;
+}
+
+/**
+ * Serializes a contact as a vCard, with CRLF line endings and folded long lines.
+ * @throws WasenderValidationError if the contact has no name, or a phone number or email is empty.
+ */
+export function toVCard(contact: VCardContact, options: VCardOptions = {}): string {
+  const version = options.version ?? "3.0";
+  if (typeof contact?.name !== "string" || contact.name.trim() === "") {
+    throw invalid("contact.name", "contact.name must be a non-empty string.");
+  }
+
+  const lines = ["BEGIN:VCARD", `VERSION:${version}`];
+  lines.push(`N:${structured(contact.lastName, contact.firstName ?? (contact.lastName ? undefined : contact.name), "", "", "")}`);
+  lines.push(`FN:${escapeValue(contact.name)}`);
+  if (contact.organization || contact.department) lines.push(`ORG:${structured(contact.organization, ...(contact.department ? [contact.department] : []))}`);
+  if (contact.title) lines.push(`TITLE:${escapeValue(contact.title)}`);
+
+  for (const phone of contact.phones ?? []) {
+    if (typeof phone?.number !== "string" || phone.number.trim() === "") {
+      throw invalid("contact.phones", "Every phone must have a number.");
+    }
+    const waid = whatsAppId(phone);
+    if (version === "3.0") {
+      lines.push(`TEL${typeParam(phone.type, version)}${waid ? `;waid=${waid}` : ""}:${escapeValue(phone.number)}`);
+    } else {
+      // vCard 4.0 phone numbers are tel: URIs, which take no spaces or punctuation.
+      const uri = waid ? `tel:+${waid}` : `tel:${phone.number.replace(/[^\d+*#]/g, "")}`;
+      lines.push(`TEL;VALUE=uri${typeParam(phone.type, version)}:${uri}`);
+    }
+  }
+  for (const email of contact.emails ?? []) {
+    if (typeof email?.address !== "string" || email.address.trim() === "") {
+      throw invalid("contact.emails", "Every email must have an address.");
+    }
+    lines.push(`EMAIL${typeParam(email.type, version)}:${escapeValue(email.address)}`);
+  }
+  for (const url of contact.urls ?? []) lines.push(`URL:${url}`);
+  for (const address of contact.addresses ?? []) {
+    const value = structured("", "", address.street, address.city, address.region, address.postalCode, address.country);
+    lines.push(`ADR${typeParam(address.type, version)}:${value}`);
+  }
+  if (contact.birthday) lines.push(`BDAY:${contact.birthday}`);
+  if (contact.note) lines.push(`NOTE:${escapeValue(contact.note)}`);
+  lines.push("END:VCARD");
+
+  return lines.map(foldLine).join("\r\n");
+}
+
+// ---------- Parsing ----------
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string[]>;
+  value: string;
+}
+
+/** Splits on `separator` outside double quotes. */
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseContentLine(line: string): ContentLine | undefined {
+  let colon = -1;
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ":" && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon <= 0) return undefined;
+
+  const [rawName, ...rawParams] = splitOutsideQuotes(line.slice(0, colon), ";");
+  // Drops group prefixes such as 'item1.' in 'item1.TEL'.
+  const name = rawName.slice(rawName.lastIndexOf(".") + 1).toUpperCase();
+  const params: Record<string, string[]> = {};
+  for (const param of rawParams) {
+    const equals = param.indexOf("=");
+    // vCard 2.1 allows bare types, e.g. 'TEL;CELL:...'.
+    const key = equals < 0 ? "TYPE" : param.slice(0, equals).toUpperCase();
+    const values = (equals < 0 ? param : param.slice(equals + 1)).replace(/"/g, "").split(",");
+    params[key] = [...(params[key] ?? []), ...values];
+  }
+  return { name, params, value: line.slice(colon + 1) };
+}
+
+function unescapeValue(value: string): string {
+  return value.replace(/\\([\\,;nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+function components(value: string): string[] {
+  return value.split(/(?<!\\);/).map(component => unescapeValue(component).trim());
+}
+
+const GENERIC_TYPES = new Set(["voice", "pref", "internet", "x400"]);
+
+function typeOf(params: Record<string, string[]>): string | undefined {
+  return (params.TYPE ?? []).map(type => type.toLowerCase()).find(type => type && !GENERIC_TYPES.has(type));
+}
+
+function parseCard(lines: ContentLine[]): VCardContact {
+  const contact: VCardContact = { name: "" };
+  for (const { name, params, value } of lines) {
+    switch (name) {
+      case "FN":
+        contact.name = unescapeValue(value).trim();
+        break;
+      case "N": {
+        const [lastName, firstName] = components(value);
+        if (lastName) contact.lastName = lastName;
+        if (firstName) contact.firstName = firstName;
+        break;
+      }
+      case "ORG": {
+        const [organization, ...units] = components(value);
+        if (organization) contact.organization = organization;
+        if (units.some(Boolean)) contact.department = units.filter(Boolean).join(", ");
+        break;
+      }
+      case "TITLE":
+        contact.title = unescapeValue(value).trim();
+        break;
+      case "TEL": {
+        const phone: VCardPhone = { number: unescapeValue(value).trim().replace(/^tel:/i, "") };
+        const type = typeOf(params);
+        if (type) phone.type = type;
+        if (params.WAID?.[0]) phone.waid = params.WAID[0];
+        (contact.phones ??= []).push(phone);
+        break;
+      }
+      case "EMAIL": {
+        const email: VCardEmail = { address: unescapeValue(value).trim() };
+        const type = typeOf(params);
+        if (type) email.type = type;
+        (contact.emails ??= []).push(email);
+        break;
+      }
+      case "URL":
+        (contact.urls ??= []).push(unescapeValue(value).trim());
+        break;
+      case "ADR": {
+        const [, , street, city, region, postalCode, country] = components(value);
+        const address: VCardAddress = {};
+        Object.entries({ street, city, region, postalCode, country }).forEach(([key, part]) => {
+          if (part) address[key as Exclude<keyof VCardAddress, "type">] = part;
+        });
+        const type = typeOf(params);
+        if (type) address.type = type;
+        (contact.addresses ??= []).push(address);
+        break;
+      }
+      case "BDAY":
+        contact.birthday = value.trim();
+        break;
+      case "NOTE":
+        contact.note = unescapeValue(value);
+        break;
+    }
+  }
+  if (!contact.name) {
+    contact.name = [contact.firstName, contact.lastName].filter(Boolean).join(" ") || contact.organization || "";
+  }
+  return contact;
+}
+
+/**
+ * Parses every card in a vCard 2.1, 3.0 or 4.0 document. Unknown properties are ignored.
+ * @throws WasenderValidationError if the text contains no vCard.
+ */
+export function parseVCards(text: string): VCardContact[] {
+  const lines = String(text ?? "").replace(/\r\n?/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+  const cards: ContentLine[][] = [];
+  let current: ContentLine[] | undefined;
+  for (const line of lines) {
+    if (/^BEGIN:VCARD\s*$/i.test(line)) {
+      current = [];
+    } else if (/^END:VCARD\s*$/i.test(line)) {
+      if (current) cards.push(current);
+      current = undefined;
+    } else if (current && line.trim()) {
+      const parsed = parseContentLine(line);
+      if (parsed) current.push(parsed);
+    }
+  }
+  if (cards.length === 0) {
+    throw invalid("vcard", "No vCard found (expected BEGIN:VCARD ... END:VCARD).");
+  }
+  return cards.map(parseCard);
+}
+
+/**
+ * Parses the first card of a vCard document.
+ * @throws WasenderValidationError if the text contains no vCard.
+ */
+export function parseVCard(text: string): VCardContact {
+  return parseVCards(text)[0];
+}
+
+// ---------- Messages ----------
+
+function isContactCardPayload(input: ContactCardPayload | VCardContact): input is ContactCardPayload {
+  return typeof (input as ContactCardPayload).phone === "string" && !("phones" in input);
+}
+
+/** The first phone number of a contact, which the API requires alongside the vCard. */
+function firstPhone(contact: VCardContact): string {
+  const phone = contact.phones?.find(candidate => candidate.number?.trim())?.number;
+  if (!phone) {
+    throw invalid("phones", `Contact "${contact.name}" must have at least one phone number.`);
+  }
+  return phone;
+}
+
+/**
+ * Converts a contact given to a contact message into the payload sent to the API.
+ * `{ name, phone }` is sent as is; rich contacts and raw vCards are sent with their vCard,
+ * plus the name and first phone number.
+ * @throws WasenderValidationError if the contact is invalid or has no phone number.
+ */
+export function toContactCardPayload(input: ContactCardInput): ContactCardPayload {
+  if (typeof input === "string") {
+    const contact = parseVCard(input);
+    return { name: contact.name, phone: firstPhone(contact), vcard: input };
+  }
+  if (isContactCardPayload(input)) {
+    return input;
+  }
+  return { name: input.name, phone: firstPhone(input), vcard: toVCard(input) };
+}
+
+/**
+ * Decodes the contact cards of an incoming message, from `contactMessage` or `contactsArrayMessage`.
+ * Cards without a parsable vCard are returned with their display name only.
+ * @returns The contacts, or an empty array if the message carries none.
+ */
+export function contactsFromMessage(message: MessageContent | undefined): VCardContact[] {
+  const cards = [
+    ...(message?.contactMessage ? [message.contactMessage] : []),
+    ...(message?.contactsArrayMessage?.contacts ?? []),
+  ];
+  return cards.map(card => {
+    try {
+      if (card.vcard) {
+        const contact = parseVCard(card.vcard);
+        return card.displayName && !contact.name ? { ...contact, name: card.displayName } : contact;
+      }
+    } catch {
+      // Falls back to the display name below.
+    }
+    return { name: card.displayName ?? "" };
+  });
+}
@@ -61,6 +61,7 @@ export const WasenderWebhookEventType = {
   MessagesUpdate: 'messages.update',      // Message status update (e.g., delivered, read by recipient)
   MessagesDelete: 'messages.delete',
   MessagesReaction: 'messages.reaction',
+  MessagesPollVote: 'messages.poll-vote',  // A vote on a poll was cast, changed or retracted
   // Message Receipt (specific to a user in a group or a direct chat)
   MessageReceiptUpdate: 'message-receipt.update',
   // Session Events
@@ -156,7 +157,9 @@ export interface MessageContent {
   audioMessage?: { url?: string; mimetype?: string; duration?: number; /* ... */ };
   stickerMessage?: { url?: string; mimetype?: string; /* ... */ };
   contactMessage?: { displayName?: string; vcard?: string; /* ... */ };
+  contactsArrayMessage?: { displayName?: string; contacts?: Array<{ displayName?: string; vcard?: string }>; /* ... */ };
   locationMessage?: { degreesLatitude?: number; degreesLongitude?: number; name?: string; address?: string; /* ... */ };
+  pollCreationMessage?: { name?: string; options?: Array<{ optionName?: string }>; selectableOptionsCount?: number; /* ... */ };
   // ... add other message types like extendedTextMessage, buttonsMessage, templateMessage, etc.
 }
 
@@ -197,6 +200,17 @@ export interface MessagesReactionDataEntry {
 }
 export type MessagesReactionEvent = BaseWebhookEvent<typeof WasenderWebhookEventType.MessagesReaction, MessagesReactionDataEntry[]>;
 
+export interface PollVote {
+    voter: string; // JID of the user who voted
+    selectedOptions: string[]; // Names of the selected options; empty when the vote was retracted
+    senderTimestampMs?: number | string; // Timestamp of when the vote was cast
+}
+export interface MessagesPollVoteDataEntry {
+    key: MessageKey; // Key of the poll message
+    vote: PollVote; // The voter's current selection, replacing any earlier vote
+}
+export type MessagesPollVoteEvent = BaseWebhookEvent<typeof WasenderWebhookEventType.MessagesPollVote, MessagesPollVoteDataEntry[]>;
+
 // ---------- Message Receipt Update Event Payloads ----------
 export interface Receipt {
     userJid: string; // ID of the user whose receipt status changed
@@ -244,6 +258,7 @@ export type WasenderWebhookEvent =
   | MessagesUpdateEvent
   | MessagesDeleteEvent
   | MessagesReactionEvent
+  | MessagesPollVoteEvent
   | MessageReceiptUpdateEvent
   | MessageSentEvent
   | SessionStatusEvent
@@ -0,0 +1,83 @@
+import { Message } from '../src/builder';
+import { WasenderValidationError } from '../src/errors';
+import { WasenderMessagePayload } from '../src/messages';
+
+describe('Message builder', () => {
+  it('builds a text message', () => {
+    expect(Message.to('+1234567890').text('Hello').build()).toEqual({ messageType: 'text', to: '+1234567890', text: 'Hello' });
+  });
+
+  it('builds captioned media messages', () => {
+    expect(Message.to('123').image('https://example.com/a.png').caption('Look').build())
+      .toEqual({ messageType: 'image', to: '123', imageUrl: 'https://example.com/a.png', text: 'Look' });
+    expect(Message.to('123').video('https://example.com/a.mp4').build())
+      .toEqual({ messageType: 'video', to: '123', videoUrl: 'https://example.com/a.mp4' });
+    expect(Message.to('123').audio('https://example.com/a.ogg').build())
+      .toEqual({ messageType: 'audio', to: '123', audioUrl: 'https://example.com/a.ogg' });
+  });
+
+  it('builds a document with a file name', () => {
+    expect(Message.to('123').document('https://example.com/f').fileName('invoice.pdf').caption('Invoice').build())
+      .toEqual({ messageType: 'document', to: '123', documentUrl: 'https://example.com/f', fileName: 'invoice.pdf', text: 'Invoice' });
+  });
+
+  it('builds a sticker without caption support', () => {
+    const sticker = Message.to('123').sticker('https://example.com/s.webp');
+    expect('caption' in sticker).toBe(false);
+    expect(sticker.build()).toEqual({ messageType: 'sticker', to: '123', stickerUrl: 'https://example.com/s.webp' });
+  });
+
+  it('builds a contact card', () => {
+    expect(Message.to('123').contact('Jane Doe', '+1987654321').build())
+      .toEqual({ messageType: 'contact', to: '123', contact: { name: 'Jane Doe', phone: '+1987654321' } });
+  });
+
+  it('builds a location and converts string coordinates to numbers', () => {
+    expect(Message.to('123').location('37.7749', -122.4194).name('HQ').address('1 Market St').build()).toEqual({
+      messageType: 'location',
+      to: '123',
+      location: { latitude: 37.7749, longitude: -122.4194, name: 'HQ', address: '1 Market St' },
+    });
+  });
+
+  it('produces payloads assignable to WasenderMessagePayload', () => {
+    const payload: WasenderMessagePayload = Message.to('123').image('https://example.com/a.png').build();
+    expect(payload.messageType).toBe('image');
+  });
+
+  it('adds a quoted message and mentions', () => {
+    const key = { id: 'ABC', fromMe: false, remoteId: '123-456@g.us', participant: '15550109999@s.whatsapp.net' };
+    expect(Message.to('123-456@g.us').text('@15550109999 thanks').quote(key).mention('15550109999').mention('+447700900123').build())
+      .toEqual({
+        messageType: 'text', to: '123-456@g.us', text: '@15550109999 thanks', quoted: key, mentions: ['15550109999', '+447700900123'],
+      });
+  });
+
+  it('returns independent copies from build()', () => {
+    const builder = Message.to('123').location(1, 2);
+    const first = builder.build();
+    builder.name('Later');
+    expect(first.location.name).toBeUndefined();
+  });
+
+  it.each([
+    ['an empty recipient', () => Message.to(' '), 'to'],
+    ['empty text', () => Message.to('123').text(''), 'text'],
+    ['a relative URL', () => Message.to('123').image('/a.png'), 'imageUrl'],
+    ['a non-http URL', () => Message.to('123').video('ftp://example.com/a.mp4'), 'videoUrl'],
+    ['an out-of-range latitude', () => Message.to('123').location(91, 0), 'latitude'],
+    ['a non-numeric longitude', () => Message.to('123').location(0, 'east'), 'longitude'],
+    ['an empty contact phone', () => Message.to('123').contact('Jane', ''), 'contact.phone'],
+    ['an empty caption', () => Message.to('123').image('https://example.com/a.png').caption(''), 'text'],
+    ['a quote without an ID', () => Message.to('123').text('Hi').quote({ id: '', fromMe: false, remoteId: '123' }), 'quoted'],
+  ])('rejects %s', (_case, build, field) => {
+    let error: WasenderValidationError | undefined;
+    try {
+      build();
+    } catch (e) {
+      error = e as WasenderValidationError;
+    }
+    expect(error).toBeInstanceOf(WasenderValidationError);
+    expect(error!.fieldErrors(field)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,191 @@
+import { BulkSendJob, BulkSendFunction, BulkSendProgress } from '../src/bulk';
+import { createWasender, FetchImplementation } from '../src/main';
+import { WasenderAPIError, WasenderRateLimitError, WasenderValidationError } from '../src/errors';
+import { WasenderMessagePayload, WasenderSendResult } from '../src/messages';
+
+const ok = (rateLimit?: WasenderSendResult['rateLimit']): WasenderSendResult => ({
+  response: { success: true, message: 'sent' },
+  rateLimit,
+});
+
+const text = (to: string): WasenderMessagePayload => ({ messageType: 'text', to, text: 'Hi' });
+
+describe('BulkSendJob', () => {
+  it('sends to every recipient and reports the results in order', async () => {
+    const sendFn = jest.fn<ReturnType<BulkSendFunction>, Parameters<BulkSendFunction>>(async payload => {
+      if (payload.to === 'bad') throw new WasenderValidationError('Invalid number', { to: ['Invalid'] });
+      return ok();
+    });
+    const report = await new BulkSendJob(sendFn, ['a', 'bad', 'c'], text, { concurrency: 2 });
+
+    expect(sendFn).toHaveBeenCalledTimes(3);
+    expect(report.state).toBe('completed');
+    expect(report.results.map(r => [r.to, r.status, r.attempts])).toEqual([['a', 'sent', 1], ['bad', 'failed', 1], ['c', 'sent', 1]]);
+    expect(report.failed[0].error).toMatchObject({ name: 'WasenderValidationError', code: 'validation_error', statusCode: 422, errorDetails: { to: ['Invalid'] } });
+  });
+
+  it('never exceeds the configured concurrency', async () => {
+    let active = 0;
+    let peak = 0;
+    const sendFn: BulkSendFunction = async () => {
+      peak = Math.max(peak, ++active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+      return ok();
+    };
+    await new BulkSendJob(sendFn, Array.from({ length: 10 }, (_, i) => String(i)), text, { concurrency: 3 });
+    expect(peak).toBe(3);
+  });
+
+  it('paces messages per minute', async () => {
+    const starts: number[] = [];
+    const sendFn: BulkSendFunction = async () => { starts.push(Date.now()); return ok(); };
+    await new BulkSendJob(sendFn, ['a', 'b', 'c'], text, { concurrency: 3, messagesPerMinute: 1200 });
+    expect(starts[2] - starts[0]).toBeGreaterThanOrEqual(95);
+  });
+
+  it('retries recipients rejected with 429 after retryAfter', async () => {
+    let calls = 0;
+    const sendFn: BulkSendFunction = async () => {
+      if (++calls === 1) throw new WasenderRateLimitError('Too many requests', 0.01);
+      return ok();
+    };
+    const report = await new BulkSendJob(sendFn, ['a'], text);
+    expect(report.results[0]).toMatchObject({ status: 'sent', attempts: 2 });
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const sendFn: BulkSendFunction = async () => { throw new WasenderRateLimitError('Too many requests', 0.001); };
+    const report = await new BulkSendJob(sendFn, ['a'], text, { maxAttempts: 2 });
+    expect(report.results[0]).toMatchObject({ status: 'failed', attempts: 2, error: { code: 'rate_limited', statusCode: 429 } });
+  });
+
+  it('waits for the rate limit window to reset when the budget is exhausted', async () => {
+    const starts: number[] = [];
+    const resetTimestamp = (Date.now() + 100) / 1000;
+    const sendFn: BulkSendFunction = async () => {
+      starts.push(Date.now());
+      return ok({ limit: 1, remaining: starts.length === 1 ? 0 : 1, resetTimestamp });
+    };
+    const job = new BulkSendJob(sendFn, ['a', 'b'], text, { concurrency: 1 });
+    await job;
+    expect(starts[1]).toBeGreaterThanOrEqual(resetTimestamp * 1000 - 5);
+    expect(job.getProgress().rateLimit).toMatchObject({ limit: 1 });
+  });
+
+  it('records factory failures without sending', async () => {
+    const sendFn = jest.fn<ReturnType<BulkSendFunction>, Parameters<BulkSendFunction>>(async () => ok());
+    const report = await new BulkSendJob(sendFn, [1, 2], async n => {
+      if (n === 2) throw new Error('no template');
+      return text(String(n));
+    });
+    expect(sendFn).toHaveBeenCalledTimes(1);
+    expect(report.results[1]).toMatchObject({ recipient: 2, status: 'failed', attempts: 0, error: { message: 'no template' } });
+  });
+
+  it('pauses, resumes and emits progress', async () => {
+    const progress: BulkSendProgress[] = [];
+    let job!: BulkSendJob<string>;
+    const sendFn: BulkSendFunction = async payload => {
+      if (payload.to === 'a') job.pause();
+      return ok();
+    };
+    job = new BulkSendJob(sendFn, ['a', 'b', 'c'], text, { concurrency: 1, onProgress: p => progress.push(p) });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(job.getState()).toBe('paused');
+    expect(job.getProgress()).toMatchObject({ completed: 1, sent: 1 });
+
+    job.resume();
+    const report = await job;
+    expect(report.sent).toHaveLength(3);
+    expect(progress.map(p => p.state)).toContain('paused');
+    expect(progress[progress.length - 1]).toMatchObject({ state: 'completed', completed: 3, total: 3 });
+  });
+
+  it('cancels, skipping recipients that were not started', async () => {
+    let job!: BulkSendJob<string>;
+    const sendFn: BulkSendFunction = async payload => {
+      if (payload.to === 'b') job.cancel();
+      return ok();
+    };
+    job = new BulkSendJob(sendFn, ['a', 'b', 'c', 'd'], text, { concurrency: 1 });
+    const report = await job.done;
+    expect(report.state).toBe('cancelled');
+    expect(report.results.map(r => r.status)).toEqual(['sent', 'sent', 'skipped', 'skipped']);
+    expect(job.getState()).toBe('cancelled');
+  });
+
+  it('skips recipients cancelled while waiting to retry after a 429', async () => {
+    let job!: BulkSendJob<string>;
+    const sendFn: BulkSendFunction = async () => {
+      setTimeout(() => job.cancel(), 5);
+      throw new WasenderRateLimitError('Too many requests', 60);
+    };
+    job = new BulkSendJob(sendFn, ['a'], text);
+    const report = await job.done;
+    expect(report.state).toBe('cancelled');
+    expect(report.results[0]).toMatchObject({ status: 'skipped', attempts: 1, error: { code: 'rate_limited' } });
+  });
+
+  it('cancels through an abort signal, also while paused', async () => {
+    const controller = new AbortController();
+    const job = new BulkSendJob(async () => ok(), ['a', 'b'], text, { concurrency: 1, signal: controller.signal });
+    job.pause();
+    controller.abort();
+    const report = await job;
+    expect(report.state).toBe('cancelled');
+    expect(report.skipped.length).toBeGreaterThanOrEqual(1);
+  });
+});
+
+describe('BulkSendReport', () => {
+  it('logs callback errors and keeps sending', async () => {
+    const sendFn = jest.fn<ReturnType<BulkSendFunction>, Parameters<BulkSendFunction>>(async () => ok());
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const report = await new BulkSendJob(sendFn, ['a', 'b', 'c'], text, {
+      concurrency: 2,
+      logger,
+      onResult: () => { throw new Error('dashboard down'); },
+      onProgress: () => { throw new Error('progress bar broke'); },
+    });
+
+    expect(report.state).toBe('completed');
+    expect(report.sent).toHaveLength(3);
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('onResult'), expect.objectContaining({ callback: 'onResult', error: 'dashboard down' }));
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('onProgress'), expect.objectContaining({ callback: 'onProgress', error: 'progress bar broke' }));
+  });
+
+  it('exports CSV and JSON', async () => {
+    const sendFn: BulkSendFunction = async payload => {
+      if (payload.to === 'b') throw new WasenderAPIError('Bad, "really" bad', 500);
+      return { ...ok(), idempotencyKey: 'key-1' };
+    };
+    const report = await new BulkSendJob(sendFn, ['a', 'b'], text, { maxAttempts: 1 });
+
+    expect(report.toCSV().split('\r\n')).toEqual([
+      'index,to,status,attempts,statusCode,errorCode,errorMessage,idempotencyKey',
+      '0,a,sent,1,,,,key-1',
+      '1,b,failed,1,500,api_error,"Bad, ""really"" bad",',
+    ]);
+    expect(JSON.parse(JSON.stringify(report))).toMatchObject({ state: 'completed', total: 2, sent: 1, failed: 1, skipped: 0 });
+  });
+});
+
+describe('Wasender.sendBulk', () => {
+  it('sends each payload through send()', async () => {
+    const mockFetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: new Headers({ 'X-RateLimit-Limit': '100', 'X-RateLimit-Remaining': '99' }),
+      json: () => Promise.resolve({ success: true, message: 'sent' }),
+    }) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+
+    const report = await sdk.sendBulk(['+1', '+2'], to => ({ messageType: 'text', to, text: `Hello ${to}` }));
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(mockFetch.mock.calls[1][1]!.body as string)).toEqual({ to: '+2', text: 'Hello +2' });
+    expect(report.sent).toHaveLength(2);
+    expect(report.results[0].idempotencyKey).toEqual(expect.any(String));
+  });
+});
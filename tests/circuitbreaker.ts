@@ -0,0 +1,117 @@
+import { CircuitBreaker, CircuitBreakerRegistry, CircuitStateChangeEvent } from '../src/circuitbreaker';
+import { WasenderCircuitOpenError, WasenderAPIError } from '../src/errors';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 1_000_000;
+  });
+
+  it('opens after consecutive failures and fails fast while open', () => {
+    const breaker = new CircuitBreaker('api', { failureThreshold: 3, openDurationMs: 1000, now: clock });
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+
+    let error: unknown;
+    try { breaker.acquire(); } catch (e) { error = e; }
+    expect(error).toBeInstanceOf(WasenderCircuitOpenError);
+    expect(error).toBeInstanceOf(WasenderAPIError);
+    expect(error).toMatchObject({ code: 'circuit_open', circuit: 'api', retryAt: 1_001_000 });
+  });
+
+  it('resets the consecutive count on success', () => {
+    const breaker = new CircuitBreaker('api', { failureThreshold: 2, now: clock });
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('opens when the failure rate crosses the threshold', () => {
+    const breaker = new CircuitBreaker('api', { failureThreshold: 100, failureRateThreshold: 0.5, minimumRequests: 4, now: clock });
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('half-opens after the open duration and closes once probes succeed', () => {
+    const breaker = new CircuitBreaker('api', { failureThreshold: 1, openDurationMs: 1000, halfOpenProbes: 2, now: clock });
+    breaker.recordFailure();
+    now += 1000;
+    expect(breaker.getState()).toBe('half_open');
+
+    const first = breaker.acquire();
+    const second = breaker.acquire();
+    expect(() => breaker.acquire()).toThrow(WasenderCircuitOpenError);
+
+    breaker.recordSuccess(first);
+    expect(breaker.getState()).toBe('half_open');
+    breaker.recordSuccess(second);
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('ignores outcomes of requests admitted before the circuit half-opened', () => {
+    const breaker = new CircuitBreaker('api', { failureThreshold: 1, openDurationMs: 1000, now: clock });
+    const slow = breaker.acquire();
+    breaker.recordFailure(breaker.acquire());
+    now += 1000;
+    const probe = breaker.acquire();
+
+    breaker.recordSuccess(slow);
+    expect(breaker.getState()).toBe('half_open');
+    breaker.recordFailure(slow);
+    expect(breaker.getState()).toBe('half_open');
+    expect(() => breaker.acquire()).toThrow(WasenderCircuitOpenError);
+
+    breaker.recordSuccess(probe);
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('reopens when a probe fails', () => {
+    const breaker = new CircuitBreaker('api', { failureThreshold: 1, openDurationMs: 1000, now: clock });
+    breaker.recordFailure();
+    now += 1000;
+    breaker.recordFailure(breaker.acquire());
+    expect(breaker.getStats()).toMatchObject({ state: 'open', nextAttemptAt: now + 1000 });
+  });
+
+  it('frees a probe slot on release', () => {
+    const breaker = new CircuitBreaker('api', { failureThreshold: 1, openDurationMs: 1000, now: clock });
+    breaker.recordFailure();
+    now += 1000;
+    breaker.release(breaker.acquire());
+    expect(() => breaker.acquire()).not.toThrow();
+  });
+
+  it('emits state change events', () => {
+    const events: CircuitStateChangeEvent[] = [];
+    const breaker = new CircuitBreaker('api', { failureThreshold: 1, openDurationMs: 1000, now: clock, onStateChange: e => events.push(e) });
+    breaker.recordFailure();
+    now += 1000;
+    breaker.recordSuccess(breaker.acquire());
+
+    expect(events.map(e => [e.from, e.to])).toEqual([['closed', 'open'], ['open', 'half_open'], ['half_open', 'closed']]);
+    expect(events[0]).toMatchObject({ name: 'api', consecutiveFailures: 1, failureRate: 1, timestamp: 1_000_000 });
+  });
+});
+
+describe('CircuitBreakerRegistry', () => {
+  it('keeps one breaker per base URL and credential without exposing the credential', () => {
+    const registry = new CircuitBreakerRegistry();
+    const a = registry.get('https://api.test', 'key-a');
+    expect(registry.get('https://api.test', 'key-a')).toBe(a);
+    expect(registry.get('https://api.test', 'key-b')).not.toBe(a);
+    expect(registry.get('https://other.test', 'key-a')).not.toBe(a);
+    expect(a.name).toMatch(/^https:\/\/api\.test#[0-9a-f]{8}$/);
+    expect(registry.getStats()).toHaveLength(3);
+  });
+});
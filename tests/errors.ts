@@ -0,0 +1,79 @@
+import {
+  WasenderAPIError,
+  WasenderAuthError,
+  WasenderValidationError,
+  WasenderRateLimitError,
+  WasenderNetworkError,
+  WasenderTimeoutError,
+  WasenderAbortError,
+  WasenderWebhookSignatureError,
+  WasenderResponseParseError,
+  WasenderConfigError,
+  WasenderDuplicateMessageError,
+  createErrorFromResponse,
+} from '../src/errors';
+
+describe('Error hierarchy', () => {
+  it.each([
+    [new WasenderAuthError('Unauthenticated.'), WasenderAuthError, 'auth_error', false],
+    [new WasenderValidationError('Invalid.'), WasenderValidationError, 'validation_error', false],
+    [new WasenderRateLimitError('Slow down.', 2), WasenderRateLimitError, 'rate_limited', true],
+    [new WasenderNetworkError('Network error: reset'), WasenderNetworkError, 'network_error', true],
+    [new WasenderTimeoutError(100, 'GET', '/contacts'), WasenderTimeoutError, 'timeout', true],
+    [new WasenderAbortError(), WasenderAbortError, 'aborted', false],
+    [new WasenderWebhookSignatureError(), WasenderWebhookSignatureError, 'webhook_signature_invalid', false],
+    [new WasenderResponseParseError('Bad JSON', 502), WasenderResponseParseError, 'response_parse_error', true],
+    [new WasenderConfigError('Missing token.'), WasenderConfigError, 'config_error', false],
+    [new WasenderDuplicateMessageError('123'), WasenderDuplicateMessageError, 'duplicate_message', false],
+  ])('%s carries its code and retryability', (error, ErrorClass, code, isRetryable) => {
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toBeInstanceOf(WasenderAPIError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe(ErrorClass.name);
+    expect(error.code).toBe(code);
+    expect(error.isRetryable).toBe(isRetryable);
+  });
+
+  it('treats timeouts as network errors', () => {
+    expect(new WasenderTimeoutError(100)).toBeInstanceOf(WasenderNetworkError);
+  });
+
+  it('derives retryability of generic API errors from the status', () => {
+    expect(new WasenderAPIError('Server error', 503).isRetryable).toBe(true);
+    expect(new WasenderAPIError('Not found', 404).isRetryable).toBe(false);
+    expect(new WasenderAPIError('Not found', 404).code).toBe('api_error');
+  });
+
+  it('exposes typed validation details', () => {
+    const error = new WasenderValidationError('The given data was invalid.', { to: ['The to field is required.'] });
+    expect(error.statusCode).toBe(422);
+    expect(error.fieldErrors('to')).toEqual(['The to field is required.']);
+    expect(error.fieldErrors('text')).toEqual([]);
+  });
+});
+
+describe('createErrorFromResponse', () => {
+  it.each([
+    [401, WasenderAuthError],
+    [403, WasenderAuthError],
+    [400, WasenderValidationError],
+    [422, WasenderValidationError],
+    [429, WasenderRateLimitError],
+  ])('maps status %i to the matching subclass', (status, ErrorClass) => {
+    const error = createErrorFromResponse(status, { success: false, message: 'Failed' });
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error.statusCode).toBe(status);
+    expect(error.apiMessage).toBe('Failed');
+  });
+
+  it('keeps body details for other statuses', () => {
+    const error = createErrorFromResponse(500, { success: false, message: 'Oops', retry_after: 3 });
+    expect(error.constructor).toBe(WasenderAPIError);
+    expect(error.retryAfter).toBe(3);
+    expect(error.isRetryable).toBe(true);
+  });
+
+  it('falls back to a generic message', () => {
+    expect(createErrorFromResponse(404, undefined).apiMessage).toBe('API request failed with an unspecified error.');
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  FormattedText,
+  wa,
+  joinText,
+  escapeFormatting,
+  bold,
+  italic,
+  strikethrough,
+  inlineCode,
+  monospace,
+  quote,
+  bulletList,
+  numberedList,
+  mention,
+  markdownToWhatsApp,
+  htmlToWhatsApp,
+  stripFormatting,
+} from '../src/formatting';
+import { WasenderValidationError } from '../src/errors';
+
+const ZWSP = '\u200B';
+
+describe('escapeFormatting', () => {
+  it('breaks up markers in user content', () => {
+    expect(escapeFormatting('*not bold* and _not italic_')).toBe(`*${ZWSP}not bold*${ZWSP} and _${ZWSP}not italic_${ZWSP}`);
+    expect(escapeFormatting('> not a quote\n2 > 1')).toBe(`${ZWSP}> not a quote\n2 > 1`);
+  });
+});
+
+describe('styles', () => {
+  it('wraps content in markers and escapes strings', () => {
+    expect(bold('Total').text).toBe('*Total*');
+    expect(italic('a_b').text).toBe(`_a_${ZWSP}b_`);
+    expect(strikethrough('old').text).toBe('~old~');
+    expect(bold(italic('both')).text).toBe('*_both_*');
+  });
+
+  it('keeps whitespace outside markers and wraps each line', () => {
+    expect(bold(' spaced ').text).toBe(' *spaced* ');
+    expect(bold('line one\n\nline two').text).toBe('*line one*\n\n*line two*');
+    expect(bold('').text).toBe('');
+  });
+
+  it('formats code literally', () => {
+    expect(inlineCode('a*b').text).toBe('`a*b`');
+    expect(monospace('npm i').text).toBe('```npm i```');
+    expect(monospace('const a = 1;\nconst b = 2;').text).toBe('```\nconst a = 1;\nconst b = 2;\n```');
+    expect(monospace('x ``` y').text).toBe(`\`\`\`x \`\`${ZWSP}\` y\`\`\``);
+  });
+
+  it('builds quotes and lists', () => {
+    expect(quote('first\nsecond').text).toBe('> first\n> second');
+    expect(bulletList(['Milk', bold('Eggs')]).text).toBe('- Milk\n- *Eggs*');
+    expect(numberedList(['One', 'Two\nmore'], 9).text).toBe('9. One\n10. Two\n    more');
+  });
+});
+
+describe('wa template', () => {
+  it('escapes interpolated strings and keeps formatted text', () => {
+    const name = '*Evil*';
+    const text = wa`Hi ${bold(name)}, you have ${3} new _messages_`;
+    expect(text).toBeInstanceOf(FormattedText);
+    expect(text.text).toBe(`Hi **${ZWSP}Evil*${ZWSP}*, you have 3 new _messages_`);
+    expect(`${text}`).toBe(text.text);
+  });
+
+  it('collects mentions', () => {
+    const text = wa`${mention('+1 555 010 9999')} and ${mention('447700900123@s.whatsapp.net')}, meet ${mention('15550109999@c.us')}`;
+    expect(text.text).toBe('@15550109999 and @447700900123, meet @15550109999');
+    expect(text.mentions).toEqual(['15550109999@s.whatsapp.net', '447700900123@s.whatsapp.net']);
+    expect(joinText([bold('To:'), mention('447700900123')], ' ').mentions).toEqual(['447700900123@s.whatsapp.net']);
+    expect(bulletList([mention('447700900123')]).mentions).toHaveLength(1);
+  });
+
+  it('only mentions users', () => {
+    expect(() => mention('123-456@g.us')).toThrow(WasenderValidationError);
+  });
+});
+
+describe('markdownToWhatsApp', () => {
+  it('converts emphasis, headings, links and lists', () => {
+    expect(markdownToWhatsApp('**bold**, *italic*, _italic_ and ~~gone~~')).toBe('*bold*, _italic_, _italic_ and ~gone~');
+    expect(markdownToWhatsApp('# Weekly report\n\n* one\n+ two\n1. three')).toBe('*Weekly report*\n\n- one\n- two\n1. three');
+    expect(markdownToWhatsApp('See [the docs](https://example.com/a_b) or https://example.com/c_d')).toBe(
+      'See the docs (https://example.com/a_b) or https://example.com/c_d'
+    );
+  });
+
+  it('keeps code and escapes stray markers', () => {
+    expect(markdownToWhatsApp('Run `npm *` then\n```sh\nls *_*\n```')).toBe('Run `npm *` then\n```\nls *_*\n```');
+    expect(markdownToWhatsApp('snake_case and 2 * 3')).toBe(`snake_${ZWSP}case and 2 *${ZWSP} 3`);
+    expect(markdownToWhatsApp('\\*literal\\*')).toBe(`*${ZWSP}literal*${ZWSP}`);
+  });
+});
+
+describe('htmlToWhatsApp', () => {
+  it('converts inline tags and entities', () => {
+    expect(htmlToWhatsApp('<p>Hello <b>Ann</b> &amp; <em>Bob</em>, <del>no</del> <strong>yes</strong></p>')).toBe(
+      'Hello *Ann* & _Bob_, ~no~ *yes*'
+    );
+    expect(htmlToWhatsApp('<a href="https://example.com">Site</a><br>x &lt; 2*3')).toBe(`Site (https://example.com)\nx < 2*${ZWSP}3`);
+  });
+
+  it('converts blocks', () => {
+    const html = '<h2>Agenda</h2><ul><li>Intro</li><li>Q&amp;A</li></ul><ol><li>First</li><li>Second</li></ol>'
+      + '<blockquote>Be brief<br>and kind</blockquote><pre>a *b*\n  c</pre><script>alert(1)</script>';
+    expect(htmlToWhatsApp(html)).toBe('*Agenda*\n\n- Intro\n- Q&A\n\n1. First\n2. Second\n\n> Be brief\n> and kind\n\n```\na *b*\n  c\n```');
+  });
+});
+
+describe('stripFormatting', () => {
+  it('removes markers, quotes and escapes', () => {
+    expect(stripFormatting('*Total:* _12_ ~old~ `code` and ```block```')).toBe('Total: 12 old code and block');
+    expect(stripFormatting('> quoted *_both_*')).toBe('quoted both');
+    expect(stripFormatting(wa`${bold('2*3')} is ${'*six*'}`)).toBe('2*3 is *six*');
+    expect(stripFormatting('2 * 3 * 4 and snake_case_name')).toBe('2 * 3 * 4 and snake_case_name');
+  });
+});
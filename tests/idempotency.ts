@@ -0,0 +1,43 @@
+import { generateIdempotencyKey, fingerprintPayload, SendDeduplicator } from '../src/idempotency';
+
+describe('generateIdempotencyKey', () => {
+  it('returns unique non-empty keys', () => {
+    const a = generateIdempotencyKey();
+    const b = generateIdempotencyKey();
+    expect(a).toMatch(/^[0-9a-f-]{32,36}$/);
+    expect(a).not.toBe(b);
+  });
+});
+
+describe('fingerprintPayload', () => {
+  it('ignores object key order', () => {
+    expect(fingerprintPayload({ to: '+1', text: 'hi', location: { latitude: 1, longitude: 2 } }))
+      .toBe(fingerprintPayload({ location: { longitude: 2, latitude: 1 }, text: 'hi', to: '+1' }));
+  });
+
+  it('distinguishes different payloads', () => {
+    expect(fingerprintPayload({ to: '+1', text: 'hi' })).not.toBe(fingerprintPayload({ to: '+1', text: 'hello' }));
+  });
+});
+
+describe('SendDeduplicator', () => {
+  it('flags identical payloads within the window and expires them afterwards', () => {
+    let now = 1_000;
+    const dedupe = new SendDeduplicator(500, () => now);
+
+    expect(dedupe.isDuplicate('+1', { text: 'hi' })).toBe(false);
+    dedupe.record('+1', { text: 'hi' });
+    expect(dedupe.isDuplicate('+1', { text: 'hi' })).toBe(true);
+    expect(dedupe.isDuplicate('+2', { text: 'hi' })).toBe(false);
+
+    now += 500;
+    expect(dedupe.isDuplicate('+1', { text: 'hi' })).toBe(false);
+  });
+
+  it('forgets entries on request', () => {
+    const dedupe = new SendDeduplicator(60_000);
+    dedupe.record('+1', { text: 'hi' });
+    dedupe.forget('+1', { text: 'hi' });
+    expect(dedupe.isDuplicate('+1', { text: 'hi' })).toBe(false);
+  });
+});
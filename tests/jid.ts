@@ -0,0 +1,72 @@
+import { Jid, GroupJid, UserJid } from '../src/jid';
+import { WasenderValidationError } from '../src/errors';
+
+describe('Jid.parse', () => {
+  it('parses user, group and channel JIDs', () => {
+    expect(Jid.parse('447700900123@s.whatsapp.net')).toEqual({
+      type: 'user', user: '447700900123', server: 's.whatsapp.net', jid: '447700900123@s.whatsapp.net',
+    });
+    expect(Jid.parse('123456789-987654321@g.us')).toMatchObject({ type: 'group', user: '123456789-987654321' });
+    expect(Jid.parse('120363012345678901@g.us')).toMatchObject({ type: 'group' });
+    expect(Jid.parse('1234567890@newsletter')).toMatchObject({ type: 'newsletter', user: '1234567890' });
+  });
+
+  it('reads device suffixes, legacy servers and phone numbers', () => {
+    expect(Jid.parse('447700900123:12@s.whatsapp.net')).toMatchObject({ device: 12, jid: '447700900123@s.whatsapp.net' });
+    expect(Jid.parse('447700900123@C.US')).toMatchObject({ type: 'user', jid: '447700900123@s.whatsapp.net' });
+    expect(Jid.parse('+44 7700 900123')).toMatchObject({ type: 'user', jid: '447700900123@s.whatsapp.net' });
+    expect(Jid.parse('07700 900123', { defaultCountry: 'GB' }).jid).toBe('447700900123@s.whatsapp.net');
+  });
+
+  it('rejects unknown servers and malformed IDs', () => {
+    expect(() => Jid.parse('123@broadcast')).toThrow('unsupported server "broadcast"');
+    expect(() => Jid.parse('abc@g.us')).toThrow('malformed group ID');
+    expect(() => Jid.parse('12-34@s.whatsapp.net')).toThrow(WasenderValidationError);
+    expect(() => Jid.parse('not a number')).toThrow(WasenderValidationError);
+  });
+});
+
+describe('Jid type guards', () => {
+  it('tells JIDs apart', () => {
+    const values = ['447700900123@s.whatsapp.net', '123-456@g.us', '1234567890@newsletter', '+447700900123', '@g.us'];
+    expect(values.map(value => [Jid.isUser(value), Jid.isGroup(value), Jid.isNewsletter(value)])).toEqual([
+      [true, false, false],
+      [false, true, false],
+      [false, false, true],
+      [false, false, false],
+      [false, false, false],
+    ]);
+  });
+
+  it('narrows strings to branded types', () => {
+    const value: string = '123-456@g.us';
+    if (Jid.isGroup(value)) {
+      const group: GroupJid = value;
+      expect(group).toBe('123-456@g.us');
+    }
+    // @ts-expect-error plain strings are not branded JIDs
+    const user: UserJid = '447700900123@s.whatsapp.net';
+    expect(user).toBeDefined();
+  });
+});
+
+describe('Jid construction', () => {
+  it('converts between phone numbers and user JIDs', () => {
+    expect(Jid.fromPhone('+1 (555) 010-9999')).toBe('15550109999@s.whatsapp.net');
+    expect(Jid.toPhone('15550109999:3@s.whatsapp.net')).toBe('+15550109999');
+    expect(() => Jid.toPhone('123-456@g.us')).toThrow('a group JID has no phone number');
+  });
+
+  it('builds group and channel JIDs', () => {
+    expect(Jid.group('123456789-987654321')).toBe('123456789-987654321@g.us');
+    expect(Jid.group('123@G.US')).toBe('123@g.us');
+    expect(Jid.newsletter('1234567890')).toBe('1234567890@newsletter');
+    expect(() => Jid.group('1234567890@newsletter')).toThrow('expected a group JID');
+  });
+
+  it('normalizes JIDs and phone numbers', () => {
+    expect(Jid.normalize(' 447700900123:5@c.us ')).toBe('447700900123@s.whatsapp.net');
+    expect(Jid.normalize('0044 7700 900123')).toBe('447700900123@s.whatsapp.net');
+    expect(Jid.normalize('123-456@g.us')).toBe('123-456@g.us');
+  });
+});
@@ -0,0 +1,58 @@
+import { noopLogger, createConsoleLogger, redactSecrets, createRedactingLogger, REDACTED, Logger } from '../src/logger';
+
+describe('noopLogger', () => {
+  it('accepts calls without doing anything', () => {
+    expect(() => noopLogger.warn('message', { method: 'GET' })).not.toThrow();
+  });
+});
+
+describe('createConsoleLogger', () => {
+  it('forwards messages and fields to the target', () => {
+    const target = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const logger = createConsoleLogger(target);
+    logger.warn('retrying', { attempt: 2 });
+    logger.info('plain');
+    expect(target.warn).toHaveBeenCalledWith('retrying', { attempt: 2 });
+    expect(target.info).toHaveBeenCalledWith('plain');
+  });
+});
+
+describe('redactSecrets', () => {
+  it('masks known secret values inside strings and nested objects', () => {
+    const redacted = redactSecrets(
+      { message: 'key sk_live_123 leaked', nested: { list: ['sk_live_123'] } },
+      ['sk_live_123']
+    );
+    expect(redacted).toEqual({ message: `key ${REDACTED} leaked`, nested: { list: [REDACTED] } });
+  });
+
+  it('masks bearer tokens and sensitive keys', () => {
+    const redacted = redactSecrets({
+      headers: { Authorization: 'Bearer abc', 'X-Webhook-Signature': 'sig', Accept: 'application/json' },
+      apiKey: 'abc',
+      note: 'sent Bearer xyz',
+    });
+    expect(redacted).toEqual({
+      headers: { Authorization: REDACTED, 'X-Webhook-Signature': REDACTED, Accept: 'application/json' },
+      apiKey: REDACTED,
+      note: `sent Bearer ${REDACTED}`,
+    });
+  });
+
+  it('does not mutate its input and handles cycles', () => {
+    const input: Record<string, unknown> = { token: 't' };
+    input.self = input;
+    const redacted = redactSecrets(input);
+    expect(input.token).toBe('t');
+    expect(redacted).toEqual({ token: REDACTED, self: '[Circular]' });
+  });
+});
+
+describe('createRedactingLogger', () => {
+  it('redacts messages and fields before they reach the wrapped logger', () => {
+    const inner: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const logger = createRedactingLogger(inner, ['pat_secret', undefined]);
+    logger.error('failed with pat_secret', { path: '/x', detail: 'pat_secret' });
+    expect(inner.error).toHaveBeenCalledWith(`failed with ${REDACTED}`, { path: '/x', detail: REDACTED });
+  });
+});
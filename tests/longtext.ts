@@ -0,0 +1,64 @@
+import { MAX_TEXT_LENGTH, splitText } from '../src/longtext';
+import { WasenderValidationError } from '../src/errors';
+
+const sentence = (n: number) => `Sentence number ${n} of the report.`;
+
+describe('splitText', () => {
+  it('returns short text as a single part without a counter', () => {
+    expect(splitText('  Hello there  ', { counter: true })).toEqual(['Hello there']);
+    expect(splitText('')).toEqual([]);
+  });
+
+  it('keeps every part within the WhatsApp limit by default', () => {
+    const text = Array.from({ length: 400 }, (_, i) => sentence(i)).join(' ');
+    const parts = splitText(text);
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.every(part => part.length <= MAX_TEXT_LENGTH)).toBe(true);
+    expect(parts.join(' ')).toBe(text);
+  });
+
+  it('prefers paragraph, then sentence, then word boundaries', () => {
+    expect(splitText('First paragraph here.\n\nSecond paragraph here.', { maxLength: 30 }))
+      .toEqual(['First paragraph here.', 'Second paragraph here.']);
+    expect(splitText('One short sentence. Then another one follows', { maxLength: 30 }))
+      .toEqual(['One short sentence.', 'Then another one follows']);
+    expect(splitText('alpha beta gamma delta epsilon zeta', { maxLength: 20 }))
+      .toEqual(['alpha beta gamma', 'delta epsilon zeta']);
+  });
+
+  it('cuts words longer than a part without splitting surrogate pairs', () => {
+    const parts = splitText(`${'a'.repeat(15)}😀${'b'.repeat(10)}`, { maxLength: 16 });
+    expect(parts).toEqual(['a'.repeat(15), `😀${'b'.repeat(10)}`]);
+  });
+
+  it('does not split formatted spans that fit in a part', () => {
+    const parts = splitText('Status update: *all systems operational today*', { maxLength: 40 });
+    expect(parts).toEqual(['Status update:', '*all systems operational today*']);
+    const code = splitText('See the output:\n```\nline one\nline two\n```', { maxLength: 30 });
+    expect(code).toEqual(['See the output:', '```\nline one\nline two\n```']);
+  });
+
+  it('closes and reopens spans longer than a part', () => {
+    const parts = splitText('*this bold sentence is much too long for one part*', { maxLength: 30 });
+    expect(parts).toEqual(['*this bold sentence is much*', '*too long for one part*']);
+
+    const block = splitText('```\nfirst line of code\nsecond line of code\n```', { maxLength: 30 });
+    expect(block).toEqual(['```\nfirst line of code\n```', '```\nsecond line of code\n```']);
+  });
+
+  it('appends counters within the length limit', () => {
+    const text = Array.from({ length: 12 }, (_, i) => sentence(i)).join(' ');
+    const parts = splitText(text, { maxLength: 50, counter: true });
+    expect(parts[0]).toMatch(/ \(1\/\d+\)$/);
+    expect(parts[parts.length - 1]).toMatch(new RegExp(` \\(${parts.length}/${parts.length}\\)$`));
+    expect(parts.every(part => part.length <= 50)).toBe(true);
+
+    const custom = splitText('First paragraph here.\n\nSecond paragraph here.', { maxLength: 40, counter: (i, n) => `\n— ${i} of ${n}` });
+    expect(custom).toEqual(['First paragraph here.\n— 1 of 2', 'Second paragraph here.\n— 2 of 2']);
+  });
+
+  it('rejects lengths that leave no room for text', () => {
+    expect(() => splitText('text', { maxLength: 10 })).toThrow(WasenderValidationError);
+    expect(() => splitText('x'.repeat(40), { maxLength: 20, counter: () => ' '.repeat(10) })).toThrow(WasenderValidationError);
+  });
+});
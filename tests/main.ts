@@ -1,5 +1,22 @@
 import fetchMock from 'jest-fetch-mock';
-import { Wasender } from '../src/main';
+import { Wasender, createWasender, FetchImplementation, WasenderRequestInfo } from '../src/main';
+import {
+  WasenderAPIError,
+  WasenderTimeoutError,
+  WasenderDuplicateMessageError,
+  WasenderValidationError,
+  WasenderAuthError,
+  WasenderNetworkError,
+  WasenderConfigError,
+  WasenderResponseParseError,
+  WasenderCircuitOpenError,
+  WasenderWebhookSignatureError,
+} from '../src/errors';
+import { CircuitBreakerRegistry } from '../src/circuitbreaker';
+import { Jid } from '../src/jid';
+import { wa, mention } from '../src/formatting';
+import { toVCard } from '../src/vcard';
+import { MessagesUpsertData, MessagesUpsertEvent } from '../src/webhook';
 
 // beforeAll(() => { // Removed as fetchMock.enableMocks() is now in tests/setup.ts
 //   fetchMock.enableMocks();
@@ -25,4 +42,1076 @@ describe('Wasender SDK', () => {
     });
     expect(res.response.message).toBe('ok');
   });
-});
\ No newline at end of file
+});
+describe('Wasender options object', () => {
+  const okFetch = () =>
+    jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      json: () => Promise.resolve({ success: true, message: 'ok' }),
+    }) as jest.MockedFunction<FetchImplementation>;
+
+  it('accepts an options object equivalent to the positional form', async () => {
+    const mockFetch = okFetch();
+    const sdk = new Wasender({ apiKey: 'API_KEY', baseUrl: 'https://example.test/api/', fetchImplementation: mockFetch });
+    await sdk.sendText({ to: '+123', text: 'yo' });
+
+    const [url, opts] = mockFetch.mock.calls[0];
+    expect(url).toBe('https://example.test/api/send-message');
+    expect(opts?.headers).toMatchObject({ Authorization: 'Bearer API_KEY' });
+  });
+
+  it('keeps the positional createWasender form working', async () => {
+    const mockFetch = okFetch();
+    const sdk = createWasender('API_KEY', undefined, undefined, mockFetch);
+    await sdk.getContacts();
+    expect(mockFetch).toHaveBeenCalledWith('https://www.wasenderapi.com/api/contacts', expect.anything());
+  });
+
+  it('throws when neither token is provided', () => {
+    expect(() => createWasender({})).toThrow('Either an API Key');
+  });
+
+  it('sends default headers and the user-agent suffix without overriding Authorization', async () => {
+    const mockFetch = okFetch();
+    const sdk = createWasender({
+      apiKey: 'API_KEY',
+      fetchImplementation: mockFetch,
+      defaultHeaders: { 'X-Tenant': 'acme', authorization: 'Bearer nope' },
+      userAgentSuffix: 'my-app/1.0',
+    });
+    await sdk.getContacts();
+
+    const headers = mockFetch.mock.calls[0][1]?.headers as Record<string, string>;
+    expect(headers['X-Tenant']).toBe('acme');
+    expect(headers['authorization']).toBeUndefined();
+    expect(headers['Authorization']).toBe('Bearer API_KEY');
+    expect(headers['User-Agent']).toMatch(/^wasender-typescript-sdk\/\S+ my-app\/1\.0$/);
+  });
+
+  it('invokes hooks around each request', async () => {
+    const mockFetch = okFetch();
+    const beforeRequest = jest.fn((req: WasenderRequestInfo) => { req.headers['X-Trace'] = 'abc'; });
+    const afterResponse = jest.fn();
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, hooks: { beforeRequest, afterResponse } });
+    await sdk.getContacts();
+
+    expect(beforeRequest).toHaveBeenCalledWith(expect.objectContaining({ method: 'GET', path: '/contacts', attempt: 1 }));
+    expect(afterResponse).toHaveBeenCalledWith(expect.objectContaining({ status: 200, path: '/contacts' }));
+    expect((mockFetch.mock.calls[0][1]?.headers as Record<string, string>)['X-Trace']).toBe('abc');
+  });
+
+  it('invokes the onError hook with the thrown error', async () => {
+    const mockFetch = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 422,
+      headers: new Headers(),
+      json: () => Promise.resolve({ success: false, message: 'Invalid' }),
+    }) as jest.MockedFunction<FetchImplementation>;
+    const onError = jest.fn();
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, hooks: { onError } });
+
+    await expect(sdk.getContacts()).rejects.toThrow(WasenderAPIError);
+    expect(onError).toHaveBeenCalledWith(expect.any(WasenderAPIError), { method: 'GET', path: '/contacts' });
+  });
+
+  it('routes retry warnings through the configured logger', async () => {
+    const mockFetch = jest.fn()
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        headers: new Headers(),
+        json: () => Promise.resolve({ success: false, message: 'Slow down', retry_after: 0.001 }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () => Promise.resolve({ success: true, message: 'ok' }),
+      }) as jest.MockedFunction<FetchImplementation>;
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const sdk = createWasender({
+      apiKey: 'API_KEY',
+      fetchImplementation: mockFetch,
+      retryOptions: { enabled: true, maxRetries: 1 },
+      logger,
+    });
+
+    await sdk.getContacts();
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Rate limit (429)'), expect.any(Object));
+  });
+});
+
+describe('Request timeouts and cancellation', () => {
+  const hangingFetch = () =>
+    jest.fn().mockImplementation(() => new Promise(() => { /* never settles */ })) as jest.MockedFunction<FetchImplementation>;
+
+  it('throws WasenderTimeoutError when the client-level timeout elapses', async () => {
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: hangingFetch(), timeoutMs: 10 });
+    const promise = sdk.sendText({ to: '+123', text: 'yo' });
+    await expect(promise).rejects.toBeInstanceOf(WasenderTimeoutError);
+    await expect(promise).rejects.toBeInstanceOf(WasenderAPIError);
+  });
+
+  it('lets a per-call timeout override the client default', async () => {
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: hangingFetch(), timeoutMs: 60_000 });
+    await expect(sdk.getContacts({ timeoutMs: 10 })).rejects.toMatchObject({ name: 'WasenderTimeoutError', timeoutMs: 10 });
+  });
+
+  it('passes an abort signal to fetch and honours caller cancellation', async () => {
+    const mockFetch = hangingFetch();
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+    const controller = new AbortController();
+
+    const promise = sdk.connectWhatsAppSession(1, true, { signal: controller.signal });
+    controller.abort();
+    await expect(promise).rejects.toThrow(WasenderAPIError);
+  });
+
+  it('does not call fetch when the signal is already aborted', async () => {
+    const mockFetch = hangingFetch();
+    const sdk = createWasender({ apiKey: 'API_KEY', personalAccessToken: 'PAT', fetchImplementation: mockFetch });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(sdk.getAllWhatsAppSessions({ signal: controller.signal })).rejects.toThrow('aborted by the caller');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('times out while the response body is still being read', async () => {
+    // Ignores the abort signal and never finishes the body.
+    const mockFetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      json: () => new Promise(() => { /* stalled body */ }),
+      text: () => new Promise(() => { /* stalled body */ }),
+    }) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, timeoutMs: 10 });
+
+    await expect(sdk.getContacts()).rejects.toBeInstanceOf(WasenderTimeoutError);
+  });
+
+  it('retries timed-out attempts when retries are enabled', async () => {
+    const mockFetch = jest.fn()
+      .mockImplementationOnce(() => new Promise(() => { /* never settles */ }))
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () => Promise.resolve({ success: true, message: 'ok' }),
+      }) as jest.MockedFunction<FetchImplementation>;
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const sdk = createWasender({
+      apiKey: 'API_KEY',
+      fetchImplementation: mockFetch,
+      retryOptions: { enabled: true, maxRetries: 1, baseDelayMs: 1, jitter: 'none' },
+      timeoutMs: 10,
+      logger,
+    });
+
+    const res = await sdk.getContacts();
+    expect(res.response.message).toBe('ok');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Timeout after 10ms'), expect.any(Object));
+  });
+});
+
+describe('Retry policy', () => {
+  const response = (status: number, body: object, headers: Record<string, string> = {}) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers),
+    json: () => Promise.resolve(body),
+  });
+  const quietLogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  const fastRetries = { enabled: true, maxRetries: 2, baseDelayMs: 1, jitter: 'none' as const };
+
+  it('retries idempotent requests on 5xx responses', async () => {
+    const mockFetch = jest.fn()
+      .mockResolvedValueOnce(response(503, { success: false, message: 'Unavailable' }))
+      .mockResolvedValueOnce(response(502, { success: false, message: 'Bad gateway' }))
+      .mockResolvedValueOnce(response(200, { success: true, message: 'ok', data: [] })) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, retryOptions: fastRetries, logger: quietLogger });
+
+    await sdk.getContacts();
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry POST requests without an idempotency key on 5xx unless retryNonIdempotent is set', async () => {
+    const failing = () => jest.fn()
+      .mockResolvedValueOnce(response(500, { success: false, message: 'Boom' }))
+      .mockResolvedValueOnce(response(200, { success: true, message: 'ok' })) as jest.MockedFunction<FetchImplementation>;
+
+    const strictFetch = failing();
+    const strict = createWasender({ apiKey: 'API_KEY', fetchImplementation: strictFetch, retryOptions: fastRetries, logger: quietLogger, idempotencyKeys: false });
+    await expect(strict.sendText({ to: '+1', text: 'hi' })).rejects.toMatchObject({ statusCode: 500 });
+    expect(strictFetch).toHaveBeenCalledTimes(1);
+
+    const lenientFetch = failing();
+    const lenient = createWasender({
+      apiKey: 'API_KEY',
+      fetchImplementation: lenientFetch,
+      retryOptions: { ...fastRetries, retryNonIdempotent: true },
+      logger: quietLogger,
+      idempotencyKeys: false,
+    });
+    await lenient.sendText({ to: '+1', text: 'hi' });
+    expect(lenientFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries sends after network errors, since they carry an idempotency key', async () => {
+    const mockFetch = jest.fn()
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce(response(200, { success: true, message: 'ok' })) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, retryOptions: fastRetries, logger: quietLogger });
+
+    await sdk.sendText({ to: '+1', text: 'hi' });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry POST requests without an idempotency key after network errors unless retryNonIdempotent is set', async () => {
+    const failing = () => jest.fn()
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce(response(200, { success: true, message: 'ok' })) as jest.MockedFunction<FetchImplementation>;
+
+    const strictFetch = failing();
+    const strict = createWasender({ apiKey: 'API_KEY', fetchImplementation: strictFetch, retryOptions: fastRetries, logger: quietLogger, idempotencyKeys: false });
+    await expect(strict.sendText({ to: '+1', text: 'hi' })).rejects.toBeInstanceOf(WasenderNetworkError);
+    expect(strictFetch).toHaveBeenCalledTimes(1);
+
+    const lenientFetch = failing();
+    const lenient = createWasender({
+      apiKey: 'API_KEY',
+      fetchImplementation: lenientFetch,
+      retryOptions: { ...fastRetries, retryNonIdempotent: true },
+      logger: quietLogger,
+      idempotencyKeys: false,
+    });
+    await lenient.sendText({ to: '+1', text: 'hi' });
+    expect(lenientFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries POST requests on 429 using the Retry-After header', async () => {
+    const mockFetch = jest.fn()
+      .mockResolvedValueOnce(response(429, { success: false, message: 'Slow down' }, { 'Retry-After': '0' }))
+      .mockResolvedValueOnce(response(200, { success: true, message: 'ok' })) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, retryOptions: fastRetries, logger: quietLogger });
+
+    await sdk.sendText({ to: '+1', text: 'hi' });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(quietLogger.warn).toHaveBeenCalledWith(expect.stringContaining('Retrying after 0s'), expect.any(Object));
+  });
+
+  it('does not retry status codes outside retryableStatusCodes', async () => {
+    const mockFetch = jest.fn()
+      .mockResolvedValue(response(503, { success: false, message: 'Unavailable' })) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({
+      apiKey: 'API_KEY',
+      fetchImplementation: mockFetch,
+      retryOptions: { ...fastRetries, retryableStatusCodes: [429] },
+      logger: quietLogger,
+    });
+
+    await expect(sdk.getContacts()).rejects.toMatchObject({ statusCode: 503 });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops retrying when the next delay would exceed the time budget', async () => {
+    const mockFetch = jest.fn()
+      .mockResolvedValue(response(429, { success: false, message: 'Slow down', retry_after: 60 })) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({
+      apiKey: 'API_KEY',
+      fetchImplementation: mockFetch,
+      retryOptions: { ...fastRetries, maxElapsedMs: 1000 },
+      logger: quietLogger,
+    });
+
+    await expect(sdk.getContacts()).rejects.toMatchObject({ statusCode: 429, retryAfter: 60 });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Idempotency keys and dedupe window', () => {
+  const ok = () => ({
+    ok: true,
+    status: 200,
+    headers: new Headers(),
+    json: () => Promise.resolve({ success: true, message: 'ok' }),
+  });
+  const headersOf = (mockFetch: jest.MockedFunction<FetchImplementation>, call: number) =>
+    mockFetch.mock.calls[call][1]?.headers as Record<string, string>;
+
+  it('retries sends on 5xx and reuses the generated key across retries', async () => {
+    const mockFetch = jest.fn()
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        headers: new Headers(),
+        json: () => Promise.resolve({ success: false, message: 'Unavailable' }),
+      })
+      .mockResolvedValueOnce(ok()) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({
+      apiKey: 'API_KEY',
+      fetchImplementation: mockFetch,
+      retryOptions: { enabled: true, maxRetries: 1, baseDelayMs: 1, jitter: 'none' },
+      logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+    });
+
+    const result = await sdk.sendText({ to: '+1', text: 'hi' });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    const key = headersOf(mockFetch, 0)['Idempotency-Key'];
+    expect(key).toBeTruthy();
+    expect(headersOf(mockFetch, 1)['Idempotency-Key']).toBe(key);
+    expect(result.idempotencyKey).toBe(key);
+  });
+
+  it('uses a caller supplied key and generates a fresh key per call otherwise', async () => {
+    const mockFetch = jest.fn().mockResolvedValue(ok()) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+
+    await sdk.sendImage({ to: '+1', imageUrl: 'https://example.com/a.png' }, { idempotencyKey: 'order-42' });
+    await sdk.sendText({ to: '+1', text: 'a' });
+    await sdk.sendText({ to: '+1', text: 'b' });
+
+    expect(headersOf(mockFetch, 0)['Idempotency-Key']).toBe('order-42');
+    expect(headersOf(mockFetch, 1)['Idempotency-Key']).not.toBe(headersOf(mockFetch, 2)['Idempotency-Key']);
+  });
+
+  it('omits the header when idempotency keys are disabled and for non-send calls', async () => {
+    const mockFetch = jest.fn().mockResolvedValue(ok()) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, idempotencyKeys: false });
+
+    const result = await sdk.sendText({ to: '+1', text: 'hi' });
+    await sdk.getContacts();
+    expect(headersOf(mockFetch, 0)['Idempotency-Key']).toBeUndefined();
+    expect(headersOf(mockFetch, 1)['Idempotency-Key']).toBeUndefined();
+    expect(result.idempotencyKey).toBeUndefined();
+  });
+
+  it('refuses identical sends within the dedupe window unless forced', async () => {
+    const mockFetch = jest.fn().mockResolvedValue(ok()) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, dedupeWindowMs: 60_000 });
+
+    await sdk.sendText({ to: '+1', text: 'hi' });
+    await expect(sdk.sendText({ to: '+1', text: 'hi' })).rejects.toBeInstanceOf(WasenderDuplicateMessageError);
+    await sdk.sendText({ to: '+2', text: 'hi' });
+    await sdk.sendText({ to: '+1', text: 'hi' }, { force: true });
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('allows resending after the server rejects the message with a 4xx', async () => {
+    const mockFetch = jest.fn()
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 422,
+        headers: new Headers(),
+        json: () => Promise.resolve({ success: false, message: 'Invalid' }),
+      })
+      .mockResolvedValueOnce(ok()) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, dedupeWindowMs: 60_000 });
+
+    await expect(sdk.sendText({ to: '+1', text: 'hi' })).rejects.toMatchObject({ statusCode: 422 });
+    await sdk.sendText({ to: '+1', text: 'hi' });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('Client-side rate limiting', () => {
+  it('learns from response headers and holds requests until the window resets', async () => {
+    const resetAt = Math.floor(Date.now() / 1000) + 3600;
+    const mockFetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: new Headers({
+        'X-RateLimit-Limit': '10',
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset': String(resetAt),
+      }),
+      json: () => Promise.resolve({ success: true, message: 'ok', data: [] }),
+    }) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, rateLimiter: true });
+
+    await sdk.getContacts();
+    expect(sdk.getRateLimiterState()).toEqual({ limit: 10, remaining: 0, resetTimestamp: resetAt, queueDepth: 0 });
+
+    const controller = new AbortController();
+    const queued = sdk.getContacts({ signal: controller.signal });
+    await Promise.resolve();
+    expect(sdk.getRateLimiterState()?.queueDepth).toBe(1);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    controller.abort();
+    await expect(queued).rejects.toThrow('aborted');
+  });
+
+  it('reports null state when no limiter is configured', () => {
+    const sdk = createWasender({ apiKey: 'API_KEY' });
+    expect(sdk.getRateLimiterState()).toBeNull();
+  });
+});
+
+describe('Structured logging', () => {
+  it('emits structured fields and never leaks credentials', async () => {
+    const mockFetch = jest.fn()
+      .mockRejectedValueOnce(new Error('socket hang up for Bearer API_KEY'))
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 422,
+        headers: new Headers({ 'X-RateLimit-Limit': '10', 'X-RateLimit-Remaining': '9', 'X-RateLimit-Reset': '1700000000' }),
+        json: () => Promise.resolve({ success: false, message: 'Invalid token API_KEY' }),
+      }) as jest.MockedFunction<FetchImplementation>;
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const sdk = createWasender({
+      apiKey: 'API_KEY',
+      fetchImplementation: mockFetch,
+      retryOptions: { enabled: true, maxRetries: 1, baseDelayMs: 1, jitter: 'none' },
+      logger,
+    });
+
+    await expect(sdk.getContacts()).rejects.toMatchObject({ statusCode: 422 });
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Network error on attempt 1'),
+      expect.objectContaining({ method: 'GET', path: '/contacts', attempt: 1, delayMs: 1 })
+    );
+    expect(logger.debug).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({
+        status: 422,
+        attempt: 2,
+        durationMs: expect.any(Number),
+        rateLimit: { limit: 10, remaining: 9, resetTimestamp: 1700000000 },
+      })
+    );
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('failed'), expect.objectContaining({ status: 422 }));
+
+    const everything = JSON.stringify([logger.debug.mock.calls, logger.warn.mock.calls, logger.error.mock.calls]);
+    expect(everything).not.toContain('API_KEY');
+  });
+
+  it('is silent by default', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const mockFetch = jest.fn()
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        headers: new Headers(),
+        json: () => Promise.resolve({ success: false, message: 'Slow down', retry_after: 0.001 }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () => Promise.resolve({ success: true, message: 'ok' }),
+      }) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, retryOptions: { enabled: true, maxRetries: 1 } });
+
+    await sdk.getContacts();
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('Middleware', () => {
+  const okResponse = () => ({
+    ok: true,
+    status: 200,
+    headers: new Headers({ 'X-RateLimit-Remaining': '7' }),
+    json: () => Promise.resolve({ success: true, data: [] }),
+  });
+
+  it('lets middleware rewrite the request and inspect the parsed response', async () => {
+    const mockFetch = jest.fn().mockResolvedValue(okResponse()) as jest.MockedFunction<FetchImplementation>;
+    const seen: unknown[] = [];
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch })
+      .use(async (ctx, next) => {
+        ctx.baseUrl = 'https://tenant.example/api';
+        ctx.headers['X-Request-Id'] = 'req-1';
+        await next();
+        seen.push(ctx.status, ctx.responseBody, ctx.rateLimit?.remaining, ctx.durationMs);
+      });
+
+    await sdk.getContacts();
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://tenant.example/api/contacts',
+      expect.objectContaining({ headers: expect.objectContaining({ 'X-Request-Id': 'req-1', Authorization: 'Bearer API_KEY' }) })
+    );
+    expect(seen).toEqual([200, { success: true, data: [] }, 7, expect.any(Number)]);
+  });
+
+  it('serializes a body modified by middleware', async () => {
+    const mockFetch = jest.fn().mockResolvedValue(okResponse()) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({
+      apiKey: 'API_KEY',
+      fetchImplementation: mockFetch,
+      middleware: [async (ctx, next) => { ctx.body = { ...ctx.body, text: 'rewritten' }; await next(); }],
+    });
+
+    await sdk.sendText({ to: '123', text: 'original' });
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1]!.body as string);
+    expect(body).toMatchObject({ to: '123', text: 'rewritten' });
+  });
+
+  it('runs middleware on every retry attempt', async () => {
+    const mockFetch = jest.fn()
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce(okResponse()) as jest.MockedFunction<FetchImplementation>;
+    const attempts: number[] = [];
+    const sdk = createWasender({
+      apiKey: 'API_KEY',
+      fetchImplementation: mockFetch,
+      retryOptions: { enabled: true, maxRetries: 1, baseDelayMs: 1, jitter: 'none' },
+    }).use((ctx, next) => { attempts.push(ctx.attempt); return next(); });
+
+    await sdk.getContacts();
+    expect(attempts).toEqual([1, 2]);
+  });
+
+  it('surfaces errors thrown by middleware without retrying', async () => {
+    const mockFetch = jest.fn().mockResolvedValue(okResponse()) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({
+      apiKey: 'API_KEY',
+      fetchImplementation: mockFetch,
+      retryOptions: { enabled: true, maxRetries: 3, baseDelayMs: 1 },
+    }).use(() => { throw new Error('blocked by policy'); });
+
+    await expect(sdk.getContacts()).rejects.toThrow('blocked by policy');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('Typed errors', () => {
+  const errorResponse = (status: number, body: object) => ({
+    ok: false,
+    status,
+    headers: new Headers(),
+    json: () => Promise.resolve(body),
+  });
+
+  it('throws WasenderValidationError with field details for 422 responses', async () => {
+    const mockFetch = jest.fn().mockResolvedValue(
+      errorResponse(422, { success: false, message: 'The given data was invalid.', errors: { to: ['The to field is required.'] } })
+    ) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+
+    const error = await sdk.sendText({ to: '', text: 'hi' }).catch(e => e);
+    expect(error).toBeInstanceOf(WasenderValidationError);
+    expect(error).toBeInstanceOf(WasenderAPIError);
+    expect(error.fieldErrors('to')).toEqual(['The to field is required.']);
+    expect(error.isRetryable).toBe(false);
+  });
+
+  it('throws WasenderAuthError for 401 responses', async () => {
+    const mockFetch = jest.fn().mockResolvedValue(
+      errorResponse(401, { success: false, message: 'Unauthenticated.' })
+    ) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+
+    await expect(sdk.getContacts()).rejects.toBeInstanceOf(WasenderAuthError);
+  });
+
+  it('throws WasenderNetworkError when fetch fails', async () => {
+    const mockFetch = jest.fn().mockRejectedValue(new Error('ECONNRESET')) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+
+    const error = await sdk.getContacts().catch(e => e);
+    expect(error).toBeInstanceOf(WasenderNetworkError);
+    expect(error.code).toBe('network_error');
+    expect(error.cause).toEqual(new Error('ECONNRESET'));
+  });
+
+  it('throws WasenderResponseParseError for unparseable bodies', async () => {
+    const mockFetch = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 404,
+      headers: new Headers(),
+      json: () => Promise.reject(new SyntaxError('Unexpected token <')),
+      text: () => Promise.resolve('<html>Not Found</html>'),
+    }) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+
+    const error = await sdk.getContacts().catch(e => e);
+    expect(error).toBeInstanceOf(WasenderResponseParseError);
+    expect(error.responseText).toBe('<html>Not Found</html>');
+  });
+
+  it('throws WasenderConfigError when a required credential is missing', async () => {
+    const sdk = createWasender({ personalAccessToken: 'PAT', fetchImplementation: jest.fn() as jest.MockedFunction<FetchImplementation> });
+    await expect(sdk.getContacts()).rejects.toBeInstanceOf(WasenderConfigError);
+    expect(() => createWasender({})).toThrow(WasenderConfigError);
+  });
+});
+
+describe('Circuit breaker', () => {
+  const serverError = () => ({
+    ok: false,
+    status: 503,
+    headers: new Headers(),
+    json: () => Promise.resolve({ success: false, message: 'Service Unavailable' }),
+  });
+
+  it('fails fast once the circuit opens', async () => {
+    const mockFetch = jest.fn().mockResolvedValue(serverError()) as jest.MockedFunction<FetchImplementation>;
+    const onStateChange = jest.fn();
+    const sdk = createWasender({
+      apiKey: 'API_KEY',
+      fetchImplementation: mockFetch,
+      circuitBreaker: { failureThreshold: 2, onStateChange },
+    });
+
+    await expect(sdk.getContacts()).rejects.toMatchObject({ statusCode: 503 });
+    await expect(sdk.getContacts()).rejects.toMatchObject({ statusCode: 503 });
+    await expect(sdk.getContacts()).rejects.toBeInstanceOf(WasenderCircuitOpenError);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(onStateChange).toHaveBeenCalledWith(expect.objectContaining({ from: 'closed', to: 'open' }));
+    expect(sdk.getCircuitBreakerStats()).toEqual([expect.objectContaining({ state: 'open', consecutiveFailures: 2 })]);
+  });
+
+  it('stops retrying when the circuit opens mid-request', async () => {
+    const mockFetch = jest.fn().mockRejectedValue(new Error('ECONNREFUSED')) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({
+      apiKey: 'API_KEY',
+      fetchImplementation: mockFetch,
+      retryOptions: { enabled: true, maxRetries: 5, baseDelayMs: 1, jitter: 'none' },
+      circuitBreaker: { failureThreshold: 2 },
+    });
+
+    await expect(sdk.getContacts()).rejects.toBeInstanceOf(WasenderCircuitOpenError);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not count client errors as failures', async () => {
+    const mockFetch = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 404,
+      headers: new Headers(),
+      json: () => Promise.resolve({ success: false, message: 'Not found' }),
+    }) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, circuitBreaker: { failureThreshold: 1 } });
+
+    await expect(sdk.getContacts()).rejects.toMatchObject({ statusCode: 404 });
+    await expect(sdk.getContacts()).rejects.toMatchObject({ statusCode: 404 });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares circuits between clients using the same registry and credential', async () => {
+    const registry = new CircuitBreakerRegistry({ failureThreshold: 1 });
+    const mockFetch = jest.fn().mockResolvedValue(serverError()) as jest.MockedFunction<FetchImplementation>;
+    const first = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, circuitBreaker: registry });
+    const second = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, circuitBreaker: registry });
+    const otherKey = createWasender({ apiKey: 'OTHER_KEY', fetchImplementation: mockFetch, circuitBreaker: registry });
+
+    await expect(first.getContacts()).rejects.toMatchObject({ statusCode: 503 });
+    await expect(second.getContacts()).rejects.toBeInstanceOf(WasenderCircuitOpenError);
+    await expect(otherKey.getContacts()).rejects.toMatchObject({ statusCode: 503 });
+  });
+
+  it('keys circuits on the base URL chosen by middleware', async () => {
+    const mockFetch = jest.fn((url: string | URL | Request) => Promise.resolve(
+      String(url).startsWith('https://eu.example.test') ? serverError() : {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () => Promise.resolve({ success: true, message: 'ok', data: [] }),
+      }
+    )) as unknown as jest.MockedFunction<FetchImplementation>;
+    let region = 'eu';
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, circuitBreaker: { failureThreshold: 1 } })
+      .use((ctx, next) => { ctx.baseUrl = `https://${region}.example.test/api`; return next(); });
+
+    await expect(sdk.getContacts()).rejects.toMatchObject({ statusCode: 503 });
+    await expect(sdk.getContacts()).rejects.toBeInstanceOf(WasenderCircuitOpenError);
+    region = 'us';
+    await expect(sdk.getContacts()).resolves.toMatchObject({ response: { message: 'ok' } });
+    expect(sdk.getCircuitBreakerStats()).toEqual([
+      expect.objectContaining({ name: expect.stringContaining('https://eu.example.test/api'), state: 'open' }),
+      expect.objectContaining({ name: expect.stringContaining('https://us.example.test/api'), state: 'closed' }),
+    ]);
+  });
+});
+
+describe('Media uploads', () => {
+  const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d]);
+
+  const mockUploadThenSend = () => jest.fn()
+    .mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      json: () => Promise.resolve({ success: true, publicUrl: 'https://cdn.wasenderapi.com/media/abc.png' }),
+    })
+    .mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      json: () => Promise.resolve({ success: true, message: 'Message sent' }),
+    }) as jest.MockedFunction<FetchImplementation>;
+
+  it('uploads a Buffer before sending an image', async () => {
+    const mockFetch = mockUploadThenSend();
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+
+    await sdk.sendImage({ to: '123', imageUrl: PNG, text: 'Your ticket' });
+
+    const [uploadUrl, uploadInit] = mockFetch.mock.calls[0];
+    expect(uploadUrl).toBe('https://www.wasenderapi.com/api/upload');
+    expect(JSON.parse(uploadInit!.body as string)).toEqual({ base64: `data:image/png;base64,${PNG.toString('base64')}` });
+
+    const [sendUrl, sendInit] = mockFetch.mock.calls[1];
+    expect(sendUrl).toBe('https://www.wasenderapi.com/api/send-message');
+    expect(JSON.parse(sendInit!.body as string)).toEqual({
+      to: '123',
+      text: 'Your ticket',
+      imageUrl: 'https://cdn.wasenderapi.com/media/abc.png',
+    });
+  });
+
+  it('defaults the document file name to the uploaded file name', async () => {
+    const mockFetch = mockUploadThenSend();
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+
+    await sdk.sendDocument({ to: '123', documentUrl: { data: Buffer.from('%PDF-1.7'), fileName: 'invoice-42.pdf' } });
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1]!.body as string).base64).toMatch(/^data:application\/pdf;base64,/);
+    expect(JSON.parse(mockFetch.mock.calls[1][1]!.body as string)).toMatchObject({ fileName: 'invoice-42.pdf' });
+  });
+
+  it('sends URLs without uploading', async () => {
+    const mockFetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      json: () => Promise.resolve({ success: true, message: 'Message sent' }),
+    }) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+
+    await sdk.sendVideo({ to: '123', videoUrl: 'https://example.com/clip.mp4' });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects oversize media before uploading', async () => {
+    const mockFetch = jest.fn() as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+
+    await expect(sdk.sendSticker({ to: '123', stickerUrl: new Uint8Array(200 * 1024) })).rejects.toBeInstanceOf(WasenderValidationError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('Media validation', () => {
+  it('checks URL media with HEAD before calling /send-message', async () => {
+    const mockFetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: new Headers({ 'Content-Type': 'image/gif', 'Content-Length': '1024' }),
+      json: () => Promise.resolve({}),
+    }) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, validateMedia: true });
+
+    await expect(sdk.send({ messageType: 'image', to: '123', imageUrl: 'https://example.com/a.gif' }))
+      .rejects.toThrow('image messages accept image/jpeg, image/png');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch).toHaveBeenCalledWith('https://example.com/a.gif', expect.objectContaining({ method: 'HEAD' }));
+    expect(mockFetch.mock.calls[0][1]!.headers).toBeUndefined();
+  });
+
+  it('checks in-memory media by content before uploading', async () => {
+    const mockFetch = jest.fn() as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, validateMedia: true });
+
+    await expect(sdk.sendVideo({ to: '123', videoUrl: { data: Buffer.from('%PDF-1.7'), fileName: 'clip.mp4' } }))
+      .rejects.toBeInstanceOf(WasenderValidationError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('applies timeoutMs to the media host', async () => {
+    const mockFetch = jest.fn(() => new Promise(() => { /* never settles */ })) as unknown as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, validateMedia: true, timeoutMs: 1000 });
+
+    await expect(sdk.sendImage({ to: '123', imageUrl: 'https://example.com/a.png' }, { timeoutMs: 10 }))
+      .rejects.toBeInstanceOf(WasenderTimeoutError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][1]!.signal!.aborted).toBe(true);
+  });
+
+  it('does not inspect media when disabled', async () => {
+    const mockFetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      json: () => Promise.resolve({ success: true, message: 'sent' }),
+    }) as jest.MockedFunction<FetchImplementation>;
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+
+    await sdk.sendImage({ to: '123', imageUrl: 'https://example.com/a.gif' });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][0]).toContain('/send-message');
+  });
+});
+
+describe('Phone number normalization', () => {
+  const okFetch = () =>
+    jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      json: () => Promise.resolve({ success: true, message: 'ok', data: {} }),
+    }) as jest.MockedFunction<FetchImplementation>;
+  const body = (mockFetch: jest.MockedFunction<FetchImplementation>, call = 0) => JSON.parse(mockFetch.mock.calls[call][1]!.body as string);
+
+  it('normalizes recipients to E.164 and leaves JIDs alone', async () => {
+    const mockFetch = okFetch();
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, normalizePhoneNumbers: { defaultCountry: 'GB' } });
+
+    await sdk.sendText({ to: '07700 900123', text: 'hi' });
+    await sdk.send({ messageType: 'text', to: '0044 7700 900124', text: 'hi' });
+    await sdk.sendText({ to: '123456789-987654321@g.us', text: 'hi' });
+    expect([0, 1, 2].map(call => body(mockFetch, call).to)).toEqual(['+447700900123', '+447700900124', '123456789-987654321@g.us']);
+  });
+
+  it('normalizes contact numbers and group participants to digits', async () => {
+    const mockFetch = okFetch();
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, normalizePhoneNumbers: true });
+
+    await sdk.getContactInfo('+1 (555) 010-9999');
+    await sdk.addGroupParticipants('123@g.us', ['+44 7700 900123', '15550109999@s.whatsapp.net']);
+    expect(mockFetch.mock.calls[0][0]).toBe('https://www.wasenderapi.com/api/contacts/15550109999');
+    expect(body(mockFetch, 1).participants).toEqual(['447700900123', '15550109999@s.whatsapp.net']);
+  });
+
+  it('uses the phone number of user JIDs in contact paths', async () => {
+    const mockFetch = okFetch();
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+
+    await sdk.blockContact(Jid.fromPhone('+1 555 010 9999'));
+    await sdk.getGroupMetadata(Jid.group('123-456'));
+    expect(mockFetch.mock.calls.map(call => call[0])).toEqual([
+      'https://www.wasenderapi.com/api/contacts/15550109999/block',
+      'https://www.wasenderapi.com/api/groups/123-456@g.us/metadata',
+    ]);
+  });
+
+  it('rejects invalid numbers before sending', async () => {
+    const mockFetch = okFetch();
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, normalizePhoneNumbers: true });
+
+    const error = await sdk.sendText({ to: '+999 123', text: 'hi' }).catch(e => e);
+    expect(error).toBeInstanceOf(WasenderValidationError);
+    expect(error.errorDetails).toHaveProperty('to');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('passes numbers through unchanged by default', async () => {
+    const mockFetch = okFetch();
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+    await sdk.sendText({ to: '07700 900123', text: 'hi' });
+    expect(body(mockFetch).to).toBe('07700 900123');
+  });
+});
+
+describe('Replies and mentions', () => {
+  const okFetch = () =>
+    jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      json: () => Promise.resolve({ success: true, message: 'ok' }),
+    }) as jest.MockedFunction<FetchImplementation>;
+  const body = (mockFetch: jest.MockedFunction<FetchImplementation>) => JSON.parse(mockFetch.mock.calls[0][1]!.body as string);
+
+  const incoming: MessagesUpsertEvent = {
+    event: 'messages.upsert',
+    data: {
+      key: { id: 'MSG-1', fromMe: false, remoteId: '123-456@g.us', participant: '15550109999@s.whatsapp.net' },
+      message: { conversation: 'Is my order ready?' },
+    },
+  };
+
+  it('replies in the chat of the event, quoting the message', async () => {
+    const mockFetch = okFetch();
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+
+    await sdk.reply(incoming, { messageType: 'text', text: 'Yes, it ships today.' });
+    expect(body(mockFetch)).toEqual({
+      to: '123-456@g.us',
+      text: 'Yes, it ships today.',
+      quoted: { id: 'MSG-1', fromMe: false, remoteId: '123-456@g.us', participant: '15550109999@s.whatsapp.net' },
+    });
+  });
+
+  it('rejects events without a message key', async () => {
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: okFetch() });
+    await expect(sdk.reply({ key: undefined } as unknown as MessagesUpsertData, { messageType: 'text', text: 'Hi' }))
+      .rejects.toBeInstanceOf(WasenderValidationError);
+  });
+
+  it('sends mentions as user JIDs', async () => {
+    const mockFetch = okFetch();
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+    const text = wa`Welcome ${mention('+44 7700 900123')}!`;
+
+    await sdk.sendText({ to: '123-456@g.us', text: text.text, mentions: [...text.mentions, '+1 555 010 9999'] });
+    expect(body(mockFetch).mentions).toEqual(['447700900123@s.whatsapp.net', '15550109999@s.whatsapp.net']);
+    await expect(sdk.sendText({ to: '123-456@g.us', text: 'Hi', mentions: ['123-456@g.us'] })).rejects.toThrow('Only users can be mentioned');
+  });
+});
+
+describe('Message types and actions', () => {
+  const okFetch = () =>
+    jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: new Headers({ 'X-RateLimit-Remaining': '9' }),
+      json: () => Promise.resolve({ success: true, message: 'done' }),
+    }) as jest.MockedFunction<FetchImplementation>;
+  const request = (mockFetch: jest.MockedFunction<FetchImplementation>, call = 0) => {
+    const [url, init] = mockFetch.mock.calls[call];
+    return { url, method: init!.method, body: JSON.parse(init!.body as string) };
+  };
+  const own = { id: 'OWN-1', fromMe: true, remoteId: '15550109999@s.whatsapp.net' };
+  const theirs = { id: 'THEIRS-1', fromMe: false, remoteId: '123-456@g.us', participant: '447700900123@s.whatsapp.net' };
+
+  it('reacts to and removes reactions from messages', async () => {
+    const mockFetch = okFetch();
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+
+    const result = await sdk.reactToMessage(theirs, '👍🏽');
+    await sdk.reactToMessage(theirs, '👨‍👩‍👧');
+    await sdk.removeReaction(theirs);
+    expect(result.response.message).toBe('done');
+    expect(result.rateLimit?.remaining).toBe(9);
+    expect(request(mockFetch)).toEqual({ url: 'https://www.wasenderapi.com/api/messages/react', method: 'POST', body: { key: theirs, reaction: '👍🏽' } });
+    expect(request(mockFetch, 2).body).toEqual({ key: theirs, reaction: '' });
+  });
+
+  it('sends and validates polls', async () => {
+    const mockFetch = okFetch();
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+
+    await sdk.sendPoll({ to: '123-456@g.us', poll: { question: 'Lunch?', options: ['Pizza', 'Sushi'], selectableCount: 2 } });
+    expect(request(mockFetch)).toEqual({
+      url: 'https://www.wasenderapi.com/api/send-message',
+      method: 'POST',
+      body: { to: '123-456@g.us', poll: { question: 'Lunch?', options: ['Pizza', 'Sushi'], selectableCount: 2 } },
+    });
+    await expect(sdk.send({ messageType: 'poll', to: '123-456@g.us', poll: { question: 'Lunch?', options: ['Pizza'] } }))
+      .rejects.toBeInstanceOf(WasenderValidationError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends rich and multiple contact cards with their vCards', async () => {
+    const mockFetch = okFetch();
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+    const rich = { name: 'Jane Doe', phones: [{ number: '+15550109999' }], emails: [{ address: 'jane@acme.example' }] };
+
+    await sdk.sendContact({ to: '123', contact: { name: 'Bob', phone: '+447700900123' } });
+    await sdk.sendContact({ to: '123', contact: [rich, { name: 'Bob', phone: '+447700900123' }] });
+    expect(request(mockFetch).body.contact).toEqual({ name: 'Bob', phone: '+447700900123' });
+    expect(request(mockFetch, 1).body.contact).toEqual([
+      { name: 'Jane Doe', phone: '+15550109999', vcard: toVCard(rich) },
+      { name: 'Bob', phone: '+447700900123' },
+    ]);
+    await expect(sdk.sendContact({ to: '123', contact: 'not a vcard' })).rejects.toBeInstanceOf(WasenderValidationError);
+    await expect(sdk.sendContact({ to: '123', contact: [] })).rejects.toBeInstanceOf(WasenderValidationError);
+  });
+
+  it('sends long text as ordered parts', async () => {
+    const mockFetch = okFetch();
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+    const onPartSent = jest.fn();
+    const text = 'Hello @447700900123, here is the first paragraph.\n\nAnd the second one for @15550109999.';
+
+    const results = await sdk.sendLongText(
+      { to: '123-456@g.us', text, quoted: theirs, mentions: ['447700900123@s.whatsapp.net', '15550109999@s.whatsapp.net', '4915123456789@s.whatsapp.net'] },
+      { maxLength: 60, counter: true, delayMs: 0, onPartSent },
+      { idempotencyKey: 'report-7' }
+    );
+    expect(results).toHaveLength(2);
+    expect(request(mockFetch).body).toEqual({
+      to: '123-456@g.us',
+      text: 'Hello @447700900123, here is the first paragraph. (1/2)',
+      quoted: theirs,
+      mentions: ['4915123456789@s.whatsapp.net', '447700900123@s.whatsapp.net'],
+    });
+    expect(request(mockFetch, 1).body).toEqual({
+      to: '123-456@g.us',
+      text: 'And the second one for @15550109999. (2/2)',
+      mentions: ['15550109999@s.whatsapp.net'],
+    });
+    expect(results.map(result => result.idempotencyKey)).toEqual(['report-7-1', 'report-7-2']);
+    expect(onPartSent).toHaveBeenLastCalledWith(results[1], 2, 2);
+    await expect(sdk.sendLongText({ to: '123', text: ' ' })).rejects.toBeInstanceOf(WasenderValidationError);
+  });
+
+  it('stops sending long text at the first failed part', async () => {
+    const mockFetch = okFetch();
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 422,
+      headers: new Headers(),
+      json: () => Promise.resolve({ success: false, message: 'Invalid recipient' }),
+    } as Response);
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+
+    await expect(sdk.sendLongText({ to: '123', text: 'One sentence here. Another sentence there.' }, { maxLength: 25, delayMs: 0 }))
+      .rejects.toBeInstanceOf(WasenderAPIError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects reactions that are not emoji', async () => {
+    const mockFetch = okFetch();
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+    for (const emoji of ['', 'ok', '1', ' ']) {
+      await expect(sdk.reactToMessage(theirs, emoji)).rejects.toBeInstanceOf(WasenderValidationError);
+    }
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('edits own messages only', async () => {
+    const mockFetch = okFetch();
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+
+    await sdk.editMessage(own, 'Corrected text');
+    expect(request(mockFetch)).toEqual({ url: 'https://www.wasenderapi.com/api/messages/edit', method: 'PUT', body: { key: own, text: 'Corrected text' } });
+    await expect(sdk.editMessage(theirs, 'Nope')).rejects.toThrow('Only messages sent by the session can be edited.');
+    await expect(sdk.editMessage(own, ' ')).rejects.toBeInstanceOf(WasenderValidationError);
+  });
+
+  it('deletes messages for the session or for everyone', async () => {
+    const mockFetch = okFetch();
+    const sdk = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch });
+
+    await sdk.deleteMessage(own);
+    await sdk.deleteMessage(theirs, { forEveryone: true });
+    expect(request(mockFetch)).toEqual({ url: 'https://www.wasenderapi.com/api/messages/delete', method: 'POST', body: { key: own, forEveryone: false } });
+    expect(request(mockFetch, 1).body).toEqual({ key: theirs, forEveryone: true });
+    await expect(sdk.deleteMessage({ id: '', fromMe: true, remoteId: 'x' })).rejects.toBeInstanceOf(WasenderValidationError);
+  });
+});
+
+describe('Webhook handling', () => {
+  const sdk = createWasender({ apiKey: 'API_KEY', webhookSecret: 'SECRET' });
+  const adapter = (getRawBody: () => Promise<string> | string, signature = 'SECRET') => ({
+    getHeader: (name: string) => (name.toLowerCase() === 'x-webhook-signature' ? signature : undefined),
+    getRawBody,
+  });
+
+  it('parses verified events', async () => {
+    const event = await sdk.handleWebhookEvent(adapter(() => '{"event":"session.status","data":{"status":"connected"}}'));
+    expect(event.event).toBe('session.status');
+  });
+
+  it('throws typed errors on every failure path', async () => {
+    await expect(createWasender({ apiKey: 'API_KEY' }).handleWebhookEvent(adapter(() => '{}')))
+      .rejects.toBeInstanceOf(WasenderConfigError);
+    await expect(sdk.handleWebhookEvent(adapter(() => '{}', 'WRONG'))).rejects.toBeInstanceOf(WasenderWebhookSignatureError);
+    await expect(sdk.handleWebhookEvent(adapter(() => Promise.reject(new Error('stream closed')))))
+      .rejects.toBeInstanceOf(WasenderValidationError);
+    await expect(sdk.handleWebhookEvent(adapter(() => 'not json'))).rejects.toBeInstanceOf(WasenderValidationError);
+  });
+});
@@ -0,0 +1,181 @@
+import { Readable } from 'stream';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  loadMediaSource,
+  sniffMimeType,
+  mimeTypeFromFileName,
+  toDataUri,
+  validateLoadedMedia,
+  validateMediaUrl,
+  MEDIA_SIZE_LIMITS,
+} from '../src/media';
+import { WasenderValidationError } from '../src/errors';
+
+const PNG = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d]);
+const PDF = Buffer.from('%PDF-1.7\n...');
+
+describe('sniffMimeType', () => {
+  it.each([
+    [PNG, 'image/png'],
+    [Uint8Array.from([0xff, 0xd8, 0xff, 0xe0]), 'image/jpeg'],
+    [Buffer.from('RIFF\0\0\0\0WEBPVP8 '), 'image/webp'],
+    [Buffer.from('\0\0\0\x18ftypmp42'), 'video/mp4'],
+    [Buffer.from('\0\0\0\x14ftyp3gp5'), 'video/3gpp'],
+    [Buffer.from('ID3\x03\0'), 'audio/mpeg'],
+    [Buffer.from('OggS\0'), 'audio/ogg'],
+    [Buffer.from('#!AMR\n'), 'audio/amr'],
+    [Uint8Array.from([0xff, 0xf1, 0x50, 0x80]), 'audio/aac'],
+    [PDF, 'application/pdf'],
+  ])('detects %#', (bytes, mimeType) => {
+    expect(sniffMimeType(bytes)).toBe(mimeType);
+  });
+
+  it('returns undefined for unknown content', () => {
+    expect(sniffMimeType(Buffer.from('hello'))).toBeUndefined();
+  });
+});
+
+describe('mimeTypeFromFileName', () => {
+  it('maps known extensions case-insensitively', () => {
+    expect(mimeTypeFromFileName('invoice.PDF')).toBe('application/pdf');
+    expect(mimeTypeFromFileName('report.xlsx')).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    expect(mimeTypeFromFileName('README')).toBeUndefined();
+  });
+});
+
+describe('loadMediaSource', () => {
+  it('reads a Buffer and sniffs its MIME type', async () => {
+    const media = await loadMediaSource(Buffer.from(PNG), 'image');
+    expect(media).toEqual({ bytes: Buffer.from(PNG), fileName: undefined, mimeType: 'image/png' });
+  });
+
+  it('prefers an explicit MIME type and file name', async () => {
+    const media = await loadMediaSource({ data: PDF, fileName: 'invoice.bin', mimeType: 'application/x-custom' }, 'document');
+    expect(media.fileName).toBe('invoice.bin');
+    expect(media.mimeType).toBe('application/x-custom');
+  });
+
+  it('infers the MIME type from the file name', async () => {
+    const media = await loadMediaSource({ data: Buffer.from('a,b\n1,2'), fileName: 'export.csv' }, 'document');
+    expect(media.mimeType).toBe('text/csv');
+  });
+
+  it('reads Blobs with their type', async () => {
+    const media = await loadMediaSource(new Blob([PNG], { type: 'image/png' }), 'image');
+    expect(media.mimeType).toBe('image/png');
+    expect(Array.from(media.bytes)).toEqual(Array.from(PNG));
+  });
+
+  it('reads Node.js and web streams', async () => {
+    const fromNode = await loadMediaSource(Readable.from([Buffer.from('%PDF-'), Buffer.from('1.7')]), 'document');
+    expect(Buffer.from(fromNode.bytes).toString()).toBe('%PDF-1.7');
+    expect(fromNode.mimeType).toBe('application/pdf');
+
+    const web = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(PNG);
+        controller.close();
+      },
+    });
+    expect((await loadMediaSource(web, 'image')).mimeType).toBe('image/png');
+  });
+
+  it('reads local files by path', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'wasender-media-'));
+    try {
+      const path = join(dir, 'ticket.png');
+      writeFileSync(path, PNG);
+      const media = await loadMediaSource({ path }, 'image');
+      expect(media.fileName).toBe('ticket.png');
+      expect(media.mimeType).toBe('image/png');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects media over the size limit for its type', async () => {
+    const tooLarge = new Uint8Array(MEDIA_SIZE_LIMITS.sticker + 1);
+    await expect(loadMediaSource(tooLarge, 'sticker')).rejects.toThrow(WasenderValidationError);
+    await expect(loadMediaSource(tooLarge, 'sticker')).rejects.toThrow('exceeds the 100KB limit for sticker messages');
+    await expect(loadMediaSource(Readable.from([tooLarge]), 'sticker')).rejects.toThrow(WasenderValidationError);
+  });
+
+  it('rejects empty media', async () => {
+    await expect(loadMediaSource(new Uint8Array(0), 'image')).rejects.toThrow('The image is empty.');
+  });
+});
+
+describe('toDataUri', () => {
+  it('encodes bytes as a base64 data URI', () => {
+    expect(toDataUri(Buffer.from('hi'), 'text/plain')).toBe('data:text/plain;base64,aGk=');
+  });
+});
+
+describe('validateLoadedMedia', () => {
+  it('accepts content matching the message type', () => {
+    expect(() => validateLoadedMedia('image', { bytes: PNG, mimeType: 'image/png' })).not.toThrow();
+    expect(() => validateLoadedMedia('document', { bytes: PNG, mimeType: 'image/png' })).not.toThrow();
+  });
+
+  it('rejects content of another type, whatever its declared type', () => {
+    let error: WasenderValidationError | undefined;
+    try {
+      validateLoadedMedia('sticker', { bytes: PNG, mimeType: 'image/webp' });
+    } catch (e) {
+      error = e as WasenderValidationError;
+    }
+    expect(error).toBeInstanceOf(WasenderValidationError);
+    expect(error!.fieldErrors('stickerUrl')).toEqual(['The sticker is image/png; sticker messages accept image/webp.']);
+  });
+});
+
+describe('validateMediaUrl', () => {
+  const response = (status: number, headers: Record<string, string>, body?: Uint8Array) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers),
+    arrayBuffer: () => Promise.resolve((body ?? new Uint8Array(0)).buffer),
+  }) as unknown as Response;
+
+  it('uses HEAD when it reports type and size', async () => {
+    const fetchImpl = jest.fn().mockResolvedValue(response(200, { 'Content-Type': 'image/jpeg; charset=binary', 'Content-Length': '2048' }));
+    await expect(validateMediaUrl('https://example.com/a.jpg', 'image', fetchImpl)).resolves.toBeUndefined();
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    expect(fetchImpl).toHaveBeenCalledWith('https://example.com/a.jpg', expect.objectContaining({ method: 'HEAD' }));
+  });
+
+  it('rejects oversize media reported by HEAD', async () => {
+    const fetchImpl = jest.fn().mockResolvedValue(response(200, { 'Content-Type': 'video/mp4', 'Content-Length': String(20 * 1024 * 1024) }));
+    await expect(validateMediaUrl('https://example.com/a.mp4', 'video', fetchImpl)).rejects.toThrow('exceeds the 16MB limit');
+  });
+
+  it('falls back to a ranged GET and sniffs the leading bytes', async () => {
+    const fetchImpl = jest.fn()
+      .mockResolvedValueOnce(response(405, {}))
+      .mockResolvedValueOnce(response(206, { 'Content-Range': 'bytes 0-63/4096', 'Content-Type': 'application/octet-stream' }, PNG));
+
+    await expect(validateMediaUrl('https://example.com/a', 'sticker', fetchImpl)).rejects.toThrow('The sticker is image/png');
+    expect(fetchImpl).toHaveBeenLastCalledWith('https://example.com/a', expect.objectContaining({ headers: { Range: 'bytes=0-63' } }));
+  });
+
+  it('sniffs the leading bytes when HEAD reports a generic type', async () => {
+    const fetchImpl = jest.fn()
+      .mockResolvedValueOnce(response(200, { 'Content-Type': 'binary/octet-stream', 'Content-Length': '4096' }))
+      .mockResolvedValueOnce(response(206, { 'Content-Range': 'bytes 0-63/4096' }, PNG));
+
+    await expect(validateMediaUrl('https://example.com/a.webp', 'sticker', fetchImpl)).rejects.toThrow('The sticker is image/png');
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('lets media of a generic type that cannot be sniffed through', async () => {
+    const fetchImpl = jest.fn().mockResolvedValue(response(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': '4096' }));
+    await expect(validateMediaUrl('https://example.com/a.jpg', 'image', fetchImpl)).resolves.toBeUndefined();
+  });
+
+  it('lets uninspectable media through', async () => {
+    const fetchImpl = jest.fn().mockRejectedValue(new Error('ENOTFOUND'));
+    await expect(validateMediaUrl('https://example.invalid/a.png', 'image', fetchImpl)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  composeMiddleware,
+  createHeadersMiddleware,
+  createTimingMiddleware,
+  createLoggingMiddleware,
+  Middleware,
+  MiddlewareContext,
+} from '../src/middleware';
+
+function makeContext(overrides: Partial<MiddlewareContext> = {}): MiddlewareContext {
+  return {
+    method: 'GET',
+    baseUrl: 'https://api.test',
+    path: '/contacts',
+    headers: {},
+    body: null,
+    attempt: 1,
+    signal: new AbortController().signal,
+    state: {},
+    ...overrides,
+  };
+}
+
+describe('composeMiddleware', () => {
+  it('runs middleware outermost first, around the terminal', async () => {
+    const order: string[] = [];
+    const track = (name: string): Middleware => async (_ctx, next) => {
+      order.push(`${name}:in`);
+      await next();
+      order.push(`${name}:out`);
+    };
+    const run = composeMiddleware([track('a'), track('b')], async () => { order.push('terminal'); });
+
+    await run(makeContext());
+    expect(order).toEqual(['a:in', 'b:in', 'terminal', 'b:out', 'a:out']);
+  });
+
+  it('lets a middleware short-circuit the chain', async () => {
+    const terminal = jest.fn().mockResolvedValue(undefined);
+    const run = composeMiddleware([async (ctx) => { ctx.status = 299; }], terminal);
+    const ctx = makeContext();
+
+    await run(ctx);
+    expect(terminal).not.toHaveBeenCalled();
+    expect(ctx.status).toBe(299);
+  });
+
+  it('rejects when next() is called twice', async () => {
+    const run = composeMiddleware([async (_ctx, next) => { await next(); await next(); }], async () => {});
+    await expect(run(makeContext())).rejects.toThrow('next() more than once');
+  });
+});
+
+describe('createHeadersMiddleware', () => {
+  it('adds headers without replacing existing ones by default', async () => {
+    const ctx = makeContext({ headers: { 'x-trace': 'existing' } });
+    await composeMiddleware([createHeadersMiddleware({ 'X-Trace': 'new', 'X-Tenant': 'acme' })], async () => {})(ctx);
+    expect(ctx.headers).toEqual({ 'x-trace': 'existing', 'X-Tenant': 'acme' });
+  });
+
+  it('replaces existing headers case-insensitively when overwrite is set', async () => {
+    const ctx = makeContext({ headers: { 'x-trace': 'existing' } });
+    await composeMiddleware([createHeadersMiddleware({ 'X-Trace': 'new' }, { overwrite: true })], async () => {})(ctx);
+    expect(ctx.headers).toEqual({ 'X-Trace': 'new' });
+  });
+
+  it('computes headers per exchange when given a function', async () => {
+    const ctx = makeContext({ attempt: 3 });
+    await composeMiddleware([createHeadersMiddleware(c => ({ 'X-Attempt': String(c.attempt) }))], async () => {})(ctx);
+    expect(ctx.headers['X-Attempt']).toBe('3');
+  });
+});
+
+describe('createTimingMiddleware', () => {
+  it('records the duration even when the exchange fails', async () => {
+    const onTiming = jest.fn();
+    const ctx = makeContext();
+    const run = composeMiddleware([createTimingMiddleware(onTiming)], async () => { throw new Error('boom'); });
+
+    await expect(run(ctx)).rejects.toThrow('boom');
+    expect(ctx.durationMs).toEqual(expect.any(Number));
+    expect(onTiming).toHaveBeenCalledWith(ctx);
+  });
+});
+
+describe('createLoggingMiddleware', () => {
+  it('logs the request and the response at debug level', async () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const run = composeMiddleware([createLoggingMiddleware(logger)], async (ctx) => {
+      ctx.status = 200;
+      ctx.rateLimit = { limit: 10, remaining: 9, resetTimestamp: null, getResetTimestampAsDate: () => null };
+    });
+
+    await run(makeContext());
+    expect(logger.debug).toHaveBeenNthCalledWith(1, 'Wasender SDK: GET /contacts (attempt 1)', { method: 'GET', path: '/contacts', attempt: 1 });
+    expect(logger.debug).toHaveBeenNthCalledWith(2, 'Wasender SDK: GET /contacts responded 200', expect.objectContaining({
+      status: 200,
+      rateLimit: { limit: 10, remaining: 9, resetTimestamp: null },
+    }));
+  });
+});
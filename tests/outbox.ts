@@ -0,0 +1,230 @@
+import { Outbox, InMemoryOutboxStore, OutboxEntry, OutboxStatus } from '../src/outbox';
+import { WasenderAPIError, WasenderRateLimitError, WasenderValidationError } from '../src/errors';
+import { WasenderMessagePayload, WasenderSendResult } from '../src/messages';
+import { WasenderWebhookEvent } from '../src/webhook';
+import { createWasender, FetchImplementation } from '../src/main';
+
+const payload: WasenderMessagePayload = { messageType: 'text', to: '+1234567890', text: 'Order shipped' };
+
+const sent = (msgId: string | number = 'WA-1'): WasenderSendResult => ({
+  response: { success: true, message: 'sent', data: { msgId } } as unknown as WasenderSendResult['response'],
+});
+
+const createClient = (...results: Array<WasenderSendResult | Error>) => {
+  const send = jest.fn(async () => {
+    const result = results.length > 1 ? results.shift()! : results[0] ?? sent();
+    if (result instanceof Error) throw result;
+    return result;
+  });
+  return { send };
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Outbox', () => {
+  let outbox: Outbox | undefined;
+
+  afterEach(async () => { await outbox?.stop(); });
+
+  it('persists on enqueue and sends on drain', async () => {
+    const client = createClient(sent('WA-7'));
+    const store = new InMemoryOutboxStore();
+    outbox = new Outbox(client, { store });
+
+    const entry = await outbox.enqueue(payload, { metadata: { orderId: 1 } });
+    expect(await store.get(entry.id)).toMatchObject({ status: 'queued', attempts: 0 });
+    expect(client.send).not.toHaveBeenCalled();
+
+    expect(await outbox.drain()).toBe(1);
+    expect(client.send).toHaveBeenCalledWith(payload, { idempotencyKey: entry.idempotencyKey, force: true });
+    expect(await outbox.get(entry.id)).toMatchObject({
+      status: 'sent', attempts: 1, messageId: 'WA-7', sentAt: expect.any(Number), metadata: { orderId: 1 },
+    });
+  });
+
+  it('reads the store once per pass and sends due entries by nextAttemptAt', async () => {
+    let now = 1000;
+    const store = new InMemoryOutboxStore();
+    const list = jest.spyOn(store, 'list');
+    const order: string[] = [];
+    const client = {
+      send: jest.fn(async (message: WasenderMessagePayload) => {
+        order.push((message as { text: string }).text);
+        // Entries removed while a pass is running are skipped.
+        if (order.length === 1) await store.delete('late');
+        return sent();
+      }),
+    };
+    outbox = new Outbox(client, { store, now: () => now });
+    for (const [id, at] of [['c', 1000], ['a', 800], ['b', 900], ['late', 1000]] as const) {
+      now = at;
+      await outbox.enqueue({ ...payload, text: id }, { id });
+    }
+
+    now = 2000;
+    list.mockClear();
+    expect(await outbox.drain()).toBe(3);
+    expect(order).toEqual(['a', 'b', 'c']);
+    expect(list).toHaveBeenCalledTimes(2);
+  });
+
+  it('tracks status changes', async () => {
+    const changes: Array<[OutboxStatus, OutboxStatus]> = [];
+    outbox = new Outbox(createClient(), { onStatusChange: (entry, previous) => changes.push([previous, entry.status]) });
+    await outbox.enqueue(payload);
+    await outbox.drain();
+    expect(changes).toEqual([['queued', 'sending'], ['sending', 'sent']]);
+  });
+
+  it('logs onStatusChange errors without changing the outcome', async () => {
+    const client = createClient();
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    outbox = new Outbox(client, { logger, onStatusChange: () => { throw new Error('metrics down'); } });
+    const entry = await outbox.enqueue(payload);
+
+    expect(await outbox.drain()).toBe(1);
+    expect(client.send).toHaveBeenCalledTimes(1);
+    expect(await outbox.get(entry.id)).toMatchObject({ status: 'sent', attempts: 1 });
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('onStatusChange'), expect.objectContaining({ id: entry.id, entryStatus: 'sent', error: 'metrics down' }));
+  });
+
+  it('retries retryable failures with backoff, reusing the idempotency key', async () => {
+    let now = 1000;
+    const client = createClient(new WasenderAPIError('Unavailable', 503), sent());
+    outbox = new Outbox(client, { now: () => now, backoff: { baseDelayMs: 100, jitter: 'none' } });
+    const entry = await outbox.enqueue(payload);
+
+    await outbox.drain();
+    expect(await outbox.get(entry.id)).toMatchObject({
+      status: 'failed', attempts: 1, nextAttemptAt: 1100, lastError: { message: 'Unavailable', statusCode: 503, code: 'api_error' },
+    });
+    expect(await outbox.drain()).toBe(0);
+
+    now = 1100;
+    await outbox.drain();
+    expect(await outbox.get(entry.id)).toMatchObject({ status: 'sent', attempts: 2 });
+    expect(client.send.mock.calls.map(call => (call as unknown[])[1])).toEqual([
+      { idempotencyKey: entry.idempotencyKey, force: true },
+      { idempotencyKey: entry.idempotencyKey, force: true },
+    ]);
+  });
+
+  it('retries through the client dedupe window', async () => {
+    let now = 1000;
+    const response = (status: number, body: unknown) => ({ ok: status < 400, status, headers: new Headers(), json: () => Promise.resolve(body) });
+    const mockFetch = jest.fn()
+      .mockResolvedValueOnce(response(503, { success: false, message: 'Unavailable' }))
+      .mockResolvedValueOnce(response(200, { success: true, message: 'sent' })) as jest.MockedFunction<FetchImplementation>;
+    const client = createWasender({ apiKey: 'API_KEY', fetchImplementation: mockFetch, dedupeWindowMs: 60_000 });
+    outbox = new Outbox(client, { now: () => now, backoff: { baseDelayMs: 100, jitter: 'none' } });
+    const entry = await outbox.enqueue(payload);
+
+    await outbox.drain();
+    now = 1100;
+    await outbox.drain();
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(await outbox.get(entry.id)).toMatchObject({ status: 'sent', attempts: 2 });
+  });
+
+  it('waits at least retryAfter after a 429', async () => {
+    const now = 1000;
+    outbox = new Outbox(createClient(new WasenderRateLimitError('Slow down', 30)), { now: () => now, backoff: { jitter: 'none' } });
+    const entry = await outbox.enqueue(payload);
+    await outbox.drain();
+    expect((await outbox.get(entry.id))!.nextAttemptAt).toBe(31_000);
+  });
+
+  it('dead-letters permanent failures and exhausted entries, and requeues them', async () => {
+    let now = 0;
+    const client = createClient(new WasenderValidationError('Invalid number'), new WasenderAPIError('Down', 500), sent());
+    outbox = new Outbox(client, { now: () => now, maxAttempts: 1 });
+    const invalid = await outbox.enqueue(payload, { id: 'invalid' });
+    const flaky = await outbox.enqueue(payload, { id: 'flaky' });
+
+    await outbox.drain();
+    expect((await outbox.deadLetters()).map(entry => [entry.id, entry.lastError?.code])).toEqual([
+      ['invalid', 'validation_error'],
+      ['flaky', 'api_error'],
+    ]);
+
+    await outbox.requeue(flaky.id);
+    now = 1;
+    await outbox.drain();
+    expect(await outbox.get(flaky.id)).toMatchObject({ status: 'sent', attempts: 1 });
+    expect(await outbox.get(invalid.id)).toMatchObject({ status: 'dead' });
+    await expect(outbox.requeue(flaky.id)).rejects.toThrow(WasenderValidationError);
+  });
+
+  it('rejects duplicate IDs', async () => {
+    outbox = new Outbox(createClient());
+    await outbox.enqueue(payload, { id: 'order-1' });
+    await expect(outbox.enqueue(payload, { id: 'order-1' })).rejects.toThrow(WasenderValidationError);
+  });
+
+  it('runs a worker that sends enqueued messages', async () => {
+    const client = createClient();
+    outbox = new Outbox(client, { pollIntervalMs: 10 });
+    await outbox.start();
+    const entry = await outbox.enqueue(payload);
+    await wait(30);
+    expect(client.send).toHaveBeenCalledTimes(1);
+    expect((await outbox.get(entry.id))!.status).toBe('sent');
+  });
+
+  it('requeues entries left sending by a crash on start', async () => {
+    const store = new InMemoryOutboxStore();
+    const stuck: OutboxEntry = {
+      id: 'stuck', payload, status: 'sending', attempts: 1, maxAttempts: 5, nextAttemptAt: 0,
+      idempotencyKey: 'key-stuck', createdAt: 0, updatedAt: 0,
+    };
+    await store.save(stuck);
+    const client = createClient();
+    outbox = new Outbox(client, { store, pollIntervalMs: 10 });
+    await outbox.start();
+    await wait(30);
+    expect(client.send).toHaveBeenCalledWith(payload, { idempotencyKey: 'key-stuck', force: true });
+    expect(await store.get('stuck')).toMatchObject({ status: 'sent', attempts: 2 });
+  });
+
+  describe('webhook events', () => {
+    const update = (id: string, status: string): WasenderWebhookEvent => ({
+      event: 'messages.update',
+      data: [{ key: { id, fromMe: true, remoteId: '1234567890@s.whatsapp.net' }, update: { status } }],
+    } as WasenderWebhookEvent);
+
+    it('marks entries delivered and read by message ID', async () => {
+      outbox = new Outbox(createClient(sent(42)));
+      const entry = await outbox.enqueue(payload);
+      await outbox.drain();
+
+      expect(await outbox.handleWebhookEvent(update('42', 'delivered'))).toEqual([
+        expect.objectContaining({ id: entry.id, status: 'delivered', deliveredAt: expect.any(Number) }),
+      ]);
+      await outbox.handleWebhookEvent(update('42', 'read'));
+      expect(await outbox.get(entry.id)).toMatchObject({ status: 'read', readAt: expect.any(Number), deliveredAt: expect.any(Number) });
+    });
+
+    it('never moves an entry backwards and ignores unknown messages', async () => {
+      outbox = new Outbox(createClient(sent('A')));
+      const entry = await outbox.enqueue(payload);
+      await outbox.drain();
+      await outbox.handleWebhookEvent(update('A', 'read'));
+
+      expect(await outbox.handleWebhookEvent(update('A', 'delivered'))).toEqual([]);
+      expect(await outbox.handleWebhookEvent({
+        event: 'message.sent',
+        data: { key: { id: 'A', fromMe: true, remoteId: 'x' }, status: 'sent' },
+      } as WasenderWebhookEvent)).toEqual([]);
+      expect(await outbox.handleWebhookEvent(update('unknown', 'read'))).toEqual([]);
+      expect((await outbox.get(entry.id))!.status).toBe('read');
+    });
+
+    it('uses a custom message ID resolver', async () => {
+      outbox = new Outbox(createClient(), { resolveMessageId: () => 'custom' });
+      const entry = await outbox.enqueue(payload);
+      await outbox.drain();
+      expect((await outbox.get(entry.id))!.messageId).toBe('custom');
+      expect(await outbox.handleWebhookEvent(update('custom', 'played'))).toEqual([expect.objectContaining({ status: 'read' })]);
+    });
+  });
+});
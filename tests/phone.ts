@@ -0,0 +1,74 @@
+import {
+  parsePhoneNumber,
+  normalizePhoneNumber,
+  isValidPhoneNumber,
+  formatPhoneNumber,
+  COUNTRY_NUMBERING,
+} from '../src/phone';
+import { WasenderValidationError } from '../src/errors';
+
+describe('normalizePhoneNumber', () => {
+  it('normalizes international formats', () => {
+    expect(normalizePhoneNumber('0044 7700 900123')).toBe('+447700900123');
+    expect(normalizePhoneNumber('+1 (555) 010-9999')).toBe('+15550109999');
+    expect(normalizePhoneNumber('+49 (0)30 123456')).toBe('+4930123456');
+    expect(normalizePhoneNumber('+44 07700 900123')).toBe('+447700900123');
+    expect(normalizePhoneNumber('447700900123')).toBe('+447700900123');
+  });
+
+  it('reads national formats in the default country', () => {
+    expect(normalizePhoneNumber('07700 900123', { defaultCountry: 'GB' })).toBe('+447700900123');
+    expect(normalizePhoneNumber('(555) 010-9999', { defaultCountry: 'US' })).toBe('+15550109999');
+    expect(normalizePhoneNumber('1 555 010 9999', { defaultCountry: 'US' })).toBe('+15550109999');
+    expect(normalizePhoneNumber('011 44 7700 900123', { defaultCountry: 'US' })).toBe('+447700900123');
+    expect(normalizePhoneNumber('+33 6 12 34 56 78', { defaultCountry: 'GB' })).toBe('+33612345678');
+  });
+});
+
+describe('parsePhoneNumber', () => {
+  it('splits calling code and national number', () => {
+    expect(parsePhoneNumber('+44 7700 900123')).toEqual({
+      e164: '+447700900123', countryCallingCode: '44', nationalNumber: '7700900123', country: 'GB',
+    });
+    expect(parsePhoneNumber('+1 555 010 9999', { defaultCountry: 'CA' }).country).toBe('CA');
+  });
+
+  it('rejects unknown calling codes, bad lengths and stray characters', () => {
+    expect(() => parsePhoneNumber('+999 1234567')).toThrow('unknown country calling code');
+    expect(() => parsePhoneNumber('+44 7700')).toThrow('expected');
+    expect(() => parsePhoneNumber('+1 555 010 99999')).toThrow('expected 10 digits after +1, got 11');
+    expect(() => parsePhoneNumber('+44 7700 CALL ME')).toThrow(WasenderValidationError);
+    expect(() => parsePhoneNumber('', {})).toThrow(WasenderValidationError);
+  });
+
+  it('reports the field name in the error details', () => {
+    const error = (() => { try { parsePhoneNumber('12', {}, 'to'); } catch (e) { return e as WasenderValidationError; } })();
+    expect(error?.errorDetails).toEqual({ to: [expect.stringContaining('Invalid phone number "12"')] });
+  });
+
+  it('exposes the country data it validates against', () => {
+    expect(COUNTRY_NUMBERING.GB).toMatchObject({ callingCode: '44', trunkPrefix: '0' });
+  });
+});
+
+describe('isValidPhoneNumber', () => {
+  it('returns a boolean instead of throwing', () => {
+    expect(isValidPhoneNumber('+447700900123')).toBe(true);
+    expect(isValidPhoneNumber('07700 900123')).toBe(false);
+    expect(isValidPhoneNumber('07700 900123', { defaultCountry: 'GB' })).toBe(true);
+  });
+});
+
+describe('formatPhoneNumber', () => {
+  it('formats NANP numbers', () => {
+    expect(formatPhoneNumber('+15550109999')).toBe('+1 555-010-9999');
+    expect(formatPhoneNumber('+15550109999', 'national')).toBe('(555) 010-9999');
+  });
+
+  it('formats other countries', () => {
+    expect(formatPhoneNumber('+447700900123')).toBe('+44 7700 900123');
+    expect(formatPhoneNumber('+447700900123', 'national')).toBe('07700 900123');
+    expect(formatPhoneNumber('+447700900123', 'digits')).toBe('447700900123');
+    expect(formatPhoneNumber(parsePhoneNumber('07700 900123', { defaultCountry: 'GB' }), 'e164')).toBe('+447700900123');
+  });
+});
@@ -0,0 +1,99 @@
+import { PollAggregator, PollTally, validatePoll } from '../src/polls';
+import { WasenderValidationError } from '../src/errors';
+import { WasenderWebhookEvent } from '../src/webhook';
+
+const pollKey = { id: 'POLL-1', fromMe: true, remoteId: '123-456@g.us' };
+const lunch = { question: 'Lunch?', options: ['Pizza', 'Sushi', 'Salad'] };
+
+const voteEvent = (voter: string, selectedOptions: string[], senderTimestampMs?: number): WasenderWebhookEvent => ({
+  event: 'messages.poll-vote',
+  data: [{ key: pollKey, vote: { voter, selectedOptions, senderTimestampMs } }],
+});
+
+const counts = (tally: PollTally | undefined) => Object.fromEntries(tally!.options.map(option => [option.name, option.votes]));
+
+describe('validatePoll', () => {
+  it('accepts valid polls', () => {
+    expect(() => validatePoll(lunch)).not.toThrow();
+    expect(() => validatePoll({ ...lunch, selectableCount: 3 })).not.toThrow();
+  });
+
+  it.each([
+    ['an empty question', { ...lunch, question: ' ' }, 'poll.question'],
+    ['a single option', { ...lunch, options: ['Pizza'] }, 'poll.options'],
+    ['13 options', { ...lunch, options: Array.from({ length: 13 }, (_, i) => `Option ${i}`) }, 'poll.options'],
+    ['duplicate options', { ...lunch, options: ['Pizza', 'Pizza '] }, 'poll.options'],
+    ['an empty option', { ...lunch, options: ['Pizza', ''] }, 'poll.options'],
+    ['a selectable count above the options', { ...lunch, selectableCount: 4 }, 'poll.selectableCount'],
+    ['a fractional selectable count', { ...lunch, selectableCount: 1.5 }, 'poll.selectableCount'],
+  ])('rejects %s', (_case, poll, field) => {
+    let error: WasenderValidationError | undefined;
+    try {
+      validatePoll(poll);
+    } catch (e) {
+      error = e as WasenderValidationError;
+    }
+    expect(error?.fieldErrors(field)).toHaveLength(1);
+  });
+});
+
+describe('PollAggregator', () => {
+  it('tallies votes per option, including options without votes', () => {
+    const aggregator = new PollAggregator();
+    aggregator.track(pollKey, lunch);
+    aggregator.handleWebhookEvent(voteEvent('a@s.whatsapp.net', ['Pizza'], 1));
+    aggregator.handleWebhookEvent(voteEvent('b@s.whatsapp.net', ['Pizza'], 2));
+
+    expect(aggregator.getTally(pollKey)).toEqual({
+      pollId: 'POLL-1',
+      question: 'Lunch?',
+      selectableCount: 1,
+      options: [
+        { name: 'Pizza', votes: 2, voters: ['a@s.whatsapp.net', 'b@s.whatsapp.net'] },
+        { name: 'Sushi', votes: 0, voters: [] },
+        { name: 'Salad', votes: 0, voters: [] },
+      ],
+      totalVoters: 2,
+      updatedAt: 2,
+    });
+  });
+
+  it('replaces earlier votes, ignores stale ones and handles retractions', () => {
+    const aggregator = new PollAggregator();
+    aggregator.track('POLL-1', { ...lunch, selectableCount: 2 });
+    aggregator.handleWebhookEvent(voteEvent('a', ['Pizza', 'Sushi'], 10));
+    aggregator.handleWebhookEvent(voteEvent('a', ['Salad'], 20));
+    aggregator.handleWebhookEvent(voteEvent('a', ['Pizza'], 15));
+    expect(counts(aggregator.getTally('POLL-1'))).toEqual({ Pizza: 0, Sushi: 0, Salad: 1 });
+
+    aggregator.handleWebhookEvent(voteEvent('a', [], 30));
+    expect(aggregator.getTally(pollKey)).toMatchObject({ totalVoters: 0, updatedAt: 30 });
+  });
+
+  it('reports live updates and counts votes on untracked polls', () => {
+    const onUpdate = jest.fn();
+    const aggregator = new PollAggregator({ onUpdate, now: () => 99 });
+    const changed = aggregator.handleWebhookEvent(voteEvent('a', ['Yes']));
+
+    expect(changed).toHaveLength(1);
+    expect(onUpdate).toHaveBeenCalledWith(expect.objectContaining({ pollId: 'POLL-1', totalVoters: 1, updatedAt: 99 }));
+    expect(counts(changed[0])).toEqual({ Yes: 1 });
+    expect(changed[0].question).toBeUndefined();
+  });
+
+  it('registers polls seen in message events', () => {
+    const aggregator = new PollAggregator();
+    const tallies = aggregator.handleWebhookEvent({
+      event: 'message.sent',
+      data: {
+        key: pollKey,
+        message: { pollCreationMessage: { name: 'Lunch?', options: [{ optionName: 'Pizza' }, { optionName: 'Sushi' }], selectableOptionsCount: 0 } },
+      },
+    });
+    expect(tallies).toEqual([expect.objectContaining({ question: 'Lunch?', selectableCount: 2 })]);
+    expect(aggregator.handleWebhookEvent({ event: 'session.status', data: { status: 'connected' } })).toEqual([]);
+    expect(aggregator.tallies()).toHaveLength(1);
+    expect(aggregator.forget(pollKey)).toBe(true);
+    expect(aggregator.getTally(pollKey)).toBeUndefined();
+  });
+});
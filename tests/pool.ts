@@ -0,0 +1,133 @@
+import { WasenderPool, createWasenderPool } from '../src/pool';
+import { FetchImplementation } from '../src/main';
+import { WasenderAPIError, WasenderConfigError } from '../src/errors';
+import { RateLimiter } from '../src/ratelimit';
+
+const jsonResponse = (body: object, headers: Record<string, string> = {}) => ({
+  ok: true,
+  status: 200,
+  headers: new Headers(headers),
+  json: () => Promise.resolve(body),
+});
+
+const session = (id: number, apiKey?: string) => ({
+  id,
+  name: `Session ${id}`,
+  phone_number: '+1234567890',
+  status: 'connected',
+  account_protection: true,
+  log_messages: false,
+  webhook_url: null,
+  webhook_enabled: false,
+  webhook_events: null,
+  api_key: apiKey,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+});
+
+describe('WasenderPool', () => {
+  it('returns one client per API key sharing the fetch implementation', async () => {
+    const mockFetch = jest.fn().mockResolvedValue(jsonResponse({ success: true, data: [] })) as jest.MockedFunction<FetchImplementation>;
+    const pool = createWasenderPool({ fetchImplementation: mockFetch });
+
+    const a = pool.forSession('KEY_A');
+    expect(pool.forSession('KEY_A')).toBe(a);
+    const b = pool.forSession('KEY_B');
+    expect(b).not.toBe(a);
+
+    await a.getContacts();
+    await b.getContacts();
+    expect(mockFetch.mock.calls.map(([, init]) => (init!.headers as Record<string, string>).Authorization))
+      .toEqual(['Bearer KEY_A', 'Bearer KEY_B']);
+    expect(pool.keys()).toEqual(['KEY_A', 'KEY_B']);
+  });
+
+  it('tracks rate limit information per session', async () => {
+    const mockFetch = jest.fn()
+      .mockResolvedValueOnce(jsonResponse({ success: true, data: [] }, { 'X-RateLimit-Remaining': '9' }))
+      .mockResolvedValueOnce(jsonResponse({ success: true, data: [] }, { 'X-RateLimit-Remaining': '4' })) as jest.MockedFunction<FetchImplementation>;
+    const pool = new WasenderPool({ fetchImplementation: mockFetch });
+
+    await pool.forSession('KEY_A').getContacts();
+    await pool.forSession('KEY_B').getContacts();
+
+    expect(pool.getRateLimitInfo('KEY_A')?.remaining).toBe(9);
+    expect(pool.getRateLimitInfo('KEY_B')?.remaining).toBe(4);
+    expect(pool.getRateLimitInfo('KEY_C')).toBeUndefined();
+  });
+
+  it('gives each session its own rate limiter', () => {
+    const pool = new WasenderPool({ fetchImplementation: jest.fn() as jest.MockedFunction<FetchImplementation>, rateLimiter: true });
+    expect(pool.forSession('KEY_A').getRateLimiterState()).not.toBeNull();
+    expect(pool.forSession('KEY_A')['rateLimiter']).not.toBe(pool.forSession('KEY_B')['rateLimiter']);
+  });
+
+  it('creates each session limiter with the rateLimiter factory', async () => {
+    const mockFetch = jest.fn()
+      .mockResolvedValueOnce(jsonResponse({ success: true, data: [] }, { 'X-RateLimit-Limit': '10', 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '4102444800' }))
+      .mockResolvedValueOnce(jsonResponse({ success: true, data: [] }, { 'X-RateLimit-Limit': '10', 'X-RateLimit-Remaining': '7', 'X-RateLimit-Reset': '4102444800' })) as jest.MockedFunction<FetchImplementation>;
+    const factory = jest.fn(() => new RateLimiter());
+    const pool = new WasenderPool({ fetchImplementation: mockFetch, rateLimiter: factory });
+
+    await pool.forSession('KEY_A').getContacts();
+    await pool.forSession('KEY_B').getContacts();
+    expect(factory.mock.calls).toEqual([['KEY_A'], ['KEY_B']]);
+    expect(pool.forSession('KEY_A').getRateLimiterState()?.remaining).toBe(0);
+    expect(pool.forSession('KEY_B').getRateLimiterState()?.remaining).toBe(7);
+  });
+
+  it('rejects a RateLimiter instance shared by all sessions', () => {
+    expect(() => new WasenderPool({ rateLimiter: new RateLimiter() as unknown as true })).toThrow(WasenderConfigError);
+  });
+
+  it('resolves a client by session ID through getAllWhatsAppSessions', async () => {
+    const mockFetch = jest.fn().mockResolvedValue(
+      jsonResponse({ success: true, message: 'ok', data: [session(1, 'KEY_1'), session(2, 'KEY_2')] })
+    ) as jest.MockedFunction<FetchImplementation>;
+    const pool = new WasenderPool({ personalAccessToken: 'PAT', fetchImplementation: mockFetch });
+
+    const client = await pool.forSessionId(2);
+    expect(client).toBe(pool.forSession('KEY_2'));
+    await pool.forSessionId(1);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.stringContaining('/whatsapp-sessions'),
+      expect.objectContaining({ headers: expect.objectContaining({ Authorization: 'Bearer PAT' }) })
+    );
+  });
+
+  it('reports unknown sessions and sessions without a known key', async () => {
+    const mockFetch = jest.fn().mockResolvedValue(
+      jsonResponse({ success: true, message: 'ok', data: [session(1)] })
+    ) as jest.MockedFunction<FetchImplementation>;
+    const pool = new WasenderPool({ personalAccessToken: 'PAT', fetchImplementation: mockFetch });
+
+    await expect(pool.forSessionId(9)).rejects.toMatchObject({ statusCode: 404 });
+    await expect(pool.forSessionId(1)).rejects.toBeInstanceOf(WasenderConfigError);
+
+    pool.registerSession(1, 'KEY_1');
+    await expect(pool.forSessionId(1)).resolves.toBe(pool.forSession('KEY_1'));
+  });
+
+  it('swaps the client after regenerating an API key', async () => {
+    const mockFetch = jest.fn().mockResolvedValue(
+      jsonResponse({ success: true, api_key: 'KEY_NEW' })
+    ) as jest.MockedFunction<FetchImplementation>;
+    const pool = new WasenderPool({ personalAccessToken: 'PAT', fetchImplementation: mockFetch });
+    const oldClient = pool.registerSession(7, 'KEY_OLD');
+
+    const newClient = await pool.refreshApiKey(7);
+
+    expect(mockFetch).toHaveBeenCalledWith(expect.stringContaining('/whatsapp-sessions/7/regenerate-key'), expect.anything());
+    expect(newClient).not.toBe(oldClient);
+    expect(await pool.forSessionId(7)).toBe(newClient);
+    expect(pool.keys()).toEqual(['KEY_NEW']);
+  });
+
+  it('requires a Personal Access Token for session management', async () => {
+    const pool = new WasenderPool({ fetchImplementation: jest.fn() as jest.MockedFunction<FetchImplementation> });
+    await expect(pool.forSessionId(1)).rejects.toBeInstanceOf(WasenderConfigError);
+    expect(() => pool.forSession('')).toThrow(WasenderAPIError);
+  });
+});
@@ -0,0 +1,79 @@
+import { RateLimiter } from '../src/ratelimit';
+import { WasenderAPIError } from '../src/errors';
+import { RateLimitInfo } from '../src/messages';
+
+const info = (limit: number | null, remaining: number | null, resetTimestamp: number | null): RateLimitInfo => ({
+  limit,
+  remaining,
+  resetTimestamp,
+});
+
+describe('RateLimiter', () => {
+  it('lets requests through while the budget is unknown', async () => {
+    const limiter = new RateLimiter();
+    await limiter.acquire();
+    await limiter.acquire();
+    expect(limiter.getState()).toEqual({ limit: null, remaining: null, resetTimestamp: null, queueDepth: 0 });
+  });
+
+  it('consumes the learned budget and queues once it is exhausted', async () => {
+    let now = 1_000_000;
+    const limiter = new RateLimiter({ now: () => now });
+    limiter.update(info(10, 1, now / 1000 + 60));
+
+    await limiter.acquire();
+    expect(limiter.getState().remaining).toBe(0);
+
+    let released = false;
+    const pending = limiter.acquire().then(() => { released = true; });
+    await Promise.resolve();
+    expect(released).toBe(false);
+    expect(limiter.getState().queueDepth).toBe(1);
+
+    // Server reports a fresh window.
+    limiter.update(info(10, 10, now / 1000 + 120));
+    await pending;
+    expect(released).toBe(true);
+    expect(limiter.getState()).toMatchObject({ remaining: 9, queueDepth: 0 });
+  });
+
+  it('releases queued requests when the reset time passes', async () => {
+    let now = Date.now();
+    const limiter = new RateLimiter({ now: () => now });
+    limiter.update(info(5, 0, (now + 20) / 1000));
+
+    const pending = limiter.acquire();
+    expect(limiter.getState().queueDepth).toBe(1);
+    now += 20;
+    await pending;
+    expect(limiter.getState()).toMatchObject({ limit: 5, remaining: 4, resetTimestamp: null, queueDepth: 0 });
+  });
+
+  it('does not block forever when exhausted without a reset time', async () => {
+    const limiter = new RateLimiter();
+    limiter.update(info(5, 0, null));
+    await expect(limiter.acquire()).resolves.toBeUndefined();
+  });
+
+  it('rejects queued requests when their signal aborts', async () => {
+    const limiter = new RateLimiter();
+    limiter.update(info(5, 0, Date.now() / 1000 + 60));
+    const controller = new AbortController();
+
+    const pending = limiter.acquire(controller.signal);
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(WasenderAPIError);
+    expect(limiter.getState().queueDepth).toBe(0);
+  });
+
+  it('rejects requests beyond maxQueueSize', async () => {
+    const limiter = new RateLimiter({ maxQueueSize: 1 });
+    limiter.update(info(5, 0, Date.now() / 1000 + 60));
+    const controller = new AbortController();
+
+    const first = limiter.acquire(controller.signal);
+    await expect(limiter.acquire()).rejects.toThrow('queue is full');
+    controller.abort();
+    await expect(first).rejects.toThrow();
+  });
+});
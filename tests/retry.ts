@@ -0,0 +1,76 @@
+import {
+  resolveRetryConfig,
+  computeBackoffDelay,
+  parseRetryAfterHeader,
+  isIdempotentMethod,
+  DEFAULT_RETRYABLE_STATUS_CODES,
+} from '../src/retry';
+
+describe('resolveRetryConfig', () => {
+  it('applies defaults', () => {
+    const config = resolveRetryConfig();
+    expect(config.enabled).toBe(false);
+    expect(config.maxRetries).toBe(0);
+    expect(config.baseDelayMs).toBe(1000);
+    expect(config.maxDelayMs).toBe(30000);
+    expect(config.jitter).toBe('full');
+    expect(config.retryableStatusCodes).toEqual([...DEFAULT_RETRYABLE_STATUS_CODES]);
+    expect(config.maxElapsedMs).toBeUndefined();
+    expect(config.retryNonIdempotent).toBe(false);
+  });
+
+  it('keeps user supplied values', () => {
+    const config = resolveRetryConfig({ enabled: true, maxRetries: 5, jitter: 'none', retryableStatusCodes: [503] });
+    expect(config).toMatchObject({ enabled: true, maxRetries: 5, jitter: 'none', retryableStatusCodes: [503] });
+  });
+});
+
+describe('computeBackoffDelay', () => {
+  const config = resolveRetryConfig({ baseDelayMs: 100, maxDelayMs: 1000, jitter: 'none' });
+
+  it('doubles the delay on each retry and caps it at maxDelayMs', () => {
+    expect(computeBackoffDelay(config, 1)).toBe(100);
+    expect(computeBackoffDelay(config, 2)).toBe(200);
+    expect(computeBackoffDelay(config, 3)).toBe(400);
+    expect(computeBackoffDelay(config, 10)).toBe(1000);
+  });
+
+  it('applies full jitter', () => {
+    const full = { ...config, jitter: 'full' as const };
+    expect(computeBackoffDelay(full, 3, () => 0)).toBe(0);
+    expect(computeBackoffDelay(full, 3, () => 0.5)).toBe(200);
+  });
+
+  it('applies equal jitter', () => {
+    const equal = { ...config, jitter: 'equal' as const };
+    expect(computeBackoffDelay(equal, 3, () => 0)).toBe(200);
+    expect(computeBackoffDelay(equal, 3, () => 0.5)).toBe(300);
+  });
+});
+
+describe('parseRetryAfterHeader', () => {
+  it('parses delay-seconds', () => {
+    expect(parseRetryAfterHeader('3')).toBe(3000);
+    expect(parseRetryAfterHeader(' 1.5 ')).toBe(1500);
+  });
+
+  it('parses HTTP dates relative to now', () => {
+    const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+    expect(parseRetryAfterHeader('Wed, 21 Oct 2015 07:28:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfterHeader('Wed, 21 Oct 2015 07:27:00 GMT', now)).toBe(0);
+  });
+
+  it('returns undefined for missing or malformed values', () => {
+    expect(parseRetryAfterHeader(null)).toBeUndefined();
+    expect(parseRetryAfterHeader('soon')).toBeUndefined();
+  });
+});
+
+describe('isIdempotentMethod', () => {
+  it('treats only POST as non-idempotent', () => {
+    expect(isIdempotentMethod('GET')).toBe(true);
+    expect(isIdempotentMethod('PUT')).toBe(true);
+    expect(isIdempotentMethod('DELETE')).toBe(true);
+    expect(isIdempotentMethod('POST')).toBe(false);
+  });
+});
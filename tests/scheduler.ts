@@ -0,0 +1,193 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  MessageScheduler,
+  InMemoryScheduleStore,
+  FileScheduleStore,
+  ScheduledMessage,
+  zonedTimeToDate,
+} from '../src/scheduler';
+import { WasenderAPIError, WasenderValidationError } from '../src/errors';
+import { WasenderMessagePayload, WasenderSendResult } from '../src/messages';
+
+const payload: WasenderMessagePayload = { messageType: 'text', to: '+1234567890', text: 'Reminder' };
+
+const createClient = (impl?: () => Promise<WasenderSendResult>) => ({
+  send: jest.fn(impl ?? (async () => ({ response: { success: true as const, message: 'sent' } }))),
+});
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const pendingMessage = (id: string, sendAt: number): ScheduledMessage => ({
+  id, payload, sendAt, status: 'pending', idempotencyKey: `key-${id}`, createdAt: 0, updatedAt: 0,
+});
+
+describe('zonedTimeToDate', () => {
+  it('converts wall-clock times in a time zone', () => {
+    expect(zonedTimeToDate('2024-01-15T09:00', 'America/New_York').toISOString()).toBe('2024-01-15T14:00:00.000Z');
+    expect(zonedTimeToDate('2024-07-15T09:00', 'America/New_York').toISOString()).toBe('2024-07-15T13:00:00.000Z');
+    expect(zonedTimeToDate('2024-07-15 09:00:30', 'Asia/Kolkata').toISOString()).toBe('2024-07-15T03:30:30.000Z');
+  });
+
+  it('handles daylight saving transitions', () => {
+    // 02:30 does not exist on 2024-03-31 in Lisbon; clocks jump from 01:00 to 02:00.
+    expect(zonedTimeToDate('2024-03-31T01:30', 'Europe/Lisbon').toISOString()).toBe('2024-03-31T01:30:00.000Z');
+    expect(zonedTimeToDate('2024-03-31T03:00', 'Europe/Lisbon').toISOString()).toBe('2024-03-31T02:00:00.000Z');
+  });
+
+  it('rejects invalid input', () => {
+    expect(() => zonedTimeToDate('tomorrow', 'UTC')).toThrow(WasenderValidationError);
+    expect(() => zonedTimeToDate('2024-01-01T09:00', 'Mars/Olympus')).toThrow(WasenderValidationError);
+  });
+});
+
+describe('MessageScheduler', () => {
+  let scheduler: MessageScheduler | undefined;
+
+  afterEach(() => scheduler?.stop());
+
+  it('sends a message at its send time', async () => {
+    const client = createClient();
+    const onSent = jest.fn();
+    scheduler = new MessageScheduler(client, { onSent });
+    await scheduler.start();
+    const scheduled = await scheduler.schedule(payload, Date.now() + 30);
+
+    expect(client.send).not.toHaveBeenCalled();
+    await wait(60);
+    expect(client.send).toHaveBeenCalledWith(payload, { idempotencyKey: scheduled.idempotencyKey, force: true });
+    expect(await scheduler.get(scheduled.id)).toMatchObject({ status: 'sent', sentAt: expect.any(Number) });
+    expect(onSent).toHaveBeenCalledWith(expect.objectContaining({ id: scheduled.id, status: 'sent' }), expect.anything());
+  });
+
+  it('interprets wall-clock times in the scheduler time zone', async () => {
+    scheduler = new MessageScheduler(createClient(), { timeZone: 'Europe/Lisbon' });
+    const scheduled = await scheduler.schedule(payload, '2030-07-01T09:00');
+    expect(new Date(scheduled.sendAt).toISOString()).toBe('2030-07-01T08:00:00.000Z');
+    expect(scheduled.timeZone).toBe('Europe/Lisbon');
+
+    const explicit = await scheduler.schedule(payload, '2030-07-01T09:00', { timeZone: 'Asia/Tokyo' });
+    expect(new Date(explicit.sendAt).toISOString()).toBe('2030-07-01T00:00:00.000Z');
+    const withOffset = await scheduler.schedule(payload, '2030-07-01T09:00:00Z');
+    expect(new Date(withOffset.sendAt).toISOString()).toBe('2030-07-01T09:00:00.000Z');
+  });
+
+  it('cancels, reschedules and lists messages', async () => {
+    const client = createClient();
+    scheduler = new MessageScheduler(client);
+    await scheduler.start();
+    const first = await scheduler.schedule(payload, Date.now() + 40, { id: 'first', metadata: { appointment: 7 } });
+    const second = await scheduler.schedule(payload, Date.now() + 20, { id: 'second' });
+
+    expect((await scheduler.list()).map(m => m.id)).toEqual(['second', 'first']);
+    expect(await scheduler.cancel('second')).toBe(true);
+    expect(await scheduler.cancel('second')).toBe(false);
+    await scheduler.reschedule(first.id, Date.now() + 5);
+
+    await wait(30);
+    expect(client.send).toHaveBeenCalledTimes(1);
+    expect((await scheduler.list({ status: 'cancelled' })).map(m => m.id)).toEqual(['second']);
+    expect(await scheduler.get('first')).toMatchObject({ status: 'sent', metadata: { appointment: 7 } });
+    await expect(scheduler.reschedule('first', Date.now())).rejects.toThrow(WasenderValidationError);
+  });
+
+  it('rejects duplicate IDs and invalid times', async () => {
+    scheduler = new MessageScheduler(createClient());
+    await scheduler.schedule(payload, Date.now() + 1000, { id: 'a' });
+    await expect(scheduler.schedule(payload, Date.now() + 1000, { id: 'a' })).rejects.toThrow(WasenderValidationError);
+    await expect(scheduler.schedule(payload, 'next tuesday')).rejects.toThrow(WasenderValidationError);
+  });
+
+  it('holds messages scheduled before start() until it runs', async () => {
+    const client = createClient();
+    scheduler = new MessageScheduler(client);
+    await scheduler.schedule(payload, Date.now() - 1000);
+    await wait(10);
+    expect(client.send).not.toHaveBeenCalled();
+    const overdue = await scheduler.start();
+    expect(overdue).toHaveLength(1);
+    expect(overdue[0].status).toBe('sent');
+  });
+
+  it('records failures', async () => {
+    const client = createClient(async () => { throw new WasenderAPIError('Session disconnected', 503); });
+    const onFailed = jest.fn();
+    scheduler = new MessageScheduler(client, { onFailed });
+    await scheduler.start();
+    const scheduled = await scheduler.schedule(payload, Date.now());
+    await wait(20);
+    expect(await scheduler.get(scheduled.id)).toMatchObject({
+      status: 'failed',
+      error: { message: 'Session disconnected', code: 'api_error', statusCode: 503 },
+    });
+    expect(onFailed).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps a sent message sent when onSent throws', async () => {
+    const client = createClient();
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const onFailed = jest.fn();
+    scheduler = new MessageScheduler(client, { onSent: () => { throw new Error('webhook down'); }, onFailed, logger });
+    await scheduler.start();
+    const scheduled = await scheduler.schedule(payload, Date.now());
+    await wait(20);
+
+    expect(await scheduler.get(scheduled.id)).toMatchObject({ status: 'sent' });
+    expect(onFailed).not.toHaveBeenCalled();
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('onSent'), expect.objectContaining({ callback: 'onSent', error: 'webhook down' }));
+  });
+
+  describe('catch-up on start', () => {
+    const now = 1_000_000;
+    const seed = async () => {
+      const store = new InMemoryScheduleStore();
+      await store.save(pendingMessage('late', now - 60_000));
+      await store.save(pendingMessage('very-late', now - 3_600_000));
+      await store.save(pendingMessage('future', now + 3_600_000));
+      return store;
+    };
+
+    it('sends overdue messages by default, with their stored idempotency key', async () => {
+      const client = createClient();
+      scheduler = new MessageScheduler(client, { store: await seed(), now: () => now });
+      const overdue = await scheduler.start();
+      expect(overdue.map(m => [m.id, m.status])).toEqual([['very-late', 'sent'], ['late', 'sent']]);
+      expect(client.send).toHaveBeenCalledWith(payload, { idempotencyKey: 'key-late', force: true });
+    });
+
+    it('marks messages later than maxLatenessMs as missed', async () => {
+      const onMissed = jest.fn();
+      scheduler = new MessageScheduler(createClient(), { store: await seed(), now: () => now, maxLatenessMs: 300_000, onMissed });
+      const overdue = await scheduler.start();
+      expect(overdue.map(m => [m.id, m.status])).toEqual([['very-late', 'missed'], ['late', 'sent']]);
+      expect(onMissed).toHaveBeenCalledWith(expect.objectContaining({ id: 'very-late' }));
+    });
+
+    it('skips all overdue messages with the skip policy', async () => {
+      const client = createClient();
+      const store = await seed();
+      scheduler = new MessageScheduler(client, { store, now: () => now, catchUp: 'skip' });
+      await scheduler.start();
+      expect(client.send).not.toHaveBeenCalled();
+      expect((await store.list()).map(m => m.status).sort()).toEqual(['missed', 'missed', 'pending']);
+    });
+  });
+
+  it('recovers messages from a file store after a restart', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'wasender-schedule-'));
+    try {
+      const path = join(dir, 'schedule.json');
+      const first = new MessageScheduler(createClient(), { store: new FileScheduleStore(path) });
+      const scheduled = await first.schedule(payload, Date.now() - 1);
+
+      const client = createClient();
+      scheduler = new MessageScheduler(client, { store: new FileScheduleStore(path) });
+      await scheduler.start();
+      expect(client.send).toHaveBeenCalledWith(payload, { idempotencyKey: scheduled.idempotencyKey, force: true });
+      expect(await new FileScheduleStore(path).get(scheduled.id)).toMatchObject({ status: 'sent' });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,105 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { InMemoryRecordStore, JsonFileRecordStore, SqliteRecordStore, SqliteDatabase } from '../src/store';
+import { WasenderValidationError } from '../src/errors';
+
+interface Job {
+  id: string;
+  status: string;
+  at: number;
+  tags?: string[];
+}
+
+const job = (id: string, at: number, status = 'pending'): Job => ({ id, status, at });
+
+describe('InMemoryRecordStore', () => {
+  it('stores copies of records', async () => {
+    const store = new InMemoryRecordStore<Job>();
+    const record = { ...job('a', 1), tags: ['x'] };
+    await store.save(record);
+    record.tags.push('y');
+    const stored = await store.get('a');
+    expect(stored).toEqual({ ...job('a', 1), tags: ['x'] });
+    stored!.status = 'changed';
+    expect((await store.get('a'))!.status).toBe('pending');
+    expect(await store.delete('a')).toBe(true);
+    expect(await store.list()).toEqual([]);
+  });
+});
+
+describe('JsonFileRecordStore', () => {
+  let dir: string;
+
+  beforeEach(() => { dir = mkdtempSync(join(tmpdir(), 'wasender-store-')); });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('persists records across instances', async () => {
+    const path = join(dir, 'jobs.json');
+    const store = new JsonFileRecordStore<Job>(path);
+    await store.save(job('a', 1));
+    await store.save(job('b', 2));
+    expect(await store.delete('b')).toBe(true);
+    expect(await store.delete('b')).toBe(false);
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toHaveLength(1);
+
+    const reopened = new JsonFileRecordStore<Job>(path);
+    expect(await reopened.get('a')).toEqual(job('a', 1));
+    expect(await reopened.list()).toHaveLength(1);
+    expect(await reopened.get('b')).toBeUndefined();
+  });
+
+  it('starts empty when the file does not exist', async () => {
+    expect(await new JsonFileRecordStore<Job>(join(dir, 'missing.json')).list()).toEqual([]);
+  });
+
+  it('keeps the latest state when saves overlap', async () => {
+    const path = join(dir, 'jobs.json');
+    const store = new JsonFileRecordStore<Job>(path);
+    await Promise.all([store.save(job('a', 1)), store.save(job('a', 1, 'sent')), store.save(job('b', 2))]);
+    expect(await new JsonFileRecordStore<Job>(path).get('a')).toMatchObject({ status: 'sent' });
+    expect(await new JsonFileRecordStore<Job>(path).list()).toHaveLength(2);
+  });
+});
+
+describe('SqliteRecordStore', () => {
+  // Minimal stand-in for a synchronous SQLite driver, matching the statements the store prepares.
+  const createDatabase = () => {
+    const rows = new Map<string, { sort_key: number; status: string; data: string }>();
+    const exec = jest.fn();
+    const db: SqliteDatabase = {
+      exec,
+      prepare: (sql: string) => ({
+        run: (...params: unknown[]) => {
+          if (sql.startsWith('INSERT')) {
+            rows.set(params[0] as string, { sort_key: params[1] as number, status: params[2] as string, data: params[3] as string });
+            return { changes: 1 };
+          }
+          return { changes: rows.delete(params[0] as string) ? 1 : 0 };
+        },
+        get: (id: unknown) => rows.get(id as string),
+        all: () => [...rows.values()].sort((a, b) => a.sort_key - b.sort_key),
+      }),
+    };
+    return { db, exec, rows };
+  };
+
+  it('creates its table and stores records as JSON rows', async () => {
+    const { db, exec, rows } = createDatabase();
+    const store = new SqliteRecordStore<Job>(db, 'jobs', record => record.at);
+    expect(exec).toHaveBeenCalledWith(expect.stringContaining('CREATE TABLE IF NOT EXISTS jobs'));
+
+    await store.save(job('b', 2));
+    await store.save(job('a', 1));
+    await store.save(job('a', 1, 'sent'));
+    expect(rows.get('a')).toMatchObject({ sort_key: 1, status: 'sent' });
+    expect(await store.get('a')).toEqual(job('a', 1, 'sent'));
+    expect((await store.list()).map(record => record.id)).toEqual(['a', 'b']);
+    expect(await store.delete('a')).toBe(true);
+    expect(await store.delete('a')).toBe(false);
+  });
+
+  it('rejects unsafe table names', () => {
+    expect(() => new SqliteRecordStore<Job>(createDatabase().db, 'x; DROP TABLE y', record => record.at)).toThrow(WasenderValidationError);
+  });
+});
@@ -0,0 +1,130 @@
+import { defineTemplate, TemplateRegistry, MessageTemplate } from '../src/templates';
+import { WasenderValidationError } from '../src/errors';
+
+describe('Message templates', () => {
+  const greeting = defineTemplate({
+    name: 'greeting',
+    type: 'text',
+    fallbackLocale: 'en',
+    locales: {
+      en: { text: 'Hello {{name}}, you have {{ count }} new messages.' },
+      pt: { text: 'Olá {{name}}, tem {{count}} mensagens novas.' },
+      'pt-BR': { text: 'Oi {{name}}, você tem {{count}} mensagens novas.' },
+    },
+  });
+
+  it('renders a text payload', () => {
+    expect(greeting.render('+1234567890', { name: 'Ana', count: 3 })).toEqual({
+      messageType: 'text',
+      to: '+1234567890',
+      text: 'Hello Ana, you have 3 new messages.',
+    });
+  });
+
+  it('picks the locale variant with fallback', () => {
+    expect(greeting.render('1', { name: 'Ana', count: 1 }, { locale: 'pt-BR' }).text).toMatch(/^Oi/);
+    expect(greeting.render('1', { name: 'Ana', count: 1 }, { locale: 'pt-PT' }).text).toMatch(/^Olá/);
+    expect(greeting.render('1', { name: 'Ana', count: 1 }, { locale: 'de' }).text).toMatch(/^Hello/);
+    expect(greeting.resolveLocale('pt-BR')).toBe('pt-BR');
+    expect(greeting.locales).toEqual(['en', 'pt', 'pt-BR']);
+  });
+
+  it('falls back to a sibling locale of the same language', () => {
+    const template = defineTemplate({ name: 'x', type: 'text', locales: { de: { text: 'Hallo' }, 'es-MX': { text: 'Hola' } } });
+    expect(template.resolveLocale('es-AR')).toBe('es-MX');
+    expect(template.resolveLocale('fr')).toBe('de');
+  });
+
+  it('interpolates placeholders in every field of a media template', () => {
+    const invoice = defineTemplate({
+      name: 'invoice',
+      type: 'document',
+      currency: 'USD',
+      locales: {
+        en: { documentUrl: 'https://example.com/{{id}}.pdf', fileName: 'invoice-{{id}}.pdf', text: 'Total: {{total:currency}}' },
+      },
+    });
+    expect(invoice.render('123', { id: 'A1', total: 1234.5 })).toEqual({
+      messageType: 'document',
+      to: '123',
+      documentUrl: 'https://example.com/A1.pdf',
+      fileName: 'invoice-A1.pdf',
+      text: 'Total: $1,234.50',
+    });
+  });
+
+  it('formats dates and currencies for the locale', () => {
+    const template = defineTemplate({
+      name: 'due',
+      type: 'text',
+      locales: { en: { text: '{{amount:currency:EUR}} due {{due:date:long}}' }, de: { text: '{{amount:currency:EUR}} fällig am {{due:date:long}}' } },
+    });
+    const due = Date.UTC(2024, 0, 15, 12);
+    expect(template.render('1', { amount: 10, due }, { timeZone: 'UTC' }).text).toBe('€10.00 due January 15, 2024');
+    expect(template.render('1', { amount: 10, due }, { locale: 'de-AT', timeZone: 'UTC' }).text.replace(/\s/g, ' ')).toBe('€ 10,00 fällig am 15. Jänner 2024');
+    expect(template.render('1', { amount: 10, due }, { locale: 'fr', timeZone: 'UTC' }).text).toBe('€10.00 due January 15, 2024');
+  });
+
+  it('uses the render currency over the template default', () => {
+    const template = defineTemplate({ name: 'c', type: 'text', currency: 'USD', locales: { en: { text: '{{n:currency}}' } } });
+    expect(template.render('1', { n: 5 }, { currency: 'GBP' }).text).toBe('£5.00');
+  });
+
+  it('throws a validation error listing missing variables', () => {
+    try {
+      (greeting as MessageTemplate).render('1', { name: 'Ana' });
+      throw new Error('expected render to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(WasenderValidationError);
+      expect((error as WasenderValidationError).fieldErrors('count')).toHaveLength(1);
+    }
+  });
+
+  it('throws when a value cannot be formatted', () => {
+    const template = defineTemplate({ name: 'd', type: 'text', locales: { en: { text: '{{when:date}} {{n:currency}}' } } });
+    expect(() => template.render('1', { when: 'not a date', n: 1 })).toThrow(WasenderValidationError);
+  });
+
+  it('rejects invalid definitions', () => {
+    expect(() => defineTemplate({ name: 'i', type: 'image', locales: { en: { imageUrl: '' } } })).toThrow(WasenderValidationError);
+    expect(() => defineTemplate({ name: 'e', type: 'text', locales: {} })).toThrow(WasenderValidationError);
+  });
+
+  it('requires every placeholder variable at compile time', () => {
+    // @ts-expect-error `count` is missing
+    expect(() => greeting.render('1', { name: 'Ana' })).toThrow();
+    // @ts-expect-error `total` must be a number
+    expect(() => defineTemplate({ name: 't', type: 'text', locales: { en: { text: '{{total:currency}}' } } }).render('1', { total: 'x' })).toThrow();
+  });
+});
+
+describe('TemplateRegistry', () => {
+  it('registers templates and renders them by name', () => {
+    const registry = new TemplateRegistry({ defaultLocale: 'es' });
+    registry.define({ name: 'hi', type: 'image', locales: { en: { imageUrl: 'https://e.com/en.png' }, es: { imageUrl: 'https://e.com/es.png', text: 'Hola {{name}}' } } });
+    expect(registry.names()).toEqual(['hi']);
+    expect(registry.render('hi', '1', { name: 'Ana' })).toEqual({ messageType: 'image', to: '1', imageUrl: 'https://e.com/es.png', text: 'Hola Ana' });
+    expect(registry.get('hi')).toBeInstanceOf(MessageTemplate);
+  });
+
+  it('rejects duplicate and unknown names', () => {
+    const registry = new TemplateRegistry();
+    registry.define({ name: 'hi', type: 'text', locales: { en: { text: 'Hi' } } });
+    expect(() => registry.define({ name: 'hi', type: 'text', locales: { en: { text: 'Hi' } } })).toThrow(WasenderValidationError);
+    expect(() => registry.render('nope', '1', {})).toThrow(WasenderValidationError);
+  });
+
+  it('supports custom formatters', () => {
+    const registry = new TemplateRegistry({
+      formatters: { upper: value => String(value).toUpperCase(), repeat: (value, arg) => String(value).repeat(Number(arg ?? 1)) },
+    });
+    const template = registry.define({ name: 'f', type: 'text', locales: { en: { text: '{{a:upper}} {{b:repeat:3}}' } } });
+    expect(template.render('1', { a: 'x', b: 'y' }).text).toBe('X yyy');
+    expect(() => registry.render('f', '1', { a: 'x', b: 'y', c: 1 })).not.toThrow();
+  });
+
+  it('rejects unknown formatters at render time', () => {
+    const template = defineTemplate({ name: 'u', type: 'text', locales: { en: { text: '{{a:nope}}' } } });
+    expect(() => template.render('1', { a: 1 })).toThrow(/Unknown formatter/);
+  });
+});
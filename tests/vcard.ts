@@ -0,0 +1,128 @@
+import { toVCard, parseVCard, parseVCards, toContactCardPayload, contactsFromMessage, VCardContact } from '../src/vcard';
+import { WasenderValidationError } from '../src/errors';
+
+const jane: VCardContact = {
+  name: 'Jane Doe',
+  firstName: 'Jane',
+  lastName: 'Doe',
+  organization: 'Acme; Inc.',
+  department: 'Sales',
+  title: 'Account Manager',
+  phones: [{ number: '+1 555-010-9999', type: 'cell' }, { number: '020 7946 0000', type: 'work' }],
+  emails: [{ address: 'jane@acme.example', type: 'work' }],
+  urls: ['https://acme.example'],
+  addresses: [{ street: '1 Main St', city: 'Springfield', postalCode: '12345', country: 'USA', type: 'work' }],
+  note: 'Met at the expo,\nprefers email',
+};
+
+describe('toVCard', () => {
+  it('serializes a rich contact as vCard 3.0', () => {
+    expect(toVCard(jane).split('\r\n')).toEqual([
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'N:Doe;Jane;;;',
+      'FN:Jane Doe',
+      'ORG:Acme\\; Inc.;Sales',
+      'TITLE:Account Manager',
+      'TEL;type=CELL;waid=15550109999:+1 555-010-9999',
+      'TEL;type=WORK:020 7946 0000',
+      'EMAIL;type=WORK:jane@acme.example',
+      'URL:https://acme.example',
+      'ADR;type=WORK:;;1 Main St;Springfield;;12345;USA',
+      'NOTE:Met at the expo\\,\\nprefers email',
+      'END:VCARD',
+    ]);
+  });
+
+  it('serializes vCard 4.0 with tel URIs', () => {
+    const card = toVCard({ name: 'Jane', phones: [{ number: '+1 555-010-9999', type: 'cell' }] }, { version: '4.0' });
+    expect(card).toContain('VERSION:4.0\r\nN:;Jane;;;');
+    expect(card).toContain('TEL;VALUE=uri;TYPE=cell:tel:+15550109999');
+  });
+
+  it('folds long lines without splitting characters', () => {
+    const card = toVCard({ name: 'Jane', note: 'é'.repeat(100) });
+    const lines = card.split('\r\n');
+    expect(lines.every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(parseVCard(card).note).toBe('é'.repeat(100));
+  });
+
+  it('rejects contacts without a name or with empty numbers', () => {
+    expect(() => toVCard({ name: ' ' })).toThrow(WasenderValidationError);
+    expect(() => toVCard({ name: 'Jane', phones: [{ number: '' }] })).toThrow(WasenderValidationError);
+  });
+});
+
+describe('parseVCard', () => {
+  it('round-trips a serialized contact', () => {
+    const parsed = parseVCard(toVCard(jane));
+    expect(parsed).toEqual({
+      ...jane,
+      phones: [{ number: '+1 555-010-9999', type: 'cell', waid: '15550109999' }, { number: '020 7946 0000', type: 'work' }],
+    });
+  });
+
+  it('reads cards written by WhatsApp and other apps', () => {
+    const text = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'N:;Bob;;;',
+      'FN:Bob',
+      'item1.TEL;waid=447700900123:+44 7700 900123',
+      'item1.X-ABLabel:Mobile',
+      'TEL;TYPE="voice,cell":+1 555',
+      ' 0109999',
+      'EMAIL;TYPE=INTERNET;TYPE=HOME:bob@example.com',
+      'END:VCARD',
+    ].join('\n');
+    expect(parseVCard(text)).toEqual({
+      name: 'Bob',
+      firstName: 'Bob',
+      phones: [{ number: '+44 7700 900123', waid: '447700900123' }, { number: '+1 5550109999', type: 'cell' }],
+      emails: [{ address: 'bob@example.com', type: 'home' }],
+    });
+  });
+
+  it('reads vCard 4.0 and derives a missing display name', () => {
+    const text = 'BEGIN:VCARD\r\nVERSION:4.0\r\nN:Doe;John;;;\r\nTEL;VALUE=uri;TYPE=work:tel:+15550109999\r\nEND:VCARD';
+    expect(parseVCard(text)).toEqual({ name: 'John Doe', firstName: 'John', lastName: 'Doe', phones: [{ number: '+15550109999', type: 'work' }] });
+  });
+
+  it('parses several cards and rejects text without one', () => {
+    expect(parseVCards(`${toVCard({ name: 'A' })}\r\n${toVCard({ name: 'B' })}`).map(contact => contact.name)).toEqual(['A', 'B']);
+    expect(() => parseVCard('FN:Nobody')).toThrow(WasenderValidationError);
+  });
+});
+
+describe('toContactCardPayload', () => {
+  it('keeps simple contacts and adds vCards for rich ones', () => {
+    expect(toContactCardPayload({ name: 'Jane', phone: '+15550109999' })).toEqual({ name: 'Jane', phone: '+15550109999' });
+    expect(toContactCardPayload(jane)).toEqual({ name: 'Jane Doe', phone: '+1 555-010-9999', vcard: toVCard(jane) });
+    const raw = toVCard({ name: 'Bob', phones: [{ number: '+447700900123' }] }, { version: '4.0' });
+    expect(toContactCardPayload(raw)).toEqual({ name: 'Bob', phone: '+447700900123', vcard: raw });
+  });
+
+  it('rejects contacts without a phone number', () => {
+    for (const contact of [{ name: 'Ann' }, { name: 'Ann', phones: [{ number: ' ' }] }, toVCard({ name: 'Ann' })]) {
+      let error: WasenderValidationError | undefined;
+      try {
+        toContactCardPayload(contact);
+      } catch (caught) {
+        error = caught as WasenderValidationError;
+      }
+      expect(error).toBeInstanceOf(WasenderValidationError);
+      expect(error!.fieldErrors('phones')).toEqual(['Contact "Ann" must have at least one phone number.']);
+    }
+  });
+});
+
+describe('contactsFromMessage', () => {
+  it('decodes single and multiple contact messages', () => {
+    expect(contactsFromMessage({ contactMessage: { displayName: 'Jane', vcard: toVCard(jane) } })).toEqual([parseVCard(toVCard(jane))]);
+    expect(contactsFromMessage({
+      contactsArrayMessage: { contacts: [{ displayName: 'A', vcard: toVCard({ name: 'A' }) }, { displayName: 'Broken', vcard: 'garbage' }] },
+    }).map(contact => contact.name)).toEqual(['A', 'Broken']);
+    expect(contactsFromMessage({ conversation: 'hi' })).toEqual([]);
+    expect(contactsFromMessage(undefined)).toEqual([]);
+  });
+});